@@ -0,0 +1,242 @@
+import type { CalendarConfig, ClockAdvance, GameClock, GameState, Locale } from './types.js';
+import { getLocale, translate } from './i18n.js';
+
+const DEFAULT_SLOTS = ['Morning', 'Afternoon', 'Evening', 'Night'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 달력 설정을 검증하여 시계 생성
+ */
+export function createClock(config: CalendarConfig): GameClock {
+  if (!config || typeof config !== 'object') {
+    throw new Error('calendar must be an object');
+  }
+  const slots = config.slots ?? DEFAULT_SLOTS;
+  if (
+    !Array.isArray(slots) ||
+    slots.length === 0 ||
+    slots.some(slot => typeof slot !== 'string' || !slot.trim())
+  ) {
+    throw new Error('calendar.slots must be a non-empty array of time-of-day names');
+  }
+  if (new Set(slots.map(slot => slot.toLowerCase())).size !== slots.length) {
+    throw new Error('calendar.slots must be unique');
+  }
+
+  const startDay = config.startDay ?? 1;
+  requireInteger(startDay, 'calendar.startDay', 0);
+  if (config.startDate !== undefined && !parseDate(config.startDate)) {
+    throw new Error('calendar.startDate must be a date in YYYY-MM-DD format');
+  }
+  const defaultActionCost = config.defaultActionCost ?? 0;
+  requireInteger(defaultActionCost, 'calendar.defaultActionCost', 0);
+
+  const clock: GameClock = {
+    day: startDay,
+    slot: config.startSlot === undefined ? 0 : findSlot(slots, config.startSlot),
+    slots: [...slots],
+    startDay,
+    defaultActionCost,
+  };
+  if (config.startDate !== undefined) {
+    clock.startDate = config.startDate;
+  }
+  if (config.deadline !== undefined) {
+    const { day, slot, reason } = config.deadline ?? {};
+    requireInteger(day, 'calendar.deadline.day', startDay);
+    clock.deadline = {
+      day: day as number,
+      slot: slot === undefined ? 0 : findSlot(slots, slot),
+      ...(reason ? { reason } : {}),
+    };
+    if (compare(clock.deadline, clock) <= 0) {
+      throw new Error('calendar.deadline must be after the start time');
+    }
+  }
+  return clock;
+}
+
+/**
+ * 시계를 slots 시간대만큼 진행 - 하루의 마지막 시간대를 넘기면 다음 날로 넘어감
+ * world.time을 현재 시각 표시로 갱신한다.
+ */
+export function advanceClock(state: GameState, slots: number): ClockAdvance {
+  const clock = state._clock;
+  if (!clock) {
+    throw new Error('This game has no calendar. Set one with setCalendar first');
+  }
+  requireInteger(slots, 'time', 0);
+
+  const before = formatClock(clock, getLocale(state));
+  const previousDay = clock.day;
+  const total = clock.slot + slots;
+  clock.day += Math.floor(total / clock.slots.length);
+  clock.slot = total % clock.slots.length;
+  const daysPassed = clock.day - previousDay;
+
+  // 설명을 고정하지 않아야 여러 번 진행해도 delta가 처음 시각부터 표시됨
+  const changes =
+    slots > 0
+      ? [
+          {
+            field: 'world.time',
+            label: 'Time',
+            labelField: 'time',
+            initialValue: before,
+            finalValue: syncWorldTime(state),
+          },
+        ]
+      : [];
+
+  return {
+    clock,
+    changes,
+    slotsPassed: slots,
+    daysPassed,
+    deadlineReached: isDeadlineReached(clock),
+  };
+}
+
+/**
+ * advanceTime 인자를 지날 시간대 수로 변환 (toSlot은 다음으로 돌아오는 그 시간대)
+ */
+export function countSlots(
+  clock: GameClock,
+  request: { slots?: number; days?: number; toSlot?: string }
+): number {
+  let slots = 0;
+  if (request.slots !== undefined) {
+    requireInteger(request.slots, 'slots', 0);
+    slots += request.slots;
+  }
+  if (request.days !== undefined) {
+    requireInteger(request.days, 'days', 0);
+    slots += request.days * clock.slots.length;
+  }
+  if (request.toSlot !== undefined) {
+    const current = (clock.slot + slots) % clock.slots.length;
+    const target = findSlot(clock.slots, request.toSlot);
+    slots += (target - current + clock.slots.length) % clock.slots.length || clock.slots.length;
+  }
+  if (slots === 0) {
+    throw new Error('Specify slots, days or toSlot to advance time');
+  }
+  return slots;
+}
+
+/**
+ * world.time을 시계와 맞춤 (world가 없으면 만듦)
+ */
+export function syncWorldTime(state: GameState): string {
+  const text = formatClock(state._clock as GameClock, getLocale(state));
+  state.world = { ...state.world, time: text };
+  return text;
+}
+
+/**
+ * 현재 시각 표시 (예: "Day 3, Evening", "2024-04-03 (Day 3), Evening") - 도구 응답은 영어
+ */
+export function formatClock(clock: GameClock, locale: Locale = 'en'): string {
+  return `${formatDay(clock, clock.day, locale)}, ${clock.slots[clock.slot]}`;
+}
+
+/**
+ * 마감까지 남은 시간 설명 (마감이 없으면 undefined)
+ */
+export function describeDeadline(clock: GameClock, locale: Locale = 'en'): string | undefined {
+  if (!clock.deadline) {
+    return undefined;
+  }
+  const { day, slot } = clock.deadline;
+  const remaining = remainingSlots(clock) ?? 0;
+  const when = `${formatDay(clock, day, locale)}, ${clock.slots[slot]}`;
+  if (remaining <= 0) {
+    return translate(locale, 'clock.deadlineReached', { when });
+  }
+  const days = Math.floor(remaining / clock.slots.length);
+  const slots = remaining % clock.slots.length;
+  const dayText = translate(locale, days === 1 ? 'clock.remaining.day' : 'clock.remaining.days', {
+    count: days,
+  });
+  const slotText = translate(
+    locale,
+    slots === 1 ? 'clock.remaining.slot' : 'clock.remaining.slots',
+    { count: slots }
+  );
+  const left =
+    days > 0 && slots > 0
+      ? translate(locale, 'clock.remaining.both', { days: dayText, slots: slotText })
+      : days > 0
+        ? dayText
+        : slotText;
+  return translate(locale, 'clock.deadline', { when, left });
+}
+
+/**
+ * 마감까지 남은 시간대 수 (지났으면 0, 마감이 없으면 undefined)
+ */
+export function remainingSlots(clock: GameClock): number | undefined {
+  if (!clock.deadline) {
+    return undefined;
+  }
+  const { day, slot } = clock.deadline;
+  return Math.max(0, (day - clock.day) * clock.slots.length + (slot - clock.slot));
+}
+
+/**
+ * 마감 도달 시의 게임 오버 사유
+ */
+export function describeDeadlineReason(clock: GameClock): string {
+  const deadline = clock.deadline;
+  if (!deadline) {
+    return 'Time ran out';
+  }
+  return (
+    deadline.reason ??
+    `Time ran out: the deadline (${formatDay(clock, deadline.day)}, ${clock.slots[deadline.slot]}) has passed`
+  );
+}
+
+/**
+ * 현재 시각이 마감 이후인지 여부
+ */
+export function isDeadlineReached(clock: GameClock): boolean {
+  return !!clock.deadline && compare(clock, clock.deadline) >= 0;
+}
+
+function formatDay(clock: GameClock, day: number, locale: Locale = 'en'): string {
+  const start = clock.startDate ? parseDate(clock.startDate) : undefined;
+  if (!start) {
+    return translate(locale, 'clock.day', { day });
+  }
+  const date = new Date(start.getTime() + (day - clock.startDay) * DAY_MS);
+  return translate(locale, 'clock.date', { date: date.toISOString().slice(0, 10), day });
+}
+
+function compare(a: { day: number; slot: number }, b: { day: number; slot: number }): number {
+  return a.day !== b.day ? a.day - b.day : a.slot - b.slot;
+}
+
+function findSlot(slots: string[], name: string): number {
+  const index = slots.findIndex(
+    slot => typeof name === 'string' && slot.toLowerCase() === name.toLowerCase()
+  );
+  if (index < 0) {
+    throw new Error(`Unknown time slot "${name}". Slots: ${slots.join(', ')}`);
+  }
+  return index;
+}
+
+function parseDate(value: string): Date | undefined {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function requireInteger(value: unknown, label: string, min: number): void {
+  if (!Number.isInteger(value) || (value as number) < min) {
+    throw new Error(`${label} must be an integer of at least ${min}`);
+  }
+}
@@ -0,0 +1,546 @@
+import type {
+  Character,
+  CombatActionRequest,
+  CombatTurn,
+  DiceRollRecord,
+  Encounter,
+  EnemyCombatant,
+  EnemyStatBlock,
+  GameState,
+} from './types.js';
+import { assertValidNotation } from './dice.js';
+import type { DiceRoller } from './dice.js';
+import { abilityModifier } from './skillCheck.js';
+import { removeInventoryItem } from './inventory.js';
+import {
+  applyItemEffect,
+  describeStatChange,
+  findItemDefinition,
+  getEffectiveStat,
+  getEquippedItems,
+  getStatBonus,
+} from './itemEffects.js';
+
+const MAX_ENCOUNTER_ENEMIES = 12;
+const MAX_COMBAT_LOG = 50;
+const DEFAULT_AC = 10;
+const DEFAULT_DAMAGE = '1d6';
+const DEFEND_AC_BONUS = 2;
+const FLEE_DC = 12;
+
+/**
+ * startEncounter에 전달된 적 목록 검증
+ * 이름이 겹치는 적은 "Goblin 1", "Goblin 2"처럼 번호를 붙여 구분한다.
+ */
+export function normalizeEnemies(enemies: EnemyStatBlock[]): EnemyCombatant[] {
+  if (!Array.isArray(enemies) || enemies.length === 0) {
+    throw new Error('enemies must be a non-empty array');
+  }
+  if (enemies.length > MAX_ENCOUNTER_ENEMIES) {
+    throw new Error(`An encounter can have at most ${MAX_ENCOUNTER_ENEMIES} enemies`);
+  }
+
+  enemies.forEach((enemy, index) => {
+    const label = `Enemy #${index}`;
+    if (!enemy || typeof enemy.name !== 'string' || !enemy.name.trim()) {
+      throw new Error(`${label}: name is required`);
+    }
+    if (typeof enemy.hp !== 'number' || enemy.hp <= 0) {
+      throw new Error(`${label} (${enemy.name}): hp must be a positive number`);
+    }
+    if (typeof enemy.ac !== 'number') {
+      throw new Error(`${label} (${enemy.name}): ac must be a number`);
+    }
+    if (enemy.initiativeBonus !== undefined && !Number.isInteger(enemy.initiativeBonus)) {
+      throw new Error(`${label} (${enemy.name}): initiativeBonus must be an integer`);
+    }
+    if (!Array.isArray(enemy.attacks) || enemy.attacks.length === 0) {
+      throw new Error(`${label} (${enemy.name}): at least one attack is required`);
+    }
+    enemy.attacks.forEach(attack => {
+      if (!attack || typeof attack.name !== 'string' || !Number.isInteger(attack.toHit)) {
+        throw new Error(`${label} (${enemy.name}): each attack needs a name and an integer toHit`);
+      }
+      if (typeof attack.damage !== 'string') {
+        throw new Error(`${label} (${enemy.name}): attack "${attack.name}" needs damage dice`);
+      }
+      assertValidNotation(attack.damage);
+    });
+  });
+
+  const nameCounts = new Map<string, number>();
+  enemies.forEach(enemy => nameCounts.set(enemy.name, (nameCounts.get(enemy.name) ?? 0) + 1));
+  const seen = new Map<string, number>();
+
+  return enemies.map(enemy => {
+    const number = (seen.get(enemy.name) ?? 0) + 1;
+    seen.set(enemy.name, number);
+    return {
+      ...enemy,
+      name: (nameCounts.get(enemy.name) ?? 0) > 1 ? `${enemy.name} ${number}` : enemy.name,
+      attacks: enemy.attacks.map(attack => ({ ...attack })),
+      maxHp: enemy.hp,
+    };
+  });
+}
+
+/**
+ * 전투 시작 - 우선권을 굴려 행동 순서를 정하고, 적이 먼저면 파티 차례까지 진행
+ */
+export function startCombat(
+  state: GameState,
+  enemies: EnemyCombatant[],
+  partyNames: string[] | undefined,
+  roll: DiceRoller
+): { encounter: Encounter; log: string[] } {
+  const characters = state.characters ?? [];
+  let partyIndexes: number[];
+  if (partyNames && partyNames.length > 0) {
+    partyIndexes = partyNames.map(name => {
+      const index = characters.findIndex(c => c.name === name);
+      if (index < 0) {
+        throw new Error(`Party member "${name}" not found in characters`);
+      }
+      if (!isConscious(characters[index])) {
+        throw new Error(`Party member "${name}" needs a positive hp value to fight`);
+      }
+      return index;
+    });
+  } else {
+    partyIndexes = characters.map((_, index) => index).filter(i => isConscious(characters[i]));
+  }
+  if (partyIndexes.length === 0) {
+    throw new Error('No party members can fight. Give characters a positive hp value first');
+  }
+
+  const order: CombatTurn[] = [
+    ...partyIndexes.map(index => {
+      const character = characters[index];
+      const initiative = roll(
+        withModifier('1d20', statModifier(state, character, 'dex')),
+        `${character.name} rolls initiative`
+      ).total;
+      return {
+        side: 'party' as const,
+        index,
+        name: character.name,
+        initiative,
+        maxHp: character.maxHp ?? character.hp,
+      };
+    }),
+    ...enemies.map((enemy, index) => ({
+      side: 'enemy' as const,
+      index,
+      name: enemy.name,
+      initiative: roll(
+        withModifier('1d20', enemy.initiativeBonus ?? 0),
+        `${enemy.name} rolls initiative`
+      ).total,
+    })),
+  ];
+  // 동점이면 파티가 먼저 행동
+  order.sort(
+    (a, b) => b.initiative - a.initiative || (a.side === b.side ? 0 : a.side === 'party' ? -1 : 1)
+  );
+
+  const encounter: Encounter = {
+    enemies,
+    order,
+    turnIndex: 0,
+    round: 1,
+    status: 'active',
+    log: [],
+    startedAt: new Date(),
+  };
+
+  const log = [
+    `Combat begins! Initiative: ${order.map(turn => `${turn.name} ${turn.initiative}`).join(', ')}`,
+  ];
+  runEnemyTurns(state, encounter, roll, log);
+  appendLog(encounter, log);
+  return { encounter, log };
+}
+
+/**
+ * 현재 차례의 파티원이 행동한 뒤, 다음 파티원 차례까지 적의 행동을 진행
+ */
+export function performCombatAction(
+  state: GameState,
+  encounter: Encounter,
+  request: CombatActionRequest,
+  roll: DiceRoller
+): string[] {
+  if (encounter.status !== 'active') {
+    throw new Error(`The encounter is already over (${encounter.status}). Call endEncounter`);
+  }
+  const turn = getCurrentTurn(encounter);
+  if (!turn || turn.side !== 'party') {
+    throw new Error('It is not a party member turn');
+  }
+  if (request.actor && request.actor !== turn.name) {
+    throw new Error(`It is ${turn.name}'s turn, not ${request.actor}'s`);
+  }
+
+  const actor = getCharacter(state, turn.index);
+  const log: string[] = [];
+
+  switch (request.action) {
+    case 'attack': {
+      const enemy = findEnemyTarget(encounter, request.target);
+      // 피해 주사위를 지정하지 않으면 장착한 무기의 피해량 사용
+      const weapon = getEquippedItems(state, actor).find(item => item.damage);
+      const damage = request.damage ?? weapon?.damage ?? DEFAULT_DAMAGE;
+      assertValidNotation(damage);
+      const strModifier = statModifier(state, actor, 'str');
+      const attack = roll(
+        withModifier('1d20', strModifier + getStatBonus(state, actor, 'attack')),
+        `${actor.name} attacks ${enemy.name}`
+      );
+      const result = resolveHit(attack, enemy.ac);
+      if (!result.hit) {
+        log.push(`${actor.name} attacks ${enemy.name}: ${attack.total} vs AC ${enemy.ac} — miss`);
+        break;
+      }
+      const amount = rollDamage(
+        roll,
+        damage,
+        strModifier,
+        result.critical,
+        `${actor.name} damages ${enemy.name}`
+      );
+      const before = enemy.hp;
+      enemy.hp = Math.max(0, enemy.hp - amount);
+      log.push(
+        `${actor.name} attacks ${enemy.name}: ${attack.total} vs AC ${enemy.ac} — ${result.critical ? 'critical hit' : 'hit'} for ${amount} damage (HP ${before} → ${enemy.hp})`
+      );
+      if (enemy.hp === 0) {
+        log.push(`${enemy.name} is defeated!`);
+      }
+      break;
+    }
+
+    case 'defend':
+      turn.defending = true;
+      log.push(
+        `${actor.name} takes a defensive stance (+${DEFEND_AC_BONUS} AC until their next turn)`
+      );
+      break;
+
+    case 'useItem': {
+      if (!request.item) {
+        throw new Error('useItem requires an item name');
+      }
+      const targetTurn = findPartyTarget(encounter, request.target ?? actor.name);
+      const target = getCharacter(state, targetTurn.index);
+      const usedItem = removeInventoryItem(state, undefined, request.item, 1, 'use').item;
+      const itemName = usedItem.name;
+
+      // 회복량을 지정하지 않으면 아이템 카탈로그의 효과를 적용
+      if (request.healing === undefined) {
+        const definition = findItemDefinition(state, usedItem);
+        if (!definition?.effect) {
+          throw new Error(
+            `${itemName} has no catalog effect; pass healing (number or dice notation)`
+          );
+        }
+        const changes = applyItemEffect(state, targetTurn.index, definition, roll);
+        log.push(
+          `${actor.name} uses ${itemName} on ${target.name}: ${changes.map(change => describeStatChange(change)).join(', ') || 'no effect'}`
+        );
+        break;
+      }
+
+      let amount: number;
+      if (typeof request.healing === 'number') {
+        if (!Number.isFinite(request.healing) || request.healing < 0) {
+          throw new Error('healing must be a non-negative number');
+        }
+        amount = request.healing;
+      } else {
+        amount = Math.max(0, roll(request.healing, `${itemName} heals ${target.name}`).total);
+      }
+
+      const before = target.hp ?? 0;
+      const maxHp = targetTurn.maxHp ?? before + amount;
+      target.hp = Math.max(before, Math.min(maxHp, before + amount));
+      log.push(
+        `${actor.name} uses ${itemName} on ${target.name}: +${target.hp - before} HP (${before} → ${target.hp})`
+      );
+      break;
+    }
+
+    case 'flee': {
+      const attempt = roll(
+        withModifier('1d20', statModifier(state, actor, 'dex')),
+        `${actor.name} tries to flee`
+      );
+      if (attempt.total >= FLEE_DC) {
+        encounter.status = 'fled';
+        log.push(
+          `${actor.name} leads the party away: ${attempt.total} vs DC ${FLEE_DC} — escaped!`
+        );
+      } else {
+        log.push(`${actor.name} tries to flee: ${attempt.total} vs DC ${FLEE_DC} — no way out`);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(
+        `Unknown combat action "${request.action as string}". Expected one of: attack, defend, useItem, flee`
+      );
+  }
+
+  updateStatus(state, encounter, log);
+  if (encounter.status === 'active') {
+    advanceTurn(state, encounter, log);
+    runEnemyTurns(state, encounter, roll, log);
+  }
+  appendLog(encounter, log);
+  return log;
+}
+
+/**
+ * 현재 차례
+ */
+export function getCurrentTurn(encounter: Encounter): CombatTurn | undefined {
+  return encounter.order[encounter.turnIndex];
+}
+
+/**
+ * 전투 참가자 현황 (행동 순서대로, 현재 차례는 ▶ 표시)
+ */
+export function describeCombatants(state: GameState, encounter: Encounter): string[] {
+  return encounter.order.map((turn, index) => {
+    const marker = index === encounter.turnIndex && encounter.status === 'active' ? '▶ ' : '';
+    const { hp, maxHp } = getHp(state, encounter, turn);
+    const status = hp <= 0 ? (turn.side === 'enemy' ? ' [defeated]' : ' [down]') : '';
+    const defending = turn.defending ? ' [defending]' : '';
+    return `${marker}${turn.name} (${turn.side}) HP ${hp}/${maxHp} AC ${getAc(state, encounter, turn)}${status}${defending}`;
+  });
+}
+
+/**
+ * 적 차례를 파티원 차례가 오거나 전투가 끝날 때까지 진행
+ */
+function runEnemyTurns(
+  state: GameState,
+  encounter: Encounter,
+  roll: DiceRoller,
+  log: string[]
+): void {
+  let turn = getCurrentTurn(encounter);
+  while (encounter.status === 'active' && turn?.side === 'enemy') {
+    enemyAct(state, encounter, encounter.enemies[turn.index], roll, log);
+    updateStatus(state, encounter, log);
+    if (encounter.status !== 'active') {
+      break;
+    }
+    advanceTurn(state, encounter, log);
+    turn = getCurrentTurn(encounter);
+  }
+}
+
+/**
+ * 적의 행동 - 쓰러지지 않은 파티원 중 하나를 무작위로 공격
+ */
+function enemyAct(
+  state: GameState,
+  encounter: Encounter,
+  enemy: EnemyCombatant,
+  roll: DiceRoller,
+  log: string[]
+): void {
+  const targets = encounter.order.filter(
+    turn => turn.side === 'party' && isAlive(state, encounter, turn)
+  );
+  if (targets.length === 0) {
+    return;
+  }
+  const targetTurn = targets[pickIndex(roll, targets.length, `${enemy.name} picks a target`)];
+  const attackDef =
+    enemy.attacks[pickIndex(roll, enemy.attacks.length, `${enemy.name} picks an attack`)];
+  const target = getCharacter(state, targetTurn.index);
+  const ac = getAc(state, encounter, targetTurn);
+
+  const attack = roll(
+    withModifier('1d20', attackDef.toHit),
+    `${enemy.name} attacks ${target.name} with ${attackDef.name}`
+  );
+  const result = resolveHit(attack, ac);
+  if (!result.hit) {
+    log.push(
+      `${enemy.name} attacks ${target.name} with ${attackDef.name}: ${attack.total} vs AC ${ac} — miss`
+    );
+    return;
+  }
+
+  const amount = rollDamage(
+    roll,
+    attackDef.damage,
+    0,
+    result.critical,
+    `${enemy.name} damages ${target.name}`
+  );
+  const before = target.hp ?? 0;
+  target.hp = Math.max(0, before - amount);
+  log.push(
+    `${enemy.name} attacks ${target.name} with ${attackDef.name}: ${attack.total} vs AC ${ac} — ${result.critical ? 'critical hit' : 'hit'} for ${amount} damage (HP ${before} → ${target.hp})`
+  );
+  if (target.hp === 0) {
+    log.push(`${target.name} falls unconscious!`);
+  }
+}
+
+/**
+ * 다음으로 행동할 수 있는 참가자에게 차례를 넘김 (한 바퀴 돌면 라운드 증가)
+ */
+function advanceTurn(state: GameState, encounter: Encounter, log: string[]): void {
+  for (let step = 0; step < encounter.order.length; step++) {
+    encounter.turnIndex += 1;
+    if (encounter.turnIndex >= encounter.order.length) {
+      encounter.turnIndex = 0;
+      encounter.round += 1;
+      log.push(`Round ${encounter.round} begins`);
+    }
+    const turn = encounter.order[encounter.turnIndex];
+    if (isAlive(state, encounter, turn)) {
+      // 방어 자세는 자기 차례가 다시 오면 해제
+      turn.defending = false;
+      return;
+    }
+  }
+}
+
+/**
+ * 승리/전멸 여부 갱신
+ */
+function updateStatus(state: GameState, encounter: Encounter, log: string[]): void {
+  if (encounter.status !== 'active') {
+    return;
+  }
+  if (encounter.enemies.every(enemy => enemy.hp <= 0)) {
+    encounter.status = 'victory';
+    log.push('Victory! All enemies are defeated');
+    return;
+  }
+  const partyTurns = encounter.order.filter(turn => turn.side === 'party');
+  if (partyTurns.every(turn => !isAlive(state, encounter, turn))) {
+    encounter.status = 'defeat';
+    log.push('The party has fallen...');
+  }
+}
+
+/**
+ * 명중 판정 - 1은 무조건 빗나가고 20은 무조건 치명타
+ */
+function resolveHit(attack: DiceRollRecord, ac: number): { hit: boolean; critical: boolean } {
+  const natural = attack.terms[0]?.rolls[0];
+  if (natural === 20) {
+    return { hit: true, critical: true };
+  }
+  if (natural === 1) {
+    return { hit: false, critical: false };
+  }
+  return { hit: attack.total >= ac, critical: false };
+}
+
+/**
+ * 피해량 굴림 - 치명타는 주사위를 한 번 더 굴려 더하며, 명중하면 최소 1
+ */
+function rollDamage(
+  roll: DiceRoller,
+  notation: string,
+  modifier: number,
+  critical: boolean,
+  reason: string
+): number {
+  let amount = roll(withModifier(notation, modifier), reason).total;
+  if (critical) {
+    amount += roll(notation, `${reason} (critical)`).total;
+  }
+  return Math.max(1, amount);
+}
+
+/**
+ * 1..count 중 하나를 굴려 0부터 시작하는 인덱스로 반환 (하나뿐이면 굴리지 않음)
+ */
+function pickIndex(roll: DiceRoller, count: number, reason: string): number {
+  return count > 1 ? roll(`1d${count}`, reason).total - 1 : 0;
+}
+
+function findEnemyTarget(encounter: Encounter, name: string | undefined): EnemyCombatant {
+  const living = encounter.enemies.filter(enemy => enemy.hp > 0);
+  const target = name
+    ? living.find(enemy => enemy.name.toLowerCase() === name.toLowerCase())
+    : living[0];
+  if (!target) {
+    throw new Error(
+      `No standing enemy named "${name}". Targets: ${living.map(enemy => enemy.name).join(', ')}`
+    );
+  }
+  return target;
+}
+
+function findPartyTarget(encounter: Encounter, name: string): CombatTurn {
+  const target = encounter.order.find(
+    turn => turn.side === 'party' && turn.name.toLowerCase() === name.toLowerCase()
+  );
+  if (!target) {
+    throw new Error(`"${name}" is not a party member in this encounter`);
+  }
+  return target;
+}
+
+function appendLog(encounter: Encounter, log: string[]): void {
+  encounter.log = [...encounter.log, ...log].slice(-MAX_COMBAT_LOG);
+}
+
+function getCharacter(state: GameState, index: number): Character {
+  const character = state.characters?.[index];
+  if (!character) {
+    throw new Error(`Party member #${index} no longer exists in characters`);
+  }
+  return character;
+}
+
+function getHp(
+  state: GameState,
+  encounter: Encounter,
+  turn: CombatTurn
+): { hp: number; maxHp: number } {
+  if (turn.side === 'enemy') {
+    const enemy = encounter.enemies[turn.index];
+    return { hp: enemy.hp, maxHp: enemy.maxHp };
+  }
+  const hp = state.characters?.[turn.index]?.hp ?? 0;
+  return { hp, maxHp: turn.maxHp ?? hp };
+}
+
+function getAc(state: GameState, encounter: Encounter, turn: CombatTurn): number {
+  const base =
+    turn.side === 'enemy'
+      ? encounter.enemies[turn.index].ac
+      : (getEffectiveStat(state, getCharacter(state, turn.index), 'ac') ?? DEFAULT_AC);
+  return base + (turn.defending ? DEFEND_AC_BONUS : 0);
+}
+
+function isAlive(state: GameState, encounter: Encounter, turn: CombatTurn): boolean {
+  return getHp(state, encounter, turn).hp > 0;
+}
+
+function isConscious(character: Character): boolean {
+  return typeof character.hp === 'number' && character.hp > 0;
+}
+
+function statModifier(state: GameState, character: Character, stat: string): number {
+  const value = getEffectiveStat(state, character, stat);
+  return value === undefined ? 0 : abilityModifier(value);
+}
+
+function withModifier(notation: string, modifier: number): string {
+  if (modifier === 0) {
+    return notation;
+  }
+  return `${notation}${modifier > 0 ? '+' : ''}${modifier}`;
+}
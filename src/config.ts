@@ -0,0 +1,58 @@
+import os from 'os';
+import path from 'path';
+import type { StorageBackend, StorageConfig } from './types.js';
+
+/**
+ * 서버 실행 설정
+ */
+export interface ServerConfig {
+  storage: StorageConfig;
+  templateDir?: string; // 사용자 UI 테마 디렉터리 (없으면 내장 테마만)
+}
+
+const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'json', 'sqlite'];
+
+/**
+ * CLI 인자에서 옵션 값 읽기 (--name value 또는 --name=value)
+ */
+function readFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * CLI 인자와 환경 변수로부터 서버 설정 생성 (CLI 인자가 우선)
+ *
+ * --storage <memory|json|sqlite>  / RPG_STORAGE
+ * --data-dir <path>               / RPG_DATA_DIR  (기본값: ~/.rpg-mcp-server)
+ * --template-dir <path>           / RPG_TEMPLATE_DIR  (사용자 UI 테마)
+ */
+export function loadServerConfig(argv: string[], env: NodeJS.ProcessEnv): ServerConfig {
+  const backend = readFlag(argv, 'storage') ?? env.RPG_STORAGE ?? 'memory';
+  if (!STORAGE_BACKENDS.includes(backend as StorageBackend)) {
+    throw new Error(
+      `Invalid storage backend "${backend}". Expected one of: ${STORAGE_BACKENDS.join(', ')}`
+    );
+  }
+
+  const dataDir =
+    readFlag(argv, 'data-dir') ?? env.RPG_DATA_DIR ?? path.join(os.homedir(), '.rpg-mcp-server');
+
+  const templateDir = readFlag(argv, 'template-dir') ?? env.RPG_TEMPLATE_DIR;
+
+  return {
+    storage: {
+      backend: backend as StorageBackend,
+      dataDir: path.resolve(dataDir),
+    },
+    ...(templateDir ? { templateDir: path.resolve(templateDir) } : {}),
+  };
+}
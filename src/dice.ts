@@ -0,0 +1,189 @@
+import type { DiceRollMode, DiceRollRecord, DiceRollResult, DiceTermResult } from './types.js';
+
+/**
+ * 게임의 시드 난수로 굴리고 굴림 기록에 남기는 함수 (전투, 아이템 효과 등에서 사용)
+ */
+export type DiceRoller = (notation: string, reason: string) => DiceRollRecord;
+
+export const DICE_ROLL_MODES: DiceRollMode[] = ['normal', 'advantage', 'disadvantage'];
+
+const MAX_DICE_COUNT = 100;
+const MAX_DICE_SIDES = 1000;
+const MAX_EXPLOSIONS = 20; // 주사위 하나당 최대 폭발 횟수
+
+/**
+ * 시드 기반 난수 생성기 (mulberry32)
+ * state는 32비트 정수이며, 저장해두면 같은 순서의 결과를 그대로 재현할 수 있다.
+ */
+export class SeededRng {
+  constructor(public state: number) {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * [0, 1) 범위의 난수
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 1부터 sides까지의 정수
+   */
+  die(sides: number): number {
+    return Math.floor(this.next() * sides) + 1;
+  }
+}
+
+/**
+ * 새 게임용 무작위 시드 생성
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+type DiceTerm =
+  | { kind: 'dice'; sign: 1 | -1; count: number; sides: number; exploding: boolean }
+  | { kind: 'constant'; sign: 1 | -1; value: number };
+
+/**
+ * 주사위 표기법 파싱
+ * 예: "2d6+3", "d20", "4d6!-1", "d%" (d100)
+ */
+function parseNotation(notation: string): DiceTerm[] {
+  // 연산자 주변 공백만 허용 ("3d6 + 2")
+  const compact = notation
+    .trim()
+    .toLowerCase()
+    .replace(/\s*([+-])\s*/g, '$1');
+  if (!compact) {
+    throw new Error('Dice notation cannot be empty');
+  }
+
+  const terms: DiceTerm[] = [];
+  const termPattern = /([+-]?)(?:(\d*)d(\d+|%)(!?)|(\d+))/gy;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while (consumed < compact.length && (match = termPattern.exec(compact)) !== null) {
+    if (terms.length > 0 && !match[1]) {
+      break; // 항 사이에는 반드시 + 또는 -가 있어야 함
+    }
+    const sign = match[1] === '-' ? -1 : 1;
+    if (match[5] !== undefined) {
+      terms.push({ kind: 'constant', sign, value: Number(match[5]) });
+    } else {
+      const count = match[2] ? Number(match[2]) : 1;
+      const sides = match[3] === '%' ? 100 : Number(match[3]);
+      if (count < 1 || count > MAX_DICE_COUNT) {
+        throw new Error(`Dice count must be between 1 and ${MAX_DICE_COUNT}`);
+      }
+      if (sides < 2 || sides > MAX_DICE_SIDES) {
+        throw new Error(`Dice sides must be between 2 and ${MAX_DICE_SIDES}`);
+      }
+      terms.push({ kind: 'dice', sign, count, sides, exploding: match[4] === '!' });
+    }
+    consumed = termPattern.lastIndex;
+  }
+
+  if (consumed !== compact.length || !terms.some(term => term.kind === 'dice')) {
+    throw new Error(
+      `Invalid dice notation "${notation}". Use standard notation such as "2d6+3", "d20" or "4d6!" (exploding)`
+    );
+  }
+  return terms;
+}
+
+/**
+ * 표기법이 올바른지 검사 (굴리지 않으므로 난수 상태가 바뀌지 않음)
+ */
+export function assertValidNotation(notation: string): void {
+  parseNotation(notation);
+}
+
+/**
+ * 표기법을 한 번 굴린 결과
+ */
+function rollOnce(terms: DiceTerm[], rng: SeededRng): { total: number; terms: DiceTermResult[] } {
+  let total = 0;
+  const results: DiceTermResult[] = [];
+
+  for (const term of terms) {
+    if (term.kind === 'constant') {
+      total += term.sign * term.value;
+      results.push({
+        label: `${term.sign < 0 ? '-' : '+'}${term.value}`,
+        rolls: [],
+        subtotal: term.sign * term.value,
+      });
+      continue;
+    }
+
+    const rolls: number[] = [];
+    for (let i = 0; i < term.count; i++) {
+      let roll = rng.die(term.sides);
+      rolls.push(roll);
+      // 폭발 주사위: 최대값이 나오면 한 번 더 굴려 더함
+      let explosions = 0;
+      while (term.exploding && roll === term.sides && explosions < MAX_EXPLOSIONS) {
+        roll = rng.die(term.sides);
+        rolls.push(roll);
+        explosions++;
+      }
+    }
+    const subtotal = term.sign * rolls.reduce((sum, r) => sum + r, 0);
+    total += subtotal;
+    results.push({
+      label: `${term.sign < 0 ? '-' : ''}${term.count}d${term.sides}${term.exploding ? '!' : ''}`,
+      rolls,
+      subtotal,
+    });
+  }
+
+  return { total, terms: results };
+}
+
+/**
+ * 주사위 굴림 (유리/불리 판정은 전체 식을 두 번 굴려 높은/낮은 값을 채택)
+ */
+export function rollDice(
+  notation: string,
+  rng: SeededRng,
+  mode: DiceRollMode = 'normal'
+): DiceRollResult {
+  const terms = parseNotation(notation);
+  const first = rollOnce(terms, rng);
+
+  if (mode === 'normal') {
+    return { notation, mode, total: first.total, terms: first.terms };
+  }
+
+  const second = rollOnce(terms, rng);
+  const useFirst = mode === 'advantage' ? first.total >= second.total : first.total <= second.total;
+  const kept = useFirst ? first : second;
+  const discarded = useFirst ? second : first;
+  return {
+    notation,
+    mode,
+    total: kept.total,
+    terms: kept.terms,
+    discardedTotal: discarded.total,
+  };
+}
+
+/**
+ * 굴림 결과를 사람이 읽을 수 있는 문자열로 변환
+ * 예: "2d6+3 → 2d6[4, 2] +3 = 9"
+ */
+export function describeRoll(result: DiceRollResult): string {
+  const detail = result.terms
+    .map(term => (term.rolls.length > 0 ? `${term.label}[${term.rolls.join(', ')}]` : term.label))
+    .join(' ');
+  const modeText =
+    result.mode === 'normal' ? '' : ` (${result.mode}, other roll: ${result.discardedTotal})`;
+  return `${result.notation} → ${detail} = ${result.total}${modeText}`;
+}
@@ -0,0 +1,148 @@
+import type { EndCondition, EndConditionResult, GameState } from './types.js';
+import { getNestedValue, parsePath } from './fieldPath.js';
+import { formatClock, remainingSlots } from './clock.js';
+
+type Operator = '<=' | '>=' | '==' | '!=' | '<' | '>';
+
+interface ParsedCondition {
+  path: string;
+  operator: Operator;
+  value: unknown;
+}
+
+// 두 글자 연산자를 먼저 찾아야 "<="가 "<"로 잘리지 않음
+const CONDITION_PATTERN = /^(.+?)\s*(<=|>=|==|!=|<|>)\s*(.+)$/;
+
+/**
+ * 종료 조건 검증 (조건식 파싱, outcome 확인)
+ */
+export function normalizeEndConditions(conditions: EndCondition[]): EndCondition[] {
+  if (!Array.isArray(conditions)) {
+    throw new Error('endConditions must be an array of {condition, outcome, reason}');
+  }
+  return conditions.map((entry, index) => {
+    if (!entry || typeof entry.condition !== 'string' || !entry.condition.trim()) {
+      throw new Error(`End condition #${index}: condition is required`);
+    }
+    if (entry.outcome !== undefined && entry.outcome !== 'win' && entry.outcome !== 'loss') {
+      throw new Error(`End condition "${entry.condition}": outcome must be "win" or "loss"`);
+    }
+    parseCondition(entry.condition);
+
+    const condition: EndCondition = { condition: entry.condition.trim() };
+    if (entry.outcome) condition.outcome = entry.outcome;
+    if (entry.reason) condition.reason = entry.reason;
+    return condition;
+  });
+}
+
+/**
+ * 처음으로 충족된 종료 조건 (선언 순서, 없으면 undefined)
+ */
+export function evaluateEndConditions(state: GameState): EndConditionResult | undefined {
+  const conditions = state._endConditions ?? [];
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  const scope = withCalendar(state);
+  const met = conditions.find(entry => isConditionMet(scope, parseCondition(entry.condition)));
+  if (!met) {
+    return undefined;
+  }
+  const outcome = met.outcome ?? 'loss';
+  return {
+    condition: met.condition,
+    outcome,
+    reason:
+      met.reason ?? `${outcome === 'win' ? 'Victory' : 'Defeat'}: ${met.condition} was reached`,
+  };
+}
+
+/**
+ * 조건식을 경로, 연산자, 값으로 분리
+ * 값은 JSON(숫자, true/false/null, "문자열")으로 읽고, 아니면 그대로 문자열로 취급
+ */
+function parseCondition(text: string): ParsedCondition {
+  const match = CONDITION_PATTERN.exec(text.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid end condition "${text}". Use "<path> <operator> <value>", e.g. "characters[0].hp <= 0"`
+    );
+  }
+  const [, path, operator, raw] = match;
+  try {
+    parsePath(path);
+  } catch (error) {
+    throw new Error(`Invalid end condition "${text}": ${(error as Error).message}`);
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = raw.replace(/^'(.*)'$/, '$1');
+  }
+  if (operator !== '==' && operator !== '!=' && typeof value !== 'number') {
+    throw new Error(`Invalid end condition "${text}": ${operator} needs a number to compare with`);
+  }
+  return { path: path.trim(), operator: operator as Operator, value };
+}
+
+/**
+ * 선택자([*], [name=...])가 여러 값을 가리키면 모든 값이 만족해야 충족
+ * 예: "characters[*].hp <= 0"은 파티 전멸
+ */
+function isConditionMet(scope: Record<string, unknown>, condition: ParsedCondition): boolean {
+  const value = getNestedValue(scope, condition.path);
+  const hasSelector = parsePath(condition.path).some(segment => segment.type !== 'key');
+  if (hasSelector && Array.isArray(value)) {
+    return value.length > 0 && value.every(entry => compare(entry, condition));
+  }
+  return compare(value, condition);
+}
+
+function compare(actual: unknown, { operator, value }: ParsedCondition): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+  if (operator === '==') {
+    return actual === value;
+  }
+  if (operator === '!=') {
+    return actual !== value;
+  }
+  if (typeof actual !== 'number') {
+    return false;
+  }
+  const expected = value as number;
+  switch (operator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+  }
+}
+
+/**
+ * 달력이 있으면 조건에서 쓸 수 있는 calendar 값 추가 (상태에 calendar 필드가 없을 때만)
+ * - calendar.day, calendar.slot (시간대 이름), calendar.time, calendar.remaining (마감까지 남은 시간대)
+ */
+function withCalendar(state: GameState): Record<string, unknown> {
+  const clock = state._clock;
+  if (!clock || state.calendar !== undefined) {
+    return state;
+  }
+  return {
+    ...state,
+    calendar: {
+      day: clock.day,
+      slot: clock.slots[clock.slot],
+      time: formatClock(clock),
+      remaining: remainingSlots(clock),
+    },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * 필드 경로 세그먼트
+ * - key: 객체 키 또는 배열 인덱스 ("characters", "0")
+ * - match: 속성 값으로 배열 항목 선택 ("[name=Sakura]")
+ * - wildcard: 배열의 모든 항목 선택 ("[*]")
+ */
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'match'; property: string; value: string }
+  | { type: 'wildcard' };
+
+// 프로토타입 오염을 막기 위해 경로에 쓸 수 없는 키
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * 대괄호 내용을 세그먼트로 변환
+ */
+function parseBracket(content: string): PathSegment {
+  const trimmed = content.trim();
+  if (trimmed === '*') {
+    return { type: 'wildcard' };
+  }
+  const eqIndex = trimmed.indexOf('=');
+  if (eqIndex > 0) {
+    const property = trimmed.slice(0, eqIndex).trim();
+    // 따옴표로 감싼 값 허용: [name="Sakura Kim"]
+    const value = trimmed
+      .slice(eqIndex + 1)
+      .trim()
+      .replace(/^(['"])(.*)\1$/, '$2');
+    return { type: 'match', property, value };
+  }
+  return { type: 'key', key: trimmed };
+}
+
+/**
+ * 경로를 파싱하여 세그먼트 배열로 변환
+ * 예: "characters[name=Sakura].hp" -> [key characters, match name=Sakura, key hp]
+ */
+export function parsePath(path: string): PathSegment[] {
+  const result: PathSegment[] = [];
+  let current = '';
+  let inBrackets = false;
+
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+
+    if (char === '[' && !inBrackets) {
+      if (current) {
+        result.push({ type: 'key', key: current });
+        current = '';
+      }
+      inBrackets = true;
+    } else if (char === ']' && inBrackets) {
+      if (current) {
+        result.push(parseBracket(current));
+        current = '';
+      }
+      inBrackets = false;
+    } else if (char === '.' && !inBrackets) {
+      if (current) {
+        result.push({ type: 'key', key: current });
+        current = '';
+      }
+    } else {
+      current += char;
+    }
+  }
+
+  if (inBrackets) {
+    throw new Error(`Invalid field selector "${path}": missing closing bracket`);
+  }
+  if (current) {
+    result.push({ type: 'key', key: current });
+  }
+
+  for (const segment of result) {
+    const key =
+      segment.type === 'key' ? segment.key : segment.type === 'match' ? segment.property : '';
+    if (FORBIDDEN_KEYS.has(key)) {
+      throw new Error(`Invalid field selector "${path}": "${key}" cannot be used in a path`);
+    }
+  }
+  return result;
+}
+
+/**
+ * 구체적인 키 배열을 경로 문자열로 변환
+ * 예: ["characters", "1", "hp"] -> "characters[1].hp"
+ */
+export function formatPath(keys: string[]): string {
+  return keys.reduce(
+    (acc, key) => (/^\d+$/.test(key) ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+    ''
+  );
+}
+
+/**
+ * 선택자(match/wildcard)를 실제 항목으로 펼쳐 구체적인 키 경로 목록을 반환
+ * 선택자가 아무 항목과도 일치하지 않으면 새 항목을 만들지 않고 에러를 던진다.
+ */
+export function resolveFieldPaths(obj: Record<string, unknown>, path: string): string[][] {
+  let paths: string[][] = [[]];
+
+  for (const segment of parsePath(path)) {
+    if (segment.type === 'key') {
+      paths = paths.map(keys => [...keys, segment.key]);
+      continue;
+    }
+
+    const expanded: string[][] = [];
+    for (const keys of paths) {
+      const target = getAtKeys(obj, keys);
+      const label = formatPath(keys) || '(root)';
+      if (!Array.isArray(target)) {
+        throw new Error(`Selector on ${label} requires an array, but found ${typeof target}`);
+      }
+      target.forEach((item, index) => {
+        if (
+          segment.type === 'wildcard' ||
+          (item &&
+            typeof item === 'object' &&
+            String((item as Record<string, unknown>)[segment.property]) === segment.value)
+        ) {
+          expanded.push([...keys, String(index)]);
+        }
+      });
+    }
+
+    if (expanded.length === 0) {
+      const selector =
+        segment.type === 'wildcard' ? '[*]' : `[${segment.property}=${segment.value}]`;
+      throw new Error(`Field selector "${path}" matched nothing: no items for ${selector}`);
+    }
+    paths = expanded;
+  }
+
+  return paths;
+}
+
+function getAtKeys(obj: Record<string, unknown>, keys: string[]): unknown {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let current: any = obj;
+  for (const key of keys) {
+    if (current && typeof current === 'object' && key in current) {
+      current = current[key];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function setAtKeys(obj: Record<string, unknown>, keys: string[], value: unknown): void {
+  let current = obj;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const key = keys[i];
+
+    if (!(key in current)) {
+      // 다음 키가 숫자인지 확인하여 배열 또는 객체 생성
+      const nextKey = keys[i + 1];
+      current[key] = /^\d+$/.test(nextKey) ? [] : {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * 중첩된 객체에서 값 가져오기
+ * 선택자가 여러 항목과 일치하면 값 배열을, 일치하는 항목이 없으면 undefined를 반환
+ */
+export function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
+  const segments = parsePath(path);
+  if (segments.every(segment => segment.type === 'key')) {
+    return getAtKeys(
+      obj,
+      segments.map(segment => (segment as { key: string }).key)
+    );
+  }
+
+  let paths: string[][];
+  try {
+    paths = resolveFieldPaths(obj, path);
+  } catch {
+    return undefined;
+  }
+  const values = paths.map(keys => getAtKeys(obj, keys));
+  const hasWildcard = segments.some(segment => segment.type === 'wildcard');
+  return values.length === 1 && !hasWildcard ? values[0] : values;
+}
+
+/**
+ * 중첩된 객체의 값을 설정 (선택자와 일치하는 모든 항목에 설정)
+ */
+export function setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): void {
+  for (const keys of resolveFieldPaths(obj, path)) {
+    setAtKeys(obj, keys, value);
+  }
+}
+
+/**
+ * 중첩된 객체의 필드를 삭제 (배열 항목은 제거 후 뒤 항목을 당김)
+ */
+export function deleteNestedValue(obj: Record<string, unknown>, path: string): void {
+  // 배열 항목 삭제 시 인덱스가 밀리지 않도록 뒤에서부터 삭제
+  const targets = resolveFieldPaths(obj, path).reverse();
+  for (const keys of targets) {
+    const parent = getAtKeys(obj, keys.slice(0, -1));
+    const lastKey = keys[keys.length - 1];
+
+    if (Array.isArray(parent)) {
+      parent.splice(Number(lastKey), 1);
+    } else if (parent && typeof parent === 'object') {
+      delete (parent as Record<string, unknown>)[lastKey];
+    }
+  }
+}
@@ -1,30 +1,175 @@
 import { randomUUID } from 'crypto';
-import type { Game, GameResponse, GameState, DeltaInfo } from './types.js';
+import type {
+  Game,
+  GameResponse,
+  GameState,
+  DeltaInfo,
+  GameStore,
+  SaveSlot,
+  GameHistoryEntry,
+  TimelineNode,
+  CreateGameOptions,
+  FieldUpdate,
+  UpdateOperation,
+  DiceRollMode,
+  DiceRollRecord,
+  ActionOption,
+  SkillCheckResult,
+  CombatActionRequest,
+  CombatResponse,
+  Encounter,
+  EncounterStatus,
+  EnemyStatBlock,
+  InventoryChange,
+  InventoryItem,
+  InventoryResponse,
+  ItemDefinition,
+  SelectActionResponse,
+  StatChange,
+  StatusEffectResponse,
+  ActiveEffect,
+  Quest,
+  QuestObjectiveInput,
+  QuestResponse,
+  RelationshipEvent,
+  RelationshipResponse,
+  RelationshipTier,
+  CalendarConfig,
+  ClockAdvance,
+  ClockResponse,
+  GameClock,
+  EndConditionResult,
+  GameStatus,
+  ConnectionResponse,
+  LocationConnection,
+  LocationResponse,
+  TravelResponse,
+  Locale,
+} from './types.js';
+import { cloneState } from './serialization.js';
+import { isServerManagedKey, resolveStateSchema, validateState } from './stateSchema.js';
+import { applyOperation, findRemovalIndex } from './updateOperators.js';
+import {
+  deleteNestedValue,
+  formatPath,
+  getNestedValue,
+  resolveFieldPaths,
+  setNestedValue,
+} from './fieldPath.js';
+import { SeededRng, generateSeed, rollDice } from './dice.js';
+import {
+  evaluateSkillCheck,
+  getCheckStatValue,
+  normalizeActionOptions,
+  validateSkillCheck,
+} from './skillCheck.js';
+import { normalizeEnemies, performCombatAction, startCombat } from './combat.js';
+import type { DiceRoller } from './dice.js';
+import {
+  addInventoryItem,
+  describeInventoryChange,
+  equipInventoryItem,
+  removeInventoryItem,
+  transferInventoryItem,
+  PARTY_INVENTORY,
+} from './inventory.js';
+import {
+  applyItemEffect,
+  describeStatChange,
+  findItemDefinition,
+  normalizeItemDefinitions,
+} from './itemEffects.js';
+import { addStatusEffect, removeStatusEffect, tickStatusEffects } from './statusEffects.js';
+import { addQuest, completeQuest, failQuest, updateObjective } from './quests.js';
+import type { ObjectiveUpdate } from './quests.js';
+import {
+  adjustRelationship,
+  describeRelationshipEvent,
+  normalizeRelationshipTiers,
+  setRelationshipTiers,
+} from './relationships.js';
+import { advanceClock, countSlots, createClock, syncWorldTime } from './clock.js';
+import { connectLocations, defineLocation, travel } from './locations.js';
+import { evaluateEndConditions, normalizeEndConditions } from './endConditions.js';
+import type { MessageKey } from './i18n.js';
+import { getFriendlyFieldName, getLocale, normalizeLocale, translate } from './i18n.js';
+import { GameEndedError, isGameEnded } from './gameStatus.js';
+import { MemoryGameStore } from './storage/memoryGameStore.js';
+
+const MAX_SAVE_LABEL_LENGTH = 60;
+export const MAX_CUSTOM_ACTION_LENGTH = 200;
+const MAX_HISTORY_ENTRIES = 10;
+const MAX_DICE_ROLL_RECORDS = 50;
 
 /**
  * 게임 관리자 클래스
  * 게임 생성, 업데이트, 조회를 담당
+ * 모든 변경 사항은 GameStore에 write-through 된다.
  */
 export class GameManager {
   private games: Map<string, Game> = new Map();
 
+  constructor(private readonly store: GameStore = new MemoryGameStore()) {
+    for (const game of store.loadAll()) {
+      this.games.set(game.gameId, game);
+    }
+    if (this.games.size > 0) {
+      console.error(`Loaded ${this.games.size} game(s) from storage`);
+    }
+  }
+
   /**
    * 새 게임 생성
    */
-  createGame(initialStateInput: GameState | string): GameResponse {
+  createGame(initialStateInput: GameState | string, options: CreateGameOptions = {}): GameResponse {
     let initialState: GameState;
     if (typeof initialStateInput === 'string') {
       try {
         initialState = JSON.parse(initialStateInput);
       } catch (e) {
         console.error('Failed to parse initialState:', e);
-        // Fallback or rethrow? For now let's ensure it's an object if possible, 
-        // or throw to fail fast. 
+        // Fallback or rethrow? For now let's ensure it's an object if possible,
+        // or throw to fail fast.
         throw new Error('Invalid JSON string for initialState');
       }
     } else {
       initialState = initialStateInput;
     }
+
+    const stateSchema = resolveStateSchema(options.stateSchema);
+    if (stateSchema) {
+      validateState(stateSchema, initialState);
+    }
+
+    if (options.seed !== undefined && !Number.isInteger(options.seed)) {
+      throw new Error('seed must be an integer');
+    }
+    const rngSeed = options.seed !== undefined ? options.seed >>> 0 : generateSeed();
+    initialState._rngState = rngSeed;
+    if (options.itemCatalog) {
+      initialState._itemCatalog = normalizeItemDefinitions(options.itemCatalog);
+    }
+    if (options.relationshipTiers) {
+      initialState._relationshipTiers = normalizeRelationshipTiers(options.relationshipTiers);
+    }
+    if (options.calendar) {
+      initialState._clock = createClock(options.calendar);
+      syncWorldTime(initialState);
+    }
+    if (options.endConditions) {
+      initialState._endConditions = normalizeEndConditions(options.endConditions);
+      const met = evaluateEndConditions(initialState);
+      if (met) {
+        throw new Error(`End condition "${met.condition}" is already met by the initial state`);
+      }
+    }
+    if (options.theme) {
+      initialState._theme = options.theme;
+    }
+    if (options.locale !== undefined) {
+      initialState._locale = normalizeLocale(options.locale);
+    }
+
     const gameId = randomUUID();
     const now = new Date();
 
@@ -33,9 +178,13 @@ export class GameManager {
       state: initialState,
       createdAt: now,
       updatedAt: now,
+      stateSchema,
+      rngSeed,
+      status: 'active',
     };
 
     this.games.set(gameId, game);
+    this.persist(game);
 
     console.error(`Game created with ID: ${gameId}`);
     return {
@@ -47,29 +196,87 @@ export class GameManager {
   /**
    * 게임 상태 업데이트
    */
-  updateGame(gameId: string, fieldSelector: string, value: unknown): GameResponse {
-    const game = this.games.get(gameId);
-    if (!game) {
-      throw new Error(`Game with id ${gameId} not found`);
+  updateGame(
+    gameId: string,
+    fieldSelector: string,
+    value: unknown,
+    operation: UpdateOperation = 'set'
+  ): GameResponse {
+    return this.applyUpdates(gameId, [{ fieldSelector, operation, value }]);
+  }
+
+  /**
+   * 여러 필드 변경을 원자적으로 적용 (하나라도 실패하면 아무것도 반영하지 않음)
+   */
+  applyUpdates(gameId: string, updates: FieldUpdate[]): GameResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    if (updates.length === 0) {
+      throw new Error('updates array cannot be empty');
     }
 
-    // 게임 상태의 깊은 복사본 생성
-    const newState: GameState = JSON.parse(JSON.stringify(game.state));
+    // 게임 상태의 깊은 복사본에 모든 변경을 적용
+    const newState: GameState = cloneState(game.state);
+
+    updates.forEach((update, index) => {
+      const operation = update?.operation ?? 'set';
+      if (
+        !update ||
+        typeof update.fieldSelector !== 'string' ||
+        (update.value === undefined && operation !== 'delete')
+      ) {
+        throw new Error(`Update #${index}: fieldSelector and value are required`);
+      }
+
+      // 경로에서 'game.' 접두사 제거 (호환성)
+      const cleanPath = update.fieldSelector.replace(/^game\./, '');
+
+      // 선택자([name=Sakura], [*])를 실제 필드 경로로 펼침
+      // 배열 항목 삭제 시 인덱스가 밀리지 않도록 뒤에서부터 처리
+      const keyPaths = resolveFieldPaths(newState, cleanPath);
+      // 프롬프트, 전투, 시계 등 서버가 관리하는 필드는 전용 도구로만 변경
+      const managed = keyPaths.find(keys => keys.length > 0 && isServerManagedKey(keys[0]));
+      if (managed) {
+        throw new Error(
+          `Update #${index}: ${managed[0]} is managed by the server and cannot be changed with updateGame`
+        );
+      }
+      const fieldPaths = keyPaths.map(formatPath);
+      if (operation === 'delete') {
+        fieldPaths.reverse();
+      }
+
+      for (const fieldPath of fieldPaths) {
+        // 현재 값에 연산을 적용하여 새 값 계산
+        const currentValue = getNestedValue(newState, fieldPath);
+        const nextValue = applyOperation(fieldPath, currentValue, operation, update.value);
 
-    // 경로에서 'game.' 접두사 제거 (호환성)
-    const cleanPath = fieldSelector.replace(/^game\./, '');
+        // Delta 정보 추가/업데이트
+        this.addOrUpdateDelta(newState, fieldPath, nextValue, operation, update.value);
 
-    // Delta 정보 추가/업데이트
-    this.addOrUpdateDelta(newState, cleanPath, value);
+        // 중첩된 값 설정 (delete는 필드 제거)
+        if (operation === 'delete') {
+          deleteNestedValue(newState, fieldPath);
+        } else {
+          setNestedValue(newState, fieldPath, nextValue);
+        }
+      }
+    });
 
-    // 중첩된 값 설정
-    this.setNestedValue(newState, cleanPath, value);
+    // 스키마가 지정된 게임은 위반 시 변경을 반영하지 않음
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
 
     // 게임 업데이트
     game.state = newState;
     game.updatedAt = new Date();
+    this.persist(game);
 
-    console.error(`Game ${gameId} updated: ${fieldSelector} = ${JSON.stringify(value)}`);
+    updates.forEach(update =>
+      console.error(
+        `Game ${gameId} updated: ${update.fieldSelector} ${update.operation ?? 'set'} ${JSON.stringify(update.value)}`
+      )
+    );
     return {
       game,
       nextActions: ['progressStory'],
@@ -90,32 +297,103 @@ export class GameManager {
     };
   }
 
-  selectAction(gameId: string, selectedOption: string, selectedIndex: number): GameResponse {
-    const game = this.games.get(gameId);
-    if (!game) {
-      throw new Error(`Game with id ${gameId} not found`);
-    }
+  /**
+   * 게임 종료 기록 - 이후 플레이 도구 호출은 거부됨
+   */
+  endGame(gameId: string, status: Exclude<GameStatus, 'active'>, reason: string): Game {
+    const game = this.getActiveGameOrThrow(gameId);
+    game.status = status;
+    game.endReason = reason;
+    game.endedAt = new Date();
+    game.updatedAt = game.endedAt;
+    this.persist(game);
+
+    console.error(`Game ${gameId} ended (${status}): ${reason}`);
+    return game;
+  }
+
+  /**
+   * 종료 조건 검사 - 충족된 조건이 없으면 undefined
+   */
+  checkEndConditions(gameId: string): EndConditionResult | undefined {
+    return evaluateEndConditions(this.getGameOrThrow(gameId).state);
+  }
+
+  /**
+   * 액션 선택 - custom이면 selectedOption은 플레이어가 직접 입력한 행동 (index는 -1로 기록)
+   */
+  selectAction(
+    gameId: string,
+    selectedOption: string,
+    selectedIndex: number,
+    promptId: string,
+    custom = false
+  ): SelectActionResponse {
+    const game = this.getActiveGameOrThrow(gameId);
 
     // 현재 진행 중인 상황과 선택지를 히스토리에서 확인
     if (!game.state.lastStoryProgress) {
       throw new Error(`No current situation available for selection`);
     }
+    this.validatePrompt(game.state, promptId);
+    if (custom) {
+      if (game.state._allowCustomAction === false) {
+        throw new Error('This prompt only accepts the presented options');
+      }
+      selectedOption = this.normalizeCustomAction(selectedOption);
+      selectedIndex = -1;
+    } else {
+      this.validatePresetSelection(game.state, selectedOption, selectedIndex);
+    }
+
+    // 모든 변경은 복사본에 적용하고, 중간에 실패하면 스냅샷과 상태를 그대로 둠
+    const newState: GameState = cloneState(game.state);
+
+    // 선택지에 판정이 있으면 서버에서 주사위로 결과 확정 (직접 입력한 행동은 판정 없음)
+    const check = custom
+      ? undefined
+      : this.resolveSkillCheck(game, newState, selectedOption, selectedIndex);
 
     // 게임 히스토리에 상황-액션 쌍 추가
-    this.addToGameHistory(game, selectedOption, selectedIndex);
+    this.addToGameHistory(newState, selectedOption, selectedIndex, check, custom);
+
+    // 답한 프롬프트는 닫아서 중복 선택을 막음
+    newState._promptAnswered = true;
 
     // 선택된 액션을 게임 상태에 반영
-    game.state.selectedAction = {
+    newState.selectedAction = {
       option: selectedOption,
       index: selectedIndex,
+      ...(custom ? { custom: true } : {}),
+      check,
       timestamp: new Date(),
     };
 
+    // 한 턴이 지났으므로 상태 효과를 진행 (결과는 다음 선택지 화면에 표시)
+    const statusChanges = tickStatusEffects(newState);
+    this.addStatDeltas(newState, statusChanges);
+
+    // 달력이 있으면 선택지의 소요 시간만큼 시계를 진행
+    let time: ClockAdvance | undefined;
+    if (newState._clock) {
+      const cost =
+        (custom ? undefined : newState._currentTimeCosts?.[selectedIndex]) ??
+        newState._clock.defaultActionCost;
+      time = advanceClock(newState, cost);
+      this.addStatDeltas(newState, time.changes);
+    }
+
+    // 선택 직전 상태를 턴 스냅샷으로 보관 (undo/rewind용) - 모든 단계가 성공한 뒤에만
+    this.addTurnSnapshot(game);
+    game.state = newState;
     game.updatedAt = new Date();
+    this.persist(game);
 
     return {
       game,
       nextActions: ['updateGame'], // 다음 업데이트로 체인 연결
+      statusChanges,
+      time,
     };
   }
 
@@ -123,10 +401,7 @@ export class GameManager {
    * 스토리 진행
    */
   progressStory(gameId: string, progress: string): GameResponse {
-    const game = this.games.get(gameId);
-    if (!game) {
-      throw new Error(`Game with id ${gameId} not found`);
-    }
+    const game = this.getActiveGameOrThrow(gameId);
     // progress 파라미터를 활용해 스토리 진행 상황을 기록하거나 반영할 수 있음
     if (!game.state.story) {
       game.state.story = { progress };
@@ -135,6 +410,7 @@ export class GameManager {
     }
     game.state.lastStoryProgress = progress;
     game.updatedAt = new Date();
+    this.persist(game);
     console.error(`Game ${gameId} story progressed: ${progress}`);
     return {
       game,
@@ -145,20 +421,37 @@ export class GameManager {
   /**
    * 사용자 액션 프롬프트
    */
-  promptUserActions(gameId: string, options: string[]): GameResponse {
-    const game = this.games.get(gameId);
-    if (!game) {
-      throw new Error(`Game with id ${gameId} not found`);
+  promptUserActions(
+    gameId: string,
+    options: (string | ActionOption)[],
+    allowCustom = true
+  ): GameResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    // 구조화된 선택지는 텍스트, 판정, 소요 시간으로 분리
+    const { texts, checks, times } = normalizeActionOptions(options);
+    checks.forEach((check, index) => check && validateSkillCheck(game.state, check, index));
+    if (!game.state._clock && times.some(time => time !== null)) {
+      throw new Error(
+        'Options have a time cost but this game has no calendar. Call setCalendar first'
+      );
     }
+
     // options 파라미터를 활용해 유저에게 선택지를 제시
     // 게임 상태와 분리된 메타데이터로 저장하는 것이 더 안전할 수 있음
-    game.state._currentOptions = options;
+    game.state._currentOptions = texts;
+    game.state._currentChecks = checks;
+    game.state._currentTimeCosts = times;
+    // 새 프롬프트 ID - 이전 프롬프트에 대한 선택은 거부됨
+    game.state._promptId = randomUUID();
+    delete game.state._promptAnswered;
+    game.state._allowCustomAction = allowCustom;
 
     // 현재 시간을 lastPromptTime으로 설정
     game.state._lastPromptTime = new Date();
 
     game.updatedAt = new Date();
-    console.error(`Game ${gameId} prompting user actions: ${JSON.stringify(options)}`);
+    this.persist(game);
+    console.error(`Game ${gameId} prompting user actions: ${JSON.stringify(texts)}`);
     return {
       game,
       nextActions: [],
@@ -166,92 +459,1166 @@ export class GameManager {
   }
 
   /**
-   * 중첩된 객체의 값을 설정하는 헬퍼 메서드
+   * 현재 상태를 이름 붙은 슬롯에 저장 (같은 이름이 있으면 덮어씀)
    */
-  private setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): void {
-    const keys = this.parsePath(path);
-    let current = obj;
+  saveGame(gameId: string, label: string): { game: Game; slot: SaveSlot; overwritten: boolean } {
+    const game = this.getGameOrThrow(gameId);
+    const cleanLabel = this.normalizeSaveLabel(label);
+
+    const slot: SaveSlot = {
+      label: cleanLabel,
+      state: cloneState(game.state),
+      createdAt: new Date(),
+    };
 
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i];
+    const saves = game.saves ?? [];
+    const existingIndex = saves.findIndex(s => s.label === cleanLabel);
+    if (existingIndex !== -1) {
+      saves[existingIndex] = slot;
+    } else {
+      saves.push(slot);
+    }
+    game.saves = saves;
+    this.persist(game);
+
+    console.error(`Game ${gameId} saved to slot "${cleanLabel}"`);
+    return { game, slot, overwritten: existingIndex !== -1 };
+  }
+
+  /**
+   * 저장 슬롯 목록 조회 (오래된 순)
+   */
+  listSaves(gameId: string): SaveSlot[] {
+    const game = this.getGameOrThrow(gameId);
+    return [...(game.saves ?? [])];
+  }
 
-      if (!(key in current)) {
-        // 다음 키가 숫자인지 확인하여 배열 또는 객체 생성
-        const nextKey = keys[i + 1];
-        current[key] = /^\d+$/.test(nextKey) ? [] : {};
+  /**
+   * 저장 슬롯의 상태로 게임 복원
+   */
+  loadSave(gameId: string, label: string): GameResponse {
+    const game = this.getGameOrThrow(gameId);
+    const slot = this.findSave(game, label);
+
+    game.state = cloneState(slot.state);
+    // 저장 이후의 턴 스냅샷은 복원된 상태와 다른 흐름이므로 폐기
+    game.turnSnapshots = [];
+    this.reopen(game);
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} loaded from slot "${slot.label}"`);
+    return {
+      game,
+      nextActions: game.state._currentOptions ? ['selectAction'] : ['progressStory'],
+    };
+  }
+
+  /**
+   * 저장 슬롯 삭제
+   */
+  deleteSave(gameId: string, label: string): GameResponse {
+    const game = this.getGameOrThrow(gameId);
+    const slot = this.findSave(game, label);
+
+    game.saves = (game.saves ?? []).filter(s => s !== slot);
+    this.persist(game);
+
+    console.error(`Game ${gameId} save slot "${slot.label}" deleted`);
+    return {
+      game,
+      nextActions: [],
+    };
+  }
+
+  /**
+   * 마지막 턴의 선택을 취소하고 선택 직전 상태로 되돌림
+   */
+  undoLastTurn(gameId: string): GameResponse {
+    const game = this.getGameOrThrow(gameId);
+    const snapshots = game.turnSnapshots ?? [];
+    if (snapshots.length === 0) {
+      throw new Error('No previous turn to undo');
+    }
+    return this.rewindToTurn(gameId, snapshots[snapshots.length - 1].turn);
+  }
+
+  /**
+   * 지정한 턴의 선택 직전 상태로 되돌림 (이후 턴은 모두 폐기)
+   */
+  rewindToTurn(gameId: string, turnIndex: number): GameResponse {
+    const game = this.getGameOrThrow(gameId);
+    const snapshots = game.turnSnapshots ?? [];
+    const snapshot = snapshots.find(s => s.turn === turnIndex);
+    if (!snapshot) {
+      const available = snapshots.map(s => s.turn).join(', ') || 'none';
+      throw new Error(`Turn ${turnIndex} cannot be restored. Available turns: ${available}`);
+    }
+
+    game.state = cloneState(snapshot.state);
+    game.turnSnapshots = snapshots.filter(s => s.turn < turnIndex);
+    this.reopen(game);
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} rewound to turn ${turnIndex}`);
+    return {
+      game,
+      nextActions: ['selectAction'],
+    };
+  }
+
+  /**
+   * 게임을 분기하여 새로운 타임라인 생성
+   * turnIndex가 주어지면 해당 턴의 선택 직전 상태에서, 없으면 현재 상태에서 분기
+   */
+  forkGame(gameId: string, turnIndex?: number): GameResponse {
+    const source = this.getGameOrThrow(gameId);
+    const snapshots = source.turnSnapshots ?? [];
+
+    let forkState: GameState;
+    let forkedAtTurn: number;
+    if (turnIndex === undefined) {
+      forkState = source.state;
+      forkedAtTurn = source.state._turnCount ?? 0;
+    } else {
+      const snapshot = snapshots.find(s => s.turn === turnIndex);
+      if (!snapshot) {
+        const available = snapshots.map(s => s.turn).join(', ') || 'none';
+        throw new Error(`Cannot fork at turn ${turnIndex}. Available turns: ${available}`);
       }
-      current = current[key] as Record<string, unknown>;
+      forkState = snapshot.state;
+      forkedAtTurn = turnIndex;
     }
 
-    current[keys[keys.length - 1]] = value;
+    const now = new Date();
+    const fork: Game = {
+      gameId: randomUUID(),
+      state: cloneState(forkState),
+      createdAt: now,
+      updatedAt: now,
+      stateSchema: source.stateSchema,
+      rngSeed: source.rngSeed,
+      // 분기 이전 턴은 새 타임라인에서도 되돌릴 수 있도록 복사
+      turnSnapshots: snapshots
+        .filter(s => s.turn < forkedAtTurn)
+        .map(s => ({ ...s, state: cloneState(s.state) })),
+      parentGameId: source.gameId,
+      forkedAtTurn,
+      status: 'active',
+    };
+
+    this.games.set(fork.gameId, fork);
+    this.persist(fork);
+
+    console.error(`Game ${gameId} forked at turn ${forkedAtTurn} as ${fork.gameId}`);
+    return {
+      game: fork,
+      nextActions: fork.state._currentOptions ? ['selectAction'] : ['progressStory'],
+    };
   }
 
   /**
-   * 경로를 파싱하여 키 배열로 변환
-   * 예: "characters[0].name" -> ["characters", "0", "name"]
+   * 게임이 속한 분기 트리 전체를 루트부터 조회
    */
-  private parsePath(path: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inBrackets = false;
+  listTimelines(gameId: string): TimelineNode {
+    let root = this.getGameOrThrow(gameId);
+    const visited = new Set<string>([root.gameId]);
+    while (root.parentGameId && !visited.has(root.parentGameId)) {
+      const parent = this.games.get(root.parentGameId);
+      if (!parent) {
+        break; // 원본이 삭제된 경우 현재 게임을 루트로 취급
+      }
+      visited.add(parent.gameId);
+      root = parent;
+    }
 
-    for (let i = 0; i < path.length; i++) {
-      const char = path[i];
+    const buildNode = (game: Game): TimelineNode => ({
+      game,
+      children: Array.from(this.games.values())
+        .filter(child => child.parentGameId === game.gameId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map(buildNode),
+    });
 
-      if (char === '[') {
-        if (current) {
-          result.push(current);
-          current = '';
-        }
-        inBrackets = true;
-      } else if (char === ']') {
-        if (current) {
-          result.push(current);
-          current = '';
-        }
-        inBrackets = false;
-      } else if (char === '.' && !inBrackets) {
-        if (current) {
-          result.push(current);
-          current = '';
+    return buildNode(root);
+  }
+
+  /**
+   * 게임의 시드 기반 난수로 주사위를 굴리고 기록
+   */
+  rollDice(
+    gameId: string,
+    notation: string,
+    mode: DiceRollMode = 'normal',
+    reason?: string
+  ): { game: Game; roll: DiceRollRecord } {
+    const game = this.getActiveGameOrThrow(gameId);
+    const roll = this.recordDiceRoll(game, notation, mode, reason);
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} rolled ${notation} (${mode}): ${roll.total}`);
+    return { game, roll };
+  }
+
+  /**
+   * 전투 시작 - 적 능력치를 받아 우선권을 굴리고 파티 차례까지 진행
+   */
+  startEncounter(gameId: string, enemies: EnemyStatBlock[], party?: string[]): CombatResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    if (game.state._encounter) {
+      throw new Error('An encounter is already in progress. Call endEncounter first');
+    }
+    const combatants = normalizeEnemies(enemies);
+
+    // 전투 결과는 복사본에 적용하여 실패 시 아무것도 반영하지 않음
+    const newState: GameState = cloneState(game.state);
+    const { encounter, log } = startCombat(
+      newState,
+      combatants,
+      party,
+      this.createRoller(game, newState)
+    );
+    newState._encounter = encounter;
+    this.addCombatDeltas(game.state, newState, encounter);
+    this.commitCombatState(game, newState);
+
+    console.error(`Game ${gameId} encounter started: ${combatants.map(e => e.name).join(', ')}`);
+    return { game, encounter, log };
+  }
+
+  /**
+   * 현재 차례의 파티원 행동을 처리하고 다음 파티원 차례까지 적의 행동을 진행
+   */
+  combatAction(gameId: string, request: CombatActionRequest): CombatResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    if (!game.state._encounter) {
+      throw new Error('No encounter in progress. Call startEncounter first');
+    }
+
+    const newState: GameState = cloneState(game.state);
+    const encounter = newState._encounter as Encounter;
+    const log = performCombatAction(
+      newState,
+      encounter,
+      request,
+      this.createRoller(game, newState)
+    );
+    this.addCombatDeltas(game.state, newState, encounter);
+    this.commitCombatState(game, newState);
+
+    console.error(`Game ${gameId} combat action: ${request.action} (${encounter.status})`);
+    return { game, encounter, log };
+  }
+
+  /**
+   * 전투 종료 - 결과를 요약하고 전투 상태를 제거
+   */
+  endEncounter(gameId: string): CombatResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const encounter = game.state._encounter;
+    if (!encounter) {
+      throw new Error('No encounter in progress');
+    }
+
+    const defeated = encounter.enemies.filter(enemy => enemy.hp <= 0).map(enemy => enemy.name);
+    const outcome = encounter.status === 'active' ? 'ended' : encounter.status;
+    // 도구 응답은 영어, delta는 게임의 로케일로 요약
+    const summarize = (locale: Locale) =>
+      translate(locale, defeated.length > 0 ? 'delta.combat.endedDefeated' : 'delta.combat.ended', {
+        rounds: encounter.round,
+        outcome: translate(locale, `delta.combat.outcome.${encounter.status}`),
+        names: defeated.join(', '),
+      });
+    const summary = summarize('en');
+
+    this.setEventDelta(
+      game.state,
+      '_encounter',
+      encounter.status,
+      undefined,
+      (_from, _to, locale) => `⚔️ ${summarize(locale)}`
+    );
+    delete game.state._encounter;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} encounter ended: ${outcome}`);
+    return { game, encounter, log: [summary] };
+  }
+
+  /**
+   * 인벤토리에 아이템 추가 (같은 아이템은 수량을 합침)
+   */
+  addItem(
+    gameId: string,
+    item: InventoryItem,
+    quantity?: number,
+    owner?: string
+  ): InventoryResponse {
+    return this.applyInventoryChange(gameId, state => ({
+      changes: addInventoryItem(state, owner, item, quantity),
+    }));
+  }
+
+  /**
+   * 인벤토리에서 아이템 제거
+   */
+  removeItem(gameId: string, key: string, quantity = 1, owner?: string): InventoryResponse {
+    return this.applyInventoryChange(gameId, state =>
+      removeInventoryItem(state, owner, key, quantity)
+    );
+  }
+
+  /**
+   * 아이템 사용 - 수량을 소모하고, 카탈로그에 효과가 정의된 아이템이면 대상 캐릭터에게 적용
+   */
+  useItem(
+    gameId: string,
+    key: string,
+    quantity = 1,
+    owner?: string,
+    target?: string
+  ): InventoryResponse {
+    return this.applyInventoryChange(gameId, (state, roll) => {
+      const { item, changes } = removeInventoryItem(state, owner, key, quantity, 'use');
+      const definition = findItemDefinition(state, item);
+      if (!definition?.effect) {
+        return { item, changes };
+      }
+
+      const characters = state.characters ?? [];
+      // 대상 생략 시 아이템 소유자, 캐릭터가 한 명뿐이면 그 캐릭터
+      const targetName =
+        target ??
+        (owner && owner !== PARTY_INVENTORY ? owner : undefined) ??
+        (characters.length === 1 ? characters[0].name : undefined);
+      if (!targetName) {
+        throw new Error(`Specify which character uses ${item.name} with the target parameter`);
+      }
+      const index = characters.findIndex(c => c.name.toLowerCase() === targetName.toLowerCase());
+      if (index < 0) {
+        throw new Error(`Character "${targetName}" not found`);
+      }
+      const effects = applyItemEffect(state, index, definition, roll, quantity);
+      return { item, changes, effects };
+    });
+  }
+
+  /**
+   * 캐릭터에 상태 효과 추가 (같은 이름이면 교체)
+   */
+  addStatusEffect(gameId: string, character: string, effect: ActiveEffect): StatusEffectResponse {
+    return this.applyStatusChange(gameId, state => addStatusEffect(state, character, effect));
+  }
+
+  /**
+   * 캐릭터의 상태 효과 제거
+   */
+  removeStatusEffect(gameId: string, character: string, name: string): StatusEffectResponse {
+    return this.applyStatusChange(gameId, state => removeStatusEffect(state, character, name));
+  }
+
+  /**
+   * 달력 설정 (기존 달력은 교체되며 현재 시각도 새 설정의 시작 시각이 됨)
+   */
+  setCalendar(gameId: string, config: CalendarConfig): GameResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const before = newState.world?.time;
+    newState._clock = createClock(config);
+    const after = syncWorldTime(newState);
+    this.setEventDelta(
+      newState,
+      'world.time',
+      before,
+      after,
+      (_from, _to, locale) => `${getFriendlyFieldName(locale, 'time')}: ${after}`
+    );
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    return {
+      game,
+      nextActions: ['progressStory'],
+    };
+  }
+
+  /**
+   * 시간 경과 (이야기 속 휴식, 이동 등) - 마감에 도달했는지 함께 반환
+   */
+  advanceTime(
+    gameId: string,
+    request: { slots?: number; days?: number; toSlot?: string }
+  ): ClockResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    if (!game.state._clock) {
+      throw new Error('This game has no calendar. Set one with setCalendar first');
+    }
+    const newState: GameState = cloneState(game.state);
+    const advance = advanceClock(newState, countSlots(newState._clock as GameClock, request));
+    this.addStatDeltas(newState, advance.changes);
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} time advanced to ${newState.world?.time}`);
+    return { game, ...advance };
+  }
+
+  /**
+   * 장소 추가/갱신 - here면 파티를 이 장소에 둠
+   */
+  defineLocation(
+    gameId: string,
+    input: { name: string; description?: string; tags?: string[] },
+    here = false
+  ): LocationResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const { location, created } = defineLocation(newState, input);
+    if (here) {
+      const before = newState.world?.location;
+      newState.world = { ...newState.world, location: location.name };
+      location.visited = true;
+      this.addStatDeltas(newState, [
+        {
+          field: 'world.location',
+          label: 'Location',
+          labelField: 'location',
+          initialValue: before,
+          finalValue: location.name,
+        },
+      ]);
+    }
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    return { game, location, created };
+  }
+
+  /**
+   * 두 장소를 길로 연결
+   */
+  connectLocations(gameId: string, input: LocationConnection): ConnectionResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const connection = connectLocations(newState, input);
+
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    return { game, connection };
+  }
+
+  /**
+   * 이웃한 장소로 이동 - 길의 자원/아이템 비용을 소모하고 달력이 있으면 시간을 진행
+   */
+  travelTo(gameId: string, destination: string): TravelResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    if (game.state._encounter) {
+      throw new Error('Cannot travel during combat. Flee or end the encounter first');
+    }
+    const newState: GameState = cloneState(game.state);
+    const result = travel(newState, destination);
+
+    for (const change of result.inventoryChanges) {
+      this.setEventDelta(
+        newState,
+        change.field,
+        change.initialValue,
+        change.finalValue,
+        (from, to, locale) => describeInventoryChange(change, from, to, locale)
+      );
+    }
+    this.addStatDeltas(newState, result.changes);
+    let time: ClockAdvance | undefined;
+    if (newState._clock && result.connection.time) {
+      time = advanceClock(newState, result.connection.time);
+      this.addStatDeltas(newState, time.changes);
+    }
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} traveled from ${result.from} to ${result.to.name}`);
+    return { game, ...result, time };
+  }
+
+  /**
+   * 캐릭터 사이의 호감도 변경 - mutual이면 반대 방향에도 같은 변화를 적용
+   */
+  adjustRelationship(
+    gameId: string,
+    from: string,
+    to: string,
+    change: { amount?: number; value?: number },
+    mutual = false
+  ): RelationshipResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const results = [adjustRelationship(newState, from, to, change)];
+    if (mutual) {
+      results.push(adjustRelationship(newState, to, from, change));
+    }
+
+    const changes = results.flatMap(result => result.changes);
+    const events = results.flatMap(result => result.events);
+    this.addStatDeltas(newState, changes);
+    for (const result of results) {
+      if (result.events.length > 0) {
+        this.addRelationshipEventDelta(newState, result.changes[0].field, result.events);
+      }
+    }
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    events.forEach(event => console.error(`Game ${gameId} ${describeRelationshipEvent(event)}`));
+    return {
+      game,
+      relationships: results.map(result => result.relationship),
+      changes,
+      events,
+    };
+  }
+
+  /**
+   * 관계 단계 교체 (기존 관계의 단계도 다시 계산)
+   */
+  defineRelationshipTiers(gameId: string, tiers: RelationshipTier[]): GameResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    setRelationshipTiers(newState, tiers);
+
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    return {
+      game,
+      nextActions: ['adjustRelationship'],
+    };
+  }
+
+  /**
+   * 퀘스트 추가
+   */
+  addQuest(
+    gameId: string,
+    quest: {
+      title: string;
+      id?: string;
+      description?: string;
+      objectives?: (string | QuestObjectiveInput)[];
+      reward?: string;
+    }
+  ): QuestResponse {
+    return this.applyQuestChange(gameId, state => addQuest(state, quest));
+  }
+
+  /**
+   * 퀘스트 목표 진행
+   */
+  updateObjective(
+    gameId: string,
+    quest: string,
+    objective: string,
+    update: ObjectiveUpdate
+  ): QuestResponse {
+    return this.applyQuestChange(gameId, state => updateObjective(state, quest, objective, update));
+  }
+
+  /**
+   * 퀘스트 완료
+   */
+  completeQuest(gameId: string, quest: string): QuestResponse {
+    return this.applyQuestChange(gameId, state => completeQuest(state, quest));
+  }
+
+  /**
+   * 퀘스트 실패
+   */
+  failQuest(gameId: string, quest: string, reason?: string): QuestResponse {
+    return this.applyQuestChange(gameId, state => failQuest(state, quest, reason));
+  }
+
+  /**
+   * 아이템 정의 추가 (같은 이름은 덮어씀) - 장비 보정치와 소모품 효과에 사용
+   */
+  defineItems(gameId: string, items: ItemDefinition[]): GameResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const definitions = normalizeItemDefinitions(items);
+    game.state._itemCatalog = { ...game.state._itemCatalog, ...definitions };
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    console.error(`Game ${gameId} defined items: ${items.map(item => item.name).join(', ')}`);
+    return {
+      game,
+      nextActions: ['addItem'],
+    };
+  }
+
+  /**
+   * 아이템 장착/해제
+   */
+  equipItem(
+    gameId: string,
+    key: string,
+    owner?: string,
+    slot?: string,
+    unequip = false
+  ): InventoryResponse {
+    return this.applyInventoryChange(gameId, state => ({
+      changes: equipInventoryItem(state, owner, key, slot, unequip),
+    }));
+  }
+
+  /**
+   * 소유자 사이에서 아이템 이동
+   */
+  transferItem(
+    gameId: string,
+    key: string,
+    from: string,
+    to: string,
+    quantity = 1
+  ): InventoryResponse {
+    return this.applyInventoryChange(gameId, state => ({
+      changes: transferInventoryItem(state, from, to, key, quantity),
+    }));
+  }
+
+  /**
+   * 인벤토리 변경을 복사본에 적용하고 delta를 남긴 뒤 반영 (실패 시 아무것도 반영하지 않음)
+   */
+  private applyInventoryChange(
+    gameId: string,
+    mutate: (
+      state: GameState,
+      roll: DiceRoller
+    ) => { changes: InventoryChange[]; item?: InventoryItem; effects?: StatChange[] }
+  ): InventoryResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const { changes, item, effects } = mutate(newState, this.createRoller(game, newState));
+
+    for (const change of changes) {
+      this.setEventDelta(
+        newState,
+        change.field,
+        change.initialValue,
+        change.finalValue,
+        (from, to, locale) => describeInventoryChange(change, from, to, locale)
+      );
+    }
+    this.addStatDeltas(newState, effects ?? []);
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    changes.forEach(change => console.error(`Game ${gameId} ${describeInventoryChange(change)}`));
+    return { game, changes, item, effects };
+  }
+
+  /**
+   * 상태 효과 변경을 복사본에 적용하고 검증 후 반영
+   */
+  private applyStatusChange(
+    gameId: string,
+    mutate: (state: GameState) => StatChange[]
+  ): StatusEffectResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const changes = mutate(newState);
+    this.addStatDeltas(newState, changes);
+
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    changes.forEach(change => console.error(`Game ${gameId} ${describeStatChange(change)}`));
+    return { game, changes };
+  }
+
+  /**
+   * 퀘스트 변경을 복사본에 적용하고 delta를 남긴 뒤 반영
+   */
+  private applyQuestChange(
+    gameId: string,
+    mutate: (state: GameState) => { quest: Quest; changes: StatChange[] }
+  ): QuestResponse {
+    const game = this.getActiveGameOrThrow(gameId);
+    const newState: GameState = cloneState(game.state);
+    const { quest, changes } = mutate(newState);
+    this.addStatDeltas(newState, changes);
+
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+
+    changes.forEach(change => console.error(`Game ${gameId} ${describeStatChange(change)}`));
+    return { game, quest, changes };
+  }
+
+  /**
+   * 관계 단계 이벤트를 delta로 기록 (같은 관계의 이벤트는 하나로 묶음)
+   */
+  private addRelationshipEventDelta(
+    state: GameState,
+    affinityField: string,
+    events: RelationshipEvent[]
+  ): void {
+    const field = affinityField.replace(/\.affinity$/, '.tier');
+    const first = events[0];
+    const last = events[events.length - 1];
+    this.setEventDelta(state, field, first.previousTier, last.tier, (_from, _to, locale) =>
+      events.map(event => describeRelationshipEvent(event, locale)).join('; ')
+    );
+  }
+
+  /**
+   * 수치/효과 변화를 delta로 기록
+   */
+  private addStatDeltas(state: GameState, changes: StatChange[]): void {
+    for (const change of changes) {
+      this.setEventDelta(
+        state,
+        change.field,
+        change.initialValue,
+        change.finalValue,
+        (from, to, locale) => describeStatChange(change, from, to, locale)
+      );
+    }
+  }
+
+  /**
+   * 주사위를 굴려 상태의 굴림 기록에 추가 (저장은 호출 측에서 수행)
+   */
+  private recordDiceRoll(
+    game: Game,
+    notation: string,
+    mode: DiceRollMode,
+    reason?: string,
+    state: GameState = game.state
+  ): DiceRollRecord {
+    const rng = this.getRng(game, state);
+    const result = rollDice(notation, rng, mode);
+    state._rngState = rng.state;
+
+    const record: DiceRollRecord = {
+      ...result,
+      reason,
+      turn: state._turnCount ?? 0,
+      timestamp: new Date(),
+    };
+    state._diceRolls = [...(state._diceRolls ?? []), record].slice(-MAX_DICE_ROLL_RECORDS);
+    return record;
+  }
+
+  /**
+   * 복사본 상태의 난수로 굴리는 주사위 - 커밋 전까지 원본에 영향을 주지 않음
+   */
+  private createRoller(game: Game, state: GameState): DiceRoller {
+    return (notation, reason) => this.recordDiceRoll(game, notation, 'normal', reason, state);
+  }
+
+  /**
+   * 전투 결과 상태를 검증 후 반영
+   */
+  private commitCombatState(game: Game, newState: GameState): void {
+    if (game.stateSchema) {
+      validateState(game.stateSchema, newState);
+    }
+    game.state = newState;
+    game.updatedAt = new Date();
+    this.persist(game);
+  }
+
+  /**
+   * 전투 전후 상태를 비교하여 HP, 인벤토리, 전투 상태 변화를 delta로 기록
+   */
+  private addCombatDeltas(before: GameState, after: GameState, encounter: Encounter): void {
+    for (const turn of encounter.order) {
+      if (turn.side === 'party') {
+        const field = `characters[${turn.index}].hp`;
+        const initial = before.characters?.[turn.index]?.hp;
+        const final = after.characters?.[turn.index]?.hp;
+        if (initial !== final) {
+          this.setEventDelta(after, field, initial, final, (from, to, locale) =>
+            this.describeHpChange(locale, turn.name, from, to, 'delta.hp.down')
+          );
         }
       } else {
-        current += char;
+        const field = `_encounter.enemies[${turn.index}].hp`;
+        const enemy = encounter.enemies[turn.index];
+        const initial = before._encounter?.enemies[turn.index]?.hp ?? enemy.maxHp;
+        if (initial !== enemy.hp) {
+          this.setEventDelta(after, field, initial, enemy.hp, (from, to, locale) =>
+            this.describeHpChange(locale, enemy.name, from, to, 'delta.hp.defeated')
+          );
+        }
       }
     }
 
-    if (current) {
-      result.push(current);
+    if (JSON.stringify(before.inventory) !== JSON.stringify(after.inventory)) {
+      this.setEventDelta(
+        after,
+        'inventory',
+        before.inventory,
+        after.inventory,
+        (from, to, locale) => this.describeInventoryUse(locale, from as unknown[], to as unknown[])
+      );
     }
 
-    return result;
+    const previousStatus = before._encounter?.status;
+    if (previousStatus !== encounter.status) {
+      const names = encounter.enemies.map(enemy => enemy.name).join(', ');
+      const statusKeys: Record<EncounterStatus, MessageKey> = {
+        active: 'delta.combat.started',
+        victory: 'delta.combat.victory',
+        fled: 'delta.combat.fled',
+        defeat: 'delta.combat.defeat',
+      };
+      this.setEventDelta(
+        after,
+        '_encounter',
+        previousStatus,
+        encounter.status,
+        (_from, _to, locale) => translate(locale, statusKeys[encounter.status], { names })
+      );
+    }
   }
 
   /**
-   * 게임 히스토리에 상황-액션 쌍을 추가 (최대 10개 유지)
+   * 설명을 직접 지정하는 delta 추가/업데이트 (기존 delta가 있으면 최초 값을 유지)
    */
-  private addToGameHistory(game: Game, selectedOption: string, selectedIndex: number): void {
-    if (!game.state._gameHistory) {
-      game.state._gameHistory = [];
+  private setEventDelta(
+    state: GameState,
+    field: string,
+    initialValue: unknown,
+    finalValue: unknown,
+    describe: (initialValue: unknown, finalValue: unknown, locale: Locale) => string
+  ): void {
+    if (!state._pendingDeltas) {
+      state._pendingDeltas = [];
+    }
+    const locale = getLocale(state);
+
+    const existing = state._pendingDeltas.find(delta => delta.field === field);
+    if (existing) {
+      existing.finalValue = finalValue;
+      existing.operation = 'set';
+      existing.timestamp = new Date();
+      existing.description = describe(existing.initialValue, finalValue, 'en');
+      existing.displayDescription = describe(existing.initialValue, finalValue, locale);
+      return;
+    }
+    state._pendingDeltas.push({
+      field,
+      operation: 'set',
+      initialValue,
+      finalValue,
+      timestamp: new Date(),
+      description: describe(initialValue, finalValue, 'en'),
+      displayDescription: describe(initialValue, finalValue, locale),
+    });
+  }
+
+  /**
+   * HP 변화 설명 (예: "Goblin HP: 7 → 0 (defeated)")
+   */
+  private describeHpChange(
+    locale: Locale,
+    name: string,
+    from: unknown,
+    to: unknown,
+    zeroKey: 'delta.hp.down' | 'delta.hp.defeated'
+  ): string {
+    const suffix = to === 0 ? ` (${translate(locale, zeroKey)})` : '';
+    return `${name} HP: ${from ?? 0} → ${to ?? 0}${suffix}`;
+  }
+
+  /**
+   * 소모된 아이템 설명 (예: "Inventory: used Potion (1 left)")
+   */
+  private describeInventoryUse(
+    locale: Locale,
+    before: unknown[] = [],
+    after: unknown[] = []
+  ): string {
+    const count = (items: unknown[], name: unknown) =>
+      items
+        .filter(item => (item as { name?: unknown })?.name === name)
+        .reduce<number>((sum, item) => {
+          const quantity = (item as { quantity?: unknown }).quantity;
+          return sum + (typeof quantity === 'number' ? quantity : 1);
+        }, 0);
+
+    const used = before
+      .map(item => (item as { name?: unknown })?.name)
+      .filter((name, index, names) => names.indexOf(name) === index)
+      .map(name => ({
+        name,
+        used: count(before, name) - count(after, name),
+        left: count(after, name),
+      }))
+      .filter(entry => entry.used > 0)
+      .map(entry =>
+        translate(locale, 'delta.itemsLeft', {
+          item: `${String(entry.name)}${entry.used > 1 ? ` x${entry.used}` : ''}`,
+          count: entry.left,
+        })
+      );
+
+    return used.length > 0
+      ? translate(locale, 'delta.used', {
+          field: getFriendlyFieldName(locale, 'inventory'),
+          items: used.join(', '),
+        })
+      : this.generateDeltaDescription(locale, 'inventory', before, after);
+  }
+
+  /**
+   * 선택된 선택지의 판정을 굴려 결과 산출 (판정이 없으면 undefined)
+   */
+  private resolveSkillCheck(
+    game: Game,
+    state: GameState,
+    selectedOption: string,
+    selectedIndex: number
+  ): SkillCheckResult | undefined {
+    const check = state._currentChecks?.[selectedIndex];
+    if (!check) {
+      return undefined;
+    }
+
+    const statValue = getCheckStatValue(state, check.stat);
+    if (typeof statValue !== 'number') {
+      throw new Error(`Check stat "${check.stat}" is no longer a number`);
+    }
+
+    const roll = this.recordDiceRoll(
+      game,
+      check.dice ?? '1d20',
+      check.mode ?? 'normal',
+      `Check for "${selectedOption}"`,
+      state
+    );
+    return evaluateSkillCheck(check, statValue, roll);
+  }
+
+  /**
+   * 게임 상태에 저장된 난수 상태로 생성기 복원
+   */
+  private getRng(game: Game, state: GameState = game.state): SeededRng {
+    if (game.rngSeed === undefined) {
+      // 시드 도입 이전에 저장된 게임
+      game.rngSeed = generateSeed();
+    }
+    return new SeededRng(state._rngState ?? game.rngSeed);
+  }
+
+  /**
+   * 게임 조회 (없으면 예외)
+   */
+  private getGameOrThrow(gameId: string): Game {
+    const game = this.games.get(gameId);
+    if (!game) {
+      throw new Error(`Game with id ${gameId} not found`);
+    }
+    return game;
+  }
+
+  /**
+   * 진행 중인 게임 조회 - 끝난 게임이면 GameEndedError
+   */
+  private getActiveGameOrThrow(gameId: string): Game {
+    const game = this.getGameOrThrow(gameId);
+    if (isGameEnded(game)) {
+      throw new GameEndedError(game);
+    }
+    return game;
+  }
+
+  /**
+   * 끝나기 전 상태로 되돌렸으므로 다시 진행 중으로 표시
+   */
+  private reopen(game: Game): void {
+    game.status = 'active';
+    delete game.endReason;
+    delete game.endedAt;
+  }
+
+  private findSave(game: Game, label: string): SaveSlot {
+    const cleanLabel = this.normalizeSaveLabel(label);
+    const slot = game.saves?.find(s => s.label === cleanLabel);
+    if (!slot) {
+      const available = (game.saves ?? []).map(s => `"${s.label}"`).join(', ') || 'none';
+      throw new Error(`Save "${cleanLabel}" not found. Available saves: ${available}`);
+    }
+    return slot;
+  }
+
+  private normalizeSaveLabel(label: string): string {
+    const cleanLabel = typeof label === 'string' ? label.trim() : '';
+    if (!cleanLabel) {
+      throw new Error('Save label cannot be empty');
+    }
+    if (cleanLabel.length > MAX_SAVE_LABEL_LENGTH) {
+      throw new Error(`Save label must be ${MAX_SAVE_LABEL_LENGTH} characters or fewer`);
+    }
+    return cleanLabel;
+  }
+
+  /**
+   * 직접 입력한 행동 정리 - 제어 문자 제거, 공백 정리 후 길이 확인
+   */
+  private normalizeCustomAction(text: string): string {
+    const cleanText =
+      typeof text === 'string'
+        ? text
+            .replace(/\p{Cc}+/gu, ' ')
+            .replace(/\s+/g, ' ')
+            .trim()
+        : '';
+    if (!cleanText) {
+      throw new Error('Custom action cannot be empty');
+    }
+    if (cleanText.length > MAX_CUSTOM_ACTION_LENGTH) {
+      throw new Error(`Custom action must be ${MAX_CUSTOM_ACTION_LENGTH} characters or fewer`);
+    }
+    return cleanText;
+  }
+
+  /**
+   * 선택이 열린 프롬프트에 대한 것인지 확인 (지난 프롬프트, 중복 선택 거부)
+   */
+  private validatePrompt(state: GameState, promptId: string): void {
+    if (!state._promptId || !state._currentOptions) {
+      throw new Error('No prompt is open for selection. Call promptUserActions first');
     }
+    if (promptId !== state._promptId) {
+      throw new Error(
+        `Prompt ${promptId} is stale. Only the latest prompt (${state._promptId}) can be answered`
+      );
+    }
+    if (state._promptAnswered) {
+      throw new Error(
+        `Prompt ${promptId} has already been answered. Call promptUserActions for the next choice`
+      );
+    }
+  }
 
+  /**
+   * 선택이 제시된 선택지의 인덱스, 텍스트와 일치하는지 확인
+   */
+  private validatePresetSelection(
+    state: GameState,
+    selectedOption: string,
+    selectedIndex: number
+  ): void {
+    const options: string[] = state._currentOptions;
+    const listed = options.map((option, index) => `[${index}] ${option}`);
+    if (!Number.isInteger(selectedIndex) || selectedIndex < 0 || selectedIndex >= options.length) {
+      throw new Error(
+        `selectedIndex ${selectedIndex} is not an option. Options: ${listed.join('; ')}`
+      );
+    }
+    if (selectedOption.trim() !== options[selectedIndex].trim()) {
+      throw new Error(
+        `selectedOption "${selectedOption}" does not match option ${listed[selectedIndex]}`
+      );
+    }
+  }
+
+  /**
+   * 현재 상태를 다음 턴의 스냅샷으로 저장 (최대 10개 유지)
+   */
+  private addTurnSnapshot(game: Game): void {
     if (!game.state.lastStoryProgress || !game.state._currentOptions) {
+      return; // 되돌아갈 선택지가 없으면 저장하지 않음
+    }
+
+    const snapshots = game.turnSnapshots ?? [];
+    snapshots.push({
+      turn: game.state._turnCount ?? 0,
+      state: cloneState(game.state),
+      createdAt: new Date(),
+    });
+    game.turnSnapshots = snapshots.slice(-MAX_HISTORY_ENTRIES);
+  }
+
+  /**
+   * 게임 히스토리에 상황-액션 쌍을 추가 (최대 10개 유지)
+   */
+  private addToGameHistory(
+    state: GameState,
+    selectedOption: string,
+    selectedIndex: number,
+    check?: SkillCheckResult,
+    custom = false
+  ): void {
+    if (!state._gameHistory) {
+      state._gameHistory = [];
+    }
+
+    if (!state.lastStoryProgress || !state._currentOptions) {
       return; // 필요한 정보가 없으면 추가하지 않음
     }
 
-    const historyEntry = {
-      situation: game.state.lastStoryProgress,
-      options: [...game.state._currentOptions], // 배열 복사
+    const turn = state._turnCount ?? 0;
+    state._turnCount = turn + 1;
+
+    const historyEntry: GameHistoryEntry = {
+      turn,
+      situation: state.lastStoryProgress,
+      options: [...state._currentOptions], // 배열 복사
       selectedOption,
       selectedIndex,
+      choiceType: custom ? 'custom' : 'preset',
+      promptId: state._promptId,
+      check,
       timestamp: new Date(),
     };
 
-    game.state._gameHistory.push(historyEntry);
+    state._gameHistory.push(historyEntry);
 
     // 최대 10개만 유지
-    if (game.state._gameHistory.length > 10) {
-      game.state._gameHistory = game.state._gameHistory.slice(-10);
+    if (state._gameHistory.length > MAX_HISTORY_ENTRIES) {
+      state._gameHistory = state._gameHistory.slice(-MAX_HISTORY_ENTRIES);
     }
   }
 
@@ -266,7 +1633,11 @@ export class GameManager {
    * 게임 삭제 (정리용)
    */
   deleteGame(gameId: string): boolean {
-    return this.games.delete(gameId);
+    const deleted = this.games.delete(gameId);
+    if (deleted) {
+      this.store.delete(gameId);
+    }
+    return deleted;
   }
 
   /**
@@ -276,29 +1647,51 @@ export class GameManager {
     const game = this.games.get(gameId);
     if (game) {
       game.state._pendingDeltas = [];
+      this.persist(game);
     }
   }
 
+  /**
+   * 게임 변경 사항을 저장소에 기록
+   */
+  private persist(game: Game): void {
+    this.store.save(game);
+  }
+
   /**
    * Delta 정보를 추가하거나 업데이트
    */
-  private addOrUpdateDelta(state: GameState, field: string, newValue: unknown): void {
+  private addOrUpdateDelta(
+    state: GameState,
+    field: string,
+    newValue: unknown,
+    operation: UpdateOperation = 'set',
+    operand?: unknown
+  ): void {
     if (!state._pendingDeltas) {
       state._pendingDeltas = [];
     }
 
     // 현재 값 가져오기
-    const currentValue = this.getNestedValue(state, field);
+    const currentValue = getNestedValue(state, field);
 
     // 기존 delta 찾기
     const existingDeltaIndex = state._pendingDeltas.findIndex(delta => delta.field === field);
 
     if (existingDeltaIndex !== -1) {
-      // 기존 delta 업데이트 (finalValue만 변경)
+      // 기존 delta 업데이트 (finalValue만 변경, 누적 결과로 설명)
       const existingDelta = state._pendingDeltas[existingDeltaIndex];
       existingDelta.finalValue = newValue;
+      existingDelta.operation = operation === existingDelta.operation ? operation : 'set';
       existingDelta.timestamp = new Date();
       existingDelta.description = this.generateDeltaDescription(
+        'en',
+        field,
+        existingDelta.initialValue,
+        newValue
+      );
+      existingDelta.displayDescription = this.generateDeltaDescription(
+        getLocale(state),
         field,
         existingDelta.initialValue,
         newValue
@@ -307,91 +1700,122 @@ export class GameManager {
       // 새 delta 추가
       const deltaInfo: DeltaInfo = {
         field,
+        operation,
         initialValue: currentValue,
         finalValue: newValue,
         timestamp: new Date(),
-        description: this.generateDeltaDescription(field, currentValue, newValue),
+        description: this.generateDeltaDescription(
+          'en',
+          field,
+          currentValue,
+          newValue,
+          operation,
+          operand
+        ),
+        displayDescription: this.generateDeltaDescription(
+          getLocale(state),
+          field,
+          currentValue,
+          newValue,
+          operation,
+          operand
+        ),
       };
       state._pendingDeltas.push(deltaInfo);
     }
   }
 
   /**
-   * 중첩된 객체에서 값 가져오기
-   */
-  private getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-    const keys = this.parsePath(path);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let current: any = obj;
-
-    for (const key of keys) {
-      if (current && typeof current === 'object' && key in current) {
-        current = current[key];
-      } else {
-        return undefined;
-      }
-    }
-
-    return current;
-  }
-
-  /**
-   * Delta 설명 메시지 생성
+   * Delta 설명 메시지 생성 (도구 응답은 영어, UI는 게임의 로케일)
    */
   private generateDeltaDescription(
+    locale: Locale,
     field: string,
     initialValue: unknown,
-    finalValue: unknown
+    finalValue: unknown,
+    operation: UpdateOperation = 'set',
+    operand?: unknown
   ): string {
-    // 사용자 친화적인 필드명 변환
-    const friendlyFieldName = this.getFriendlyFieldName(field);
+    // 사용자 친화적인 필드명과 이전/이후 값은 모든 설명에 공통
+    const describe = (key: MessageKey, params: Record<string, unknown> = {}) =>
+      translate(locale, key, {
+        field: getFriendlyFieldName(locale, field),
+        from: initialValue,
+        to: finalValue,
+        ...params,
+      });
+
+    // 연산별 설명 (set/increment/decrement는 아래의 값 비교 설명 사용)
+    switch (operation) {
+      case 'increment':
+      case 'decrement':
+        // 없던 값은 0에서 시작한 것으로 설명
+        if (initialValue === undefined) {
+          return this.generateDeltaDescription(locale, field, 0, finalValue);
+        }
+        break;
+      case 'multiply':
+        return describe('delta.multiplied', { operand });
+      case 'clamp': {
+        const { min, max } = operand as { min?: number; max?: number };
+        const range = `${min ?? '-∞'}–${max ?? '∞'}`;
+        return initialValue === finalValue
+          ? describe('delta.alreadyWithin', { range })
+          : describe('delta.clamped', { range });
+      }
+      case 'push':
+        return describe('delta.added', { item: this.describeItem(operand) });
+      case 'remove': {
+        // applyOperation과 같은 방식으로 지워진 항목을 찾음 (중복 값이나 복사된 객체도 구분)
+        const items = initialValue as unknown[];
+        return describe('delta.removed', {
+          item: this.describeItem(items[findRemovalIndex(items, operand)]),
+        });
+      }
+      case 'merge':
+        return describe('delta.updated', { keys: Object.keys(operand as object).join(', ') });
+      case 'delete':
+        return initialValue && typeof initialValue === 'object' && 'name' in initialValue
+          ? describe('delta.removed', { item: this.describeItem(initialValue) })
+          : describe('delta.deleted', { value: JSON.stringify(initialValue) });
+    }
 
     // 값의 타입에 따른 설명 생성
     if (Array.isArray(finalValue) && Array.isArray(initialValue)) {
       const initialLength = initialValue.length;
       const finalLength = finalValue.length;
       if (finalLength > initialLength) {
-        return `${friendlyFieldName}: ${finalLength - initialLength} item(s) added`;
+        return describe('delta.itemsAdded', { count: finalLength - initialLength });
       } else if (finalLength < initialLength) {
-        return `${friendlyFieldName}: ${initialLength - finalLength} item(s) removed`;
+        return describe('delta.itemsRemoved', { count: initialLength - finalLength });
       } else {
-        return `${friendlyFieldName}: contents changed`;
+        return describe('delta.contentsChanged');
       }
     } else if (typeof finalValue === 'number' && typeof initialValue === 'number') {
       const change = finalValue - initialValue;
-      if (change > 0) {
-        return `${friendlyFieldName}: increased by ${change} (${initialValue} → ${finalValue})`;
+      if (change === 0) {
+        return describe('delta.unchanged');
+      } else if (change > 0) {
+        return describe('delta.increased', { amount: change });
       } else {
-        return `${friendlyFieldName}: decreased by ${Math.abs(change)} (${initialValue} → ${finalValue})`;
+        return describe('delta.decreased', { amount: Math.abs(change) });
       }
     } else {
-      return `${friendlyFieldName}: changed from ${JSON.stringify(initialValue)} to ${JSON.stringify(finalValue)}`;
+      return describe('delta.changed', {
+        from: JSON.stringify(initialValue),
+        to: JSON.stringify(finalValue),
+      });
     }
   }
 
   /**
-   * 사용자 친화적인 필드명 반환
+   * 배열 항목을 설명용 문자열로 변환 (name이 있으면 이름 사용)
    */
-  private getFriendlyFieldName(field: string): string {
-    const fieldMap: Record<string, string> = {
-      characters: 'Character',
-      world: 'World',
-      inventory: 'Inventory',
-      story: 'Story',
-      title: 'Title',
-      hp: 'HP',
-      mp: 'MP',
-      level: 'Level',
-      favorability: 'Favorability',
-      location: 'Location',
-      time: 'Time',
-      weather: 'Weather',
-    };
-
-    // 배열 인덱스나 중첩 경로 처리
-    const parts = field.split(/[.[\]]/);
-    const mainField = parts[0];
-
-    return fieldMap[mainField] || mainField;
+  private describeItem(item: unknown): string {
+    if (item && typeof item === 'object' && 'name' in item) {
+      const { name, quantity } = item as { name: unknown; quantity?: unknown };
+      return typeof quantity === 'number' ? `${String(name)} x${quantity}` : String(name);
+    }
+    return JSON.stringify(item);
   }
 }
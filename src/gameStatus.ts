@@ -0,0 +1,48 @@
+import type { Game, GameStatus } from './types.js';
+
+const STATUS_LABELS: Record<GameStatus, string> = {
+  active: 'Active',
+  'ended-win': 'Ended (victory)',
+  'ended-loss': 'Ended (defeat)',
+  abandoned: 'Abandoned',
+};
+
+/**
+ * 끝난 게임에 플레이 도구를 호출했을 때의 에러 - 게임 상태와 종료 사유를 포함
+ */
+export class GameEndedError extends Error {
+  public readonly status: GameStatus;
+  public readonly endReason?: string;
+
+  constructor(game: Game) {
+    super(
+      `Game ${game.gameId} has already ended (${describeGameStatus(game)}). ` +
+        'Start a new game with createGame, or restore an earlier point with loadSave, undoLastTurn or rewindToTurn'
+    );
+    this.name = 'GameEndedError';
+    this.status = getGameStatus(game);
+    this.endReason = game.endReason;
+  }
+}
+
+/**
+ * 게임 상태 (상태 필드가 없던 이전 게임은 진행 중)
+ */
+export function getGameStatus(game: Game): GameStatus {
+  return game.status ?? 'active';
+}
+
+/**
+ * 게임이 끝났는지 여부
+ */
+export function isGameEnded(game: Game): boolean {
+  return getGameStatus(game) !== 'active';
+}
+
+/**
+ * 게임 상태 설명 (예: "Ended (defeat): The party has fallen")
+ */
+export function describeGameStatus(game: Game): string {
+  const label = STATUS_LABELS[getGameStatus(game)];
+  return game.endReason ? `${label}: ${game.endReason}` : label;
+}
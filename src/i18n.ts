@@ -0,0 +1,301 @@
+import type { GameState, Locale } from './types.js';
+
+/**
+ * 로케일을 지정하지 않은 게임의 언어 (기존 UI가 한국어였음)
+ */
+export const DEFAULT_LOCALE: Locale = 'ko';
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'ko'];
+
+/**
+ * 영어 메시지 카탈로그 - 모든 메시지 키의 기준 ({name}은 매개변수 자리)
+ */
+const EN = {
+  'ui.title': 'RPG Game',
+  'ui.storyStarting': 'The game begins...',
+  'ui.chooseAction': '🎯 Choose your action:',
+  'ui.gameId': 'Game ID',
+  'ui.customAction.placeholder': 'Type your own action (e.g. Bribe the guard)',
+  'ui.customAction.label': 'Type your own action',
+  'ui.customAction.submit': '✍️ Act',
+  'ui.delta.heading': '📊 Recent Changes',
+  'ui.location.exits': '🚪 Exits',
+  'ui.location.noExits': 'none',
+  'ui.quests.heading': '📜 Active Quests ({count})',
+  'ui.party.heading': '🧍 Party ({count})',
+  'ui.party.sharedInventory': '🎒 Shared Inventory',
+  'ui.party.world': '🌍 World',
+  'ui.sheet.level': 'Lv {level}',
+  'ui.sheet.base': '(base {value})',
+  'ui.sheet.equipment': 'Equipment',
+  'ui.sheet.inventory': 'Inventory',
+  'ui.summary.characters': '👤 Characters: {count}',
+  'ui.summary.location': '📍 Location: {location}',
+  'ui.summary.story': '📖 Story: {story}',
+  'ui.summary.items': '🎒 Items: {count}',
+  'ui.summary.unknown': 'Unknown',
+  'ui.summary.none': 'N/A',
+  'ui.gameOver.title': 'Game Over',
+  'ui.gameOver.banner': '☠️ GAME OVER ☠️',
+  'ui.gameOver.heading': 'What happened?',
+  'ui.gameOver.message': '🎮 Start a new game and try different choices!',
+  'ui.victory.title': 'Victory',
+  'ui.victory.banner': '🏆 VICTORY 🏆',
+  'ui.victory.heading': 'How did you win?',
+  'ui.victory.message': '🎉 Congratulations! Set out on another adventure in a new game!',
+  'ui.gameOver.fullState': '📋 View full game state',
+  'ui.gameOver.restart': '🔄 Restart Game',
+  'ui.gameOver.restartLabel': 'Restart game',
+  'ui.gameOver.restarting': '🔄 Restarting...',
+  'delta.multiplied': '{field}: multiplied by {operand} ({from} → {to})',
+  'delta.alreadyWithin': '{field}: already within {range} ({to})',
+  'delta.clamped': '{field}: clamped to {range} ({from} → {to})',
+  'delta.added': '{field}: added {item}',
+  'delta.removed': '{field}: removed {item}',
+  'delta.updated': '{field}: updated {keys}',
+  'delta.deleted': '{field}: removed (was {value})',
+  'delta.itemsAdded': '{field}: {count} item(s) added',
+  'delta.itemsRemoved': '{field}: {count} item(s) removed',
+  'delta.contentsChanged': '{field}: contents changed',
+  'delta.increased': '{field}: increased by {amount} ({from} → {to})',
+  'delta.decreased': '{field}: decreased by {amount} ({from} → {to})',
+  'delta.unchanged': '{field}: unchanged ({to})',
+  'delta.changed': '{field}: changed from {from} to {to}',
+  'delta.used': '{field}: used {items}',
+  'delta.itemsLeft': '{item} ({count} left)',
+  'delta.inventory.owner': "{name}'s inventory",
+  'delta.inventory.equipped': '{label}: equipped {item} ({slot})',
+  'delta.inventory.unequipped': '{label}: unequipped {item}',
+  'delta.inventory.used': '{label}: used {item} ({left} left)',
+  'delta.inventory.usedMany': '{label}: used {amount} {item} ({left} left)',
+  'delta.inventory.unchanged': '{label}: no net change in {item}',
+  'delta.inventory.gained': '{label}: +{amount} {item}',
+  'delta.inventory.lost': '{label}: -{amount} {item}',
+  'delta.inventory.from': '(from {name})',
+  'delta.inventory.to': '(to {name})',
+  'delta.inventory.left': '({count} left)',
+  'delta.effect.active': '{label}: {effect} active',
+  'delta.effect.renewed': '{label}: {effect} renewed',
+  'delta.effect.removed': '{label}: {effect} removed',
+  'delta.effect.expired': '{label}: {effect} wore off',
+  'delta.effect.perTurn': '{stat} {value}/turn',
+  'delta.effect.turnLeft': '{count} turn left',
+  'delta.effect.turnsLeft': '{count} turns left',
+  'delta.quest.new': 'New quest: {title}',
+  'delta.quest.completed': 'Quest completed: {title}',
+  'delta.quest.completedWithReward': 'Quest completed: {title} (reward: {reward})',
+  'delta.quest.failed': 'Quest failed: {title}',
+  'delta.quest.failedWithReason': 'Quest failed: {title} ({reason})',
+  'delta.relationship.rose': "{from}'s feelings toward {to} rose to {tier}",
+  'delta.relationship.fell': "{from}'s feelings toward {to} fell to {tier}",
+  'delta.hp.down': 'down',
+  'delta.hp.defeated': 'defeated',
+  'delta.combat.started': '⚔️ Combat started against {names}',
+  'delta.combat.victory': '⚔️ Victory over {names}',
+  'delta.combat.fled': '🏃 Escaped from {names}',
+  'delta.combat.defeat': '💀 The party was defeated by {names}',
+  'delta.combat.ended': 'Combat ended after {rounds} round(s): {outcome}',
+  'delta.combat.endedDefeated':
+    'Combat ended after {rounds} round(s): {outcome} (defeated: {names})',
+  'delta.combat.outcome.active': 'ended',
+  'delta.combat.outcome.victory': 'victory',
+  'delta.combat.outcome.fled': 'fled',
+  'delta.combat.outcome.defeat': 'defeat',
+  'clock.day': 'Day {day}',
+  'clock.date': '{date} (Day {day})',
+  'clock.deadline': 'Deadline {when} ({left} left)',
+  'clock.deadlineReached': 'Deadline {when} has been reached',
+  'clock.remaining.day': '{count} day',
+  'clock.remaining.days': '{count} days',
+  'clock.remaining.slot': '{count} time slot',
+  'clock.remaining.slots': '{count} time slots',
+  'clock.remaining.both': '{days} and {slots}',
+};
+
+export type MessageKey = keyof typeof EN;
+
+const KO: Record<MessageKey, string> = {
+  'ui.title': 'RPG 게임',
+  'ui.storyStarting': '게임이 시작됩니다...',
+  'ui.chooseAction': '🎯 선택하세요:',
+  'ui.gameId': '게임 ID',
+  'ui.customAction.placeholder': '직접 행동 입력 (예: 경비병에게 뇌물을 건넨다)',
+  'ui.customAction.label': '직접 행동 입력',
+  'ui.customAction.submit': '✍️ 행동하기',
+  'ui.delta.heading': '📊 최근 변경사항',
+  'ui.location.exits': '🚪 출구',
+  'ui.location.noExits': '없음',
+  'ui.quests.heading': '📜 진행 중인 퀘스트 ({count})',
+  'ui.party.heading': '🧍 파티 ({count})',
+  'ui.party.sharedInventory': '🎒 공용 인벤토리',
+  'ui.party.world': '🌍 월드',
+  'ui.sheet.level': 'Lv {level}',
+  'ui.sheet.base': '(기본 {value})',
+  'ui.sheet.equipment': '장비',
+  'ui.sheet.inventory': '인벤토리',
+  'ui.summary.characters': '👤 캐릭터: {count}',
+  'ui.summary.location': '📍 장소: {location}',
+  'ui.summary.story': '📖 스토리: {story}',
+  'ui.summary.items': '🎒 아이템: {count}',
+  'ui.summary.unknown': '알 수 없음',
+  'ui.summary.none': '없음',
+  'ui.gameOver.title': '게임 오버',
+  'ui.gameOver.banner': '☠️ GAME OVER ☠️',
+  'ui.gameOver.heading': '무엇이 일어났나요?',
+  'ui.gameOver.message': '🎮 새로운 게임으로 다시 시작하고, 다른 선택들을 시도해보세요!',
+  'ui.victory.title': '승리',
+  'ui.victory.banner': '🏆 VICTORY 🏆',
+  'ui.victory.heading': '어떻게 승리했나요?',
+  'ui.victory.message': '🎉 축하합니다! 새로운 게임으로 또 다른 모험을 떠나보세요!',
+  'ui.gameOver.fullState': '📋 전체 게임 상태 보기',
+  'ui.gameOver.restart': '🔄 다시 시작',
+  'ui.gameOver.restartLabel': '게임 재시작',
+  'ui.gameOver.restarting': '🔄 재시작 중...',
+  'delta.multiplied': '{field}: {operand}배 ({from} → {to})',
+  'delta.alreadyWithin': '{field}: 이미 {range} 범위 안 ({to})',
+  'delta.clamped': '{field}: {range} 범위로 제한 ({from} → {to})',
+  'delta.added': '{field}: {item} 추가',
+  'delta.removed': '{field}: {item} 제거',
+  'delta.updated': '{field}: {keys} 변경',
+  'delta.deleted': '{field}: 제거됨 (이전 값 {value})',
+  'delta.itemsAdded': '{field}: {count}개 추가',
+  'delta.itemsRemoved': '{field}: {count}개 제거',
+  'delta.contentsChanged': '{field}: 내용 변경',
+  'delta.increased': '{field}: {amount} 증가 ({from} → {to})',
+  'delta.decreased': '{field}: {amount} 감소 ({from} → {to})',
+  'delta.unchanged': '{field}: 변화 없음 ({to})',
+  'delta.changed': '{field}: {from}에서 {to}(으)로 변경',
+  'delta.used': '{field}: {items} 사용',
+  'delta.itemsLeft': '{item} ({count}개 남음)',
+  'delta.inventory.owner': '{name}의 인벤토리',
+  'delta.inventory.equipped': '{label}: {item} 장착 ({slot})',
+  'delta.inventory.unequipped': '{label}: {item} 장착 해제',
+  'delta.inventory.used': '{label}: {item} 사용 ({left}개 남음)',
+  'delta.inventory.usedMany': '{label}: {item} {amount}개 사용 ({left}개 남음)',
+  'delta.inventory.unchanged': '{label}: {item} 변화 없음',
+  'delta.inventory.gained': '{label}: {item} +{amount}',
+  'delta.inventory.lost': '{label}: {item} -{amount}',
+  'delta.inventory.from': '({name}에게서)',
+  'delta.inventory.to': '({name}에게)',
+  'delta.inventory.left': '({count}개 남음)',
+  'delta.effect.active': '{label}: {effect} 적용',
+  'delta.effect.renewed': '{label}: {effect} 갱신',
+  'delta.effect.removed': '{label}: {effect} 해제',
+  'delta.effect.expired': '{label}: {effect} 효과 종료',
+  'delta.effect.perTurn': '{stat} 턴당 {value}',
+  'delta.effect.turnLeft': '{count}턴 남음',
+  'delta.effect.turnsLeft': '{count}턴 남음',
+  'delta.quest.new': '새 퀘스트: {title}',
+  'delta.quest.completed': '퀘스트 완료: {title}',
+  'delta.quest.completedWithReward': '퀘스트 완료: {title} (보상: {reward})',
+  'delta.quest.failed': '퀘스트 실패: {title}',
+  'delta.quest.failedWithReason': '퀘스트 실패: {title} ({reason})',
+  'delta.relationship.rose': '{to}에 대한 {from}의 감정이 {tier}(으)로 상승',
+  'delta.relationship.fell': '{to}에 대한 {from}의 감정이 {tier}(으)로 하락',
+  'delta.hp.down': '쓰러짐',
+  'delta.hp.defeated': '처치됨',
+  'delta.combat.started': '⚔️ {names}와(과) 전투 시작',
+  'delta.combat.victory': '⚔️ {names}에게 승리',
+  'delta.combat.fled': '🏃 {names}에게서 도주',
+  'delta.combat.defeat': '💀 파티가 {names}에게 패배',
+  'delta.combat.ended': '{rounds}라운드 만에 전투 종료: {outcome}',
+  'delta.combat.endedDefeated': '{rounds}라운드 만에 전투 종료: {outcome} (처치: {names})',
+  'delta.combat.outcome.active': '종료',
+  'delta.combat.outcome.victory': '승리',
+  'delta.combat.outcome.fled': '도주',
+  'delta.combat.outcome.defeat': '패배',
+  'clock.day': '{day}일차',
+  'clock.date': '{date} ({day}일차)',
+  'clock.deadline': '마감 {when} ({left} 남음)',
+  'clock.deadlineReached': '마감 {when}에 도달',
+  'clock.remaining.day': '{count}일',
+  'clock.remaining.days': '{count}일',
+  'clock.remaining.slot': '시간대 {count}개',
+  'clock.remaining.slots': '시간대 {count}개',
+  'clock.remaining.both': '{days} {slots}',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en: EN, ko: KO };
+
+/**
+ * delta 설명에 쓰는 필드 이름 (경로의 마지막 필드나 첫 필드로 찾음)
+ */
+const FIELD_NAMES: Record<Locale, Record<string, string>> = {
+  en: {
+    characters: 'Character',
+    world: 'World',
+    inventory: 'Inventory',
+    equipment: 'Equipment',
+    story: 'Story',
+    title: 'Title',
+    hp: 'HP',
+    mp: 'MP',
+    level: 'Level',
+    favorability: 'Favorability',
+    location: 'Location',
+    time: 'Time',
+    weather: 'Weather',
+  },
+  ko: {
+    characters: '캐릭터',
+    world: '월드',
+    inventory: '인벤토리',
+    equipment: '장비',
+    story: '스토리',
+    title: '제목',
+    hp: 'HP',
+    mp: 'MP',
+    level: '레벨',
+    favorability: '호감도',
+    location: '장소',
+    time: '시간',
+    weather: '날씨',
+  },
+};
+
+/**
+ * 로케일 검증
+ */
+export function normalizeLocale(locale: unknown): Locale {
+  if (!SUPPORTED_LOCALES.includes(locale as Locale)) {
+    throw new Error(
+      `Unsupported locale "${String(locale)}". Supported locales: ${SUPPORTED_LOCALES.join(', ')}`
+    );
+  }
+  return locale as Locale;
+}
+
+/**
+ * 게임의 로케일 (지정하지 않은 게임은 기본 로케일)
+ */
+export function getLocale(state: GameState): Locale {
+  return state._locale ?? DEFAULT_LOCALE;
+}
+
+/**
+ * 메시지 번역 - {name} 자리를 params 값으로 치환
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, unknown> = {}
+): string {
+  const template = CATALOGS[locale]?.[key] ?? EN[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * 사용자 친화적인 필드명 (예: "characters[0].hp" -> "HP", "world" -> "월드")
+ * 배열 인덱스나 중첩 경로는 알려진 마지막 필드명(hp 등)을 우선 사용
+ */
+export function getFriendlyFieldName(locale: Locale, field: string): string {
+  const names = FIELD_NAMES[locale] ?? FIELD_NAMES.en;
+  const parts = field.split(/[.[\]]/).filter(Boolean);
+  const mainField = parts[0];
+  const leafField = parts[parts.length - 1];
+  if (parts.length > 1 && names[leafField]) {
+    return names[leafField];
+  }
+  return names[mainField] || mainField;
+}
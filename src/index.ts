@@ -6,30 +6,180 @@ import {
   ListToolsRequestSchema,
   CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
-import { GameManager } from './gameManager.js';
+import { GameManager, MAX_CUSTOM_ACTION_LENGTH } from './gameManager.js';
+import { loadServerConfig } from './config.js';
+import { createGameStore } from './storage/index.js';
+import { DEFAULT_THEME, TemplateRegistry, escapeHtml } from './templates/index.js';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, getLocale, translate } from './i18n.js';
+import { StateValidationError } from './stateSchema.js';
+import { GameEndedError, describeGameStatus, getGameStatus, isGameEnded } from './gameStatus.js';
+import { UPDATE_OPERATIONS } from './updateOperators.js';
+import { getNestedValue } from './fieldPath.js';
+import { DICE_ROLL_MODES, describeRoll } from './dice.js';
+import { describeSkillCheck } from './skillCheck.js';
+import { describeCombatants, getCurrentTurn } from './combat.js';
+import { describeInventoryChange } from './inventory.js';
+import { describeObjectiveState, describeQuest } from './quests.js';
+import { describeRelationship, describeRelationshipEvent } from './relationships.js';
+import { describeDeadline, describeDeadlineReason, formatClock } from './clock.js';
+import { describeTravelCost, getExits, getLocation } from './locations.js';
+import {
+  describeActiveEffect,
+  describeModifiers,
+  describeStatChange,
+  getEffectiveStat,
+  getEffectiveStats,
+} from './itemEffects.js';
 import {
   CreateGameParams,
   UpdateGameParams,
+  ApplyUpdatesParams,
+  RollDiceParams,
+  StartEncounterParams,
+  CombatActionParams,
+  EndEncounterParams,
+  CombatResponse,
+  AddItemParams,
+  RemoveItemParams,
+  UseItemParams,
+  EquipItemParams,
+  TransferItemParams,
+  InventoryResponse,
   GetGameParams,
   ProgressStoryParams,
   PromptUserActionsParams,
   SelectActionParams,
   SelectRestartParams,
+  SaveGameParams,
+  ListSavesParams,
+  LoadSaveParams,
+  DeleteSaveParams,
+  UndoLastTurnParams,
+  RewindToTurnParams,
+  ForkGameParams,
+  ListTimelinesParams,
+  TimelineNode,
   ErrorResponse,
   DeltaInfo,
   GameHistoryEntry,
   GameState,
+  InventoryItem,
+  ItemDefinition,
+  DefineItemsParams,
+  Character,
+  AddStatusEffectParams,
+  RemoveStatusEffectParams,
+  StatusEffectResponse,
+  AddQuestParams,
+  UpdateObjectiveParams,
+  CompleteQuestParams,
+  FailQuestParams,
+  QuestResponse,
+  AdjustRelationshipParams,
+  DefineRelationshipTiersParams,
+  SetCalendarParams,
+  AdvanceTimeParams,
+  GameClock,
+  DefineLocationParams,
+  ConnectLocationsParams,
+  TravelToParams,
+  GameOutcome,
 } from './types.js';
 
+/**
+ * 상태를 바꾸지 않거나 다른 게임을 만드는 도구 - 실행 후 종료 조건을 검사하지 않음
+ */
+const END_CONDITION_EXEMPT_TOOLS = new Set([
+  'createGame',
+  'getGame',
+  'selectRestart',
+  'saveGame',
+  'listSaves',
+  'deleteSave',
+  'forkGame',
+  'listTimelines',
+]);
+
+/**
+ * 관계 단계 입력 스키마 (createGame, defineRelationshipTiers 공용)
+ */
+const relationshipTiersSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Tier name, e.g. "Friend" or "연인"' },
+      min: { type: 'number', description: 'Lowest affinity of the tier (-100 to 100)' },
+      event: {
+        type: 'string',
+        description: 'What happens when a relationship first rises into this tier',
+      },
+    },
+    required: ['name', 'min'],
+  },
+};
+
+/**
+ * 캐릭터 시트에서 따로 표시하는 필드 - 추가 필드 목록에서는 제외
+ */
+const SHEET_FIELDS = new Set([
+  'name',
+  'id',
+  'level',
+  'class',
+  'hp',
+  'mp',
+  'maxHp',
+  'maxMp',
+  'stats',
+  'inventory',
+  'inventoryLimits',
+  'equipment',
+  '장비',
+  'effects',
+]);
+
+/**
+ * 달력 설정 입력 속성 (createGame, setCalendar 공용)
+ */
+const calendarProperties = {
+  slots: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Time-of-day slots in order (default: Morning, Afternoon, Evening, Night)',
+  },
+  startDay: { type: 'integer', description: 'Day number to start on (default 1)' },
+  startSlot: { type: 'string', description: 'Slot to start in (default: the first slot)' },
+  startDate: {
+    type: 'string',
+    description: 'Optional calendar date of the start day (YYYY-MM-DD), e.g. "2024-04-01"',
+  },
+  deadline: {
+    type: 'object',
+    description: 'Optional deadline. Reaching it ends the game.',
+    properties: {
+      day: { type: 'integer', description: 'Deadline day number' },
+      slot: { type: 'string', description: 'Deadline slot (default: the first slot)' },
+      reason: { type: 'string', description: 'Game over message when the deadline is reached' },
+    },
+    required: ['day'],
+  },
+  defaultActionCost: {
+    type: 'integer',
+    description: 'Time slots an option takes when it has no time of its own (default 0)',
+  },
+};
+
 /**
  * RPG 게임 MCP 서버
- * 5개의 Tool 제공: createGame, updateGame, getGame, progressStory, promptUserActions
+ * 게임 생성·진행·선택·조회 도구를 제공 (전체 목록은 ListTools 핸들러 참고)
  */
 class RPGMCPServer {
   private server: Server;
   private gameManager: GameManager;
+  private templates: TemplateRegistry;
 
-  constructor() {
+  constructor(gameManager: GameManager, templates: TemplateRegistry) {
     this.server = new Server(
       {
         name: 'rpg-mcp-server',
@@ -42,7 +192,8 @@ class RPGMCPServer {
       }
     );
 
-    this.gameManager = new GameManager();
+    this.gameManager = gameManager;
+    this.templates = templates;
     this.setupHandlers();
   }
 
@@ -50,25 +201,25 @@ class RPGMCPServer {
    * HTML 이스케이프 - XSS 방지
    */
   private escapeHtml(input: unknown): string {
-    const s = String(input ?? '');
-    return s
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
+    return escapeHtml(input);
   }
 
   /**
    * 게임 상태 요약 생성
    */
   private generateGameStateSummary(state: GameState): string {
-    return `
-      <div class="state-item">👤 Characters: ${state.characters?.length || 0}</div>
-      <div class="state-item">📍 Location: ${this.escapeHtml(state.world?.location || 'Unknown')}</div>
-      <div class="state-item">📖 Story: ${this.escapeHtml(state.story?.progress || 'N/A')}</div>
-      <div class="state-item">🎒 Items: ${state.inventory?.length || 0}</div>
-    `;
+    const locale = getLocale(state);
+    const items = [
+      translate(locale, 'ui.summary.characters', { count: state.characters?.length || 0 }),
+      translate(locale, 'ui.summary.location', {
+        location: state.world?.location || translate(locale, 'ui.summary.unknown'),
+      }),
+      translate(locale, 'ui.summary.story', {
+        story: state.story?.progress || translate(locale, 'ui.summary.none'),
+      }),
+      translate(locale, 'ui.summary.items', { count: state.inventory?.length || 0 }),
+    ];
+    return items.map(item => `<div class="state-item">${this.escapeHtml(item)}</div>`).join('');
   }
 
   private setupHandlers(): void {
@@ -89,6 +240,86 @@ class RPGMCPServer {
           case 'updateGame':
             result = await this.handleUpdateGame(toolArgs as unknown as UpdateGameParams);
             break;
+          case 'applyUpdates':
+            result = await this.handleApplyUpdates(toolArgs as unknown as ApplyUpdatesParams);
+            break;
+          case 'rollDice':
+            result = await this.handleRollDice(toolArgs as unknown as RollDiceParams);
+            break;
+          case 'startEncounter':
+            result = await this.handleStartEncounter(toolArgs as unknown as StartEncounterParams);
+            break;
+          case 'combatAction':
+            result = await this.handleCombatAction(toolArgs as unknown as CombatActionParams);
+            break;
+          case 'endEncounter':
+            result = await this.handleEndEncounter(toolArgs as unknown as EndEncounterParams);
+            break;
+          case 'addItem':
+            result = await this.handleAddItem(toolArgs as unknown as AddItemParams);
+            break;
+          case 'removeItem':
+            result = await this.handleRemoveItem(toolArgs as unknown as RemoveItemParams);
+            break;
+          case 'useItem':
+            result = await this.handleUseItem(toolArgs as unknown as UseItemParams);
+            break;
+          case 'defineItems':
+            result = await this.handleDefineItems(toolArgs as unknown as DefineItemsParams);
+            break;
+          case 'addStatusEffect':
+            result = await this.handleAddStatusEffect(toolArgs as unknown as AddStatusEffectParams);
+            break;
+          case 'removeStatusEffect':
+            result = await this.handleRemoveStatusEffect(
+              toolArgs as unknown as RemoveStatusEffectParams
+            );
+            break;
+          case 'defineLocation':
+            result = await this.handleDefineLocation(toolArgs as unknown as DefineLocationParams);
+            break;
+          case 'connectLocations':
+            result = await this.handleConnectLocations(
+              toolArgs as unknown as ConnectLocationsParams
+            );
+            break;
+          case 'travelTo':
+            result = await this.handleTravelTo(toolArgs as unknown as TravelToParams);
+            break;
+          case 'setCalendar':
+            result = await this.handleSetCalendar(toolArgs as unknown as SetCalendarParams);
+            break;
+          case 'advanceTime':
+            result = await this.handleAdvanceTime(toolArgs as unknown as AdvanceTimeParams);
+            break;
+          case 'adjustRelationship':
+            result = await this.handleAdjustRelationship(
+              toolArgs as unknown as AdjustRelationshipParams
+            );
+            break;
+          case 'defineRelationshipTiers':
+            result = await this.handleDefineRelationshipTiers(
+              toolArgs as unknown as DefineRelationshipTiersParams
+            );
+            break;
+          case 'addQuest':
+            result = await this.handleAddQuest(toolArgs as unknown as AddQuestParams);
+            break;
+          case 'updateObjective':
+            result = await this.handleUpdateObjective(toolArgs as unknown as UpdateObjectiveParams);
+            break;
+          case 'completeQuest':
+            result = await this.handleCompleteQuest(toolArgs as unknown as CompleteQuestParams);
+            break;
+          case 'failQuest':
+            result = await this.handleFailQuest(toolArgs as unknown as FailQuestParams);
+            break;
+          case 'equipItem':
+            result = await this.handleEquipItem(toolArgs as unknown as EquipItemParams);
+            break;
+          case 'transferItem':
+            result = await this.handleTransferItem(toolArgs as unknown as TransferItemParams);
+            break;
           case 'getGame':
             result = await this.handleGetGame(toolArgs as unknown as GetGameParams);
             break;
@@ -106,10 +337,54 @@ class RPGMCPServer {
           case 'selectRestart':
             result = await this.handleSelectRestart(toolArgs as unknown as SelectRestartParams);
             break;
+          case 'saveGame':
+            result = await this.handleSaveGame(toolArgs as unknown as SaveGameParams);
+            break;
+          case 'listSaves':
+            result = await this.handleListSaves(toolArgs as unknown as ListSavesParams);
+            break;
+          case 'loadSave':
+            result = await this.handleLoadSave(toolArgs as unknown as LoadSaveParams);
+            break;
+          case 'deleteSave':
+            result = await this.handleDeleteSave(toolArgs as unknown as DeleteSaveParams);
+            break;
+          case 'undoLastTurn':
+            result = await this.handleUndoLastTurn(toolArgs as unknown as UndoLastTurnParams);
+            break;
+          case 'rewindToTurn':
+            result = await this.handleRewindToTurn(toolArgs as unknown as RewindToTurnParams);
+            break;
+          case 'forkGame':
+            result = await this.handleForkGame(toolArgs as unknown as ForkGameParams);
+            break;
+          case 'listTimelines':
+            result = await this.handleListTimelines(toolArgs as unknown as ListTimelinesParams);
+            break;
           default:
             throw new Error(`Unknown tool: ${toolName}`);
         }
 
+        // 상태가 바뀐 뒤 종료 조건을 만족하면 게임 오버(또는 승리) 화면으로 대체
+        const gameId = (toolArgs as { gameId?: unknown }).gameId;
+        if (
+          typeof gameId === 'string' &&
+          !END_CONDITION_EXEMPT_TOOLS.has(toolName) &&
+          !this.isGameOverResult(result)
+        ) {
+          const ending = this.gameManager.checkEndConditions(gameId);
+          if (ending) {
+            result = this.createGameOverResult(
+              toolName,
+              gameId,
+              ending.reason,
+              this.gameManager.getGame(gameId).game.state,
+              [`End condition: ${ending.condition}`],
+              ending.outcome
+            );
+          }
+        }
+
         console.error(`Tool ${toolName} executed successfully`); // 성공 로그
 
         return result;
@@ -127,6 +402,14 @@ class RPGMCPServer {
           tool: toolName,
           timestamp: new Date().toISOString(),
         };
+        if (error instanceof StateValidationError) {
+          errorResponse.path = error.path;
+          errorResponse.expected = error.expected;
+        }
+        if (error instanceof GameEndedError) {
+          errorResponse.gameStatus = error.status;
+          errorResponse.endReason = error.endReason;
+        }
 
         return {
           content: [
@@ -165,6 +448,113 @@ class RPGMCPServer {
                     },
                   ],
                 },
+                seed: {
+                  type: 'integer',
+                  description:
+                    'Optional random seed for rollDice. The same seed with the same sequence of calls replays identical results. Omit for a random seed.',
+                },
+                calendar: {
+                  type: 'object',
+                  description:
+                    'Optional in-game calendar. The server keeps world.time, advances it by the time cost of selected options and ends the game at the deadline.',
+                  properties: calendarProperties,
+                },
+                relationshipTiers: {
+                  ...relationshipTiersSchema,
+                  description:
+                    'Optional named relationship tiers for adjustRelationship (default: Hostile, Unfriendly, Neutral, Friendly, Close, Devoted)',
+                },
+                endConditions: {
+                  type: 'array',
+                  description:
+                    'Optional rules that end the game automatically. They are checked after every tool call that changes the state, and the first one met shows the game over screen (or a victory screen for wins). With a calendar, calendar.day, calendar.slot and calendar.remaining (time slots left before the deadline) can be used.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      condition: {
+                        type: 'string',
+                        description:
+                          'Predicate "<path> <operator> <value>" with <, <=, >, >=, == or !=, e.g. "characters[0].hp <= 0", "_quests[id=escape].status == completed". A [*] or [name=...] selector is met only when every matched value passes, e.g. "characters[*].hp <= 0" for a party wipe.',
+                      },
+                      outcome: {
+                        type: 'string',
+                        enum: ['win', 'loss'],
+                        description: 'Ending type (default: loss)',
+                      },
+                      reason: {
+                        type: 'string',
+                        description: 'Message shown on the ending screen',
+                      },
+                    },
+                    required: ['condition'],
+                  },
+                },
+                theme: {
+                  type: 'string',
+                  enum: this.templates.listThemes().map(theme => theme.name),
+                  description: `Optional UI theme for the game screens. ${this.templates
+                    .listThemes()
+                    .map(theme => `${theme.name}: ${theme.description}`)
+                    .join('; ')}. Default: ${DEFAULT_THEME}`,
+                },
+                locale: {
+                  type: 'string',
+                  enum: SUPPORTED_LOCALES,
+                  description: `Optional language of the player-facing UI and change descriptions (default: ${DEFAULT_LOCALE}). Tool responses stay in English.`,
+                },
+                itemCatalog: {
+                  type: 'array',
+                  description:
+                    'Optional item definitions. Equipped items add their modifiers to character stats, and useItem applies their effect. More can be added later with defineItems.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      type: { type: 'string' },
+                      slot: { type: 'string', description: 'Equipment slot, e.g. "weapon"' },
+                      weight: { type: 'number' },
+                      description: { type: 'string' },
+                      modifiers: {
+                        type: 'object',
+                        additionalProperties: { type: 'number' },
+                        description: 'Stat bonuses while equipped, e.g. {"attack": 5, "ac": 2}',
+                      },
+                      damage: {
+                        type: 'string',
+                        description: 'Weapon damage dice used by combatAction, e.g. "1d8"',
+                      },
+                      effect: {
+                        type: 'object',
+                        description:
+                          'Consumable effect applied by useItem, e.g. {"restore": {"hp": 30}} or {"modifiers": {"str": 2}}',
+                        properties: {
+                          restore: {
+                            type: 'object',
+                            additionalProperties: { type: ['number', 'string'] },
+                          },
+                          modifiers: { type: 'object', additionalProperties: { type: 'number' } },
+                          duration: {
+                            type: 'number',
+                            description:
+                              'Turns the modifiers/perTurn last (default: until removed)',
+                          },
+                          perTurn: {
+                            type: 'object',
+                            additionalProperties: { type: 'number' },
+                            description:
+                              'Change applied every turn, e.g. {"hp": 5} for regeneration',
+                          },
+                        },
+                      },
+                    },
+                    required: ['name'],
+                  },
+                },
+                stateSchema: {
+                  type: ['string', 'object'],
+                  description:
+                    'Optional schema that every later updateGame must satisfy. Either a built-in schema name ("rpg" checks the types of known fields, "rpg-strict" also rejects unknown fields such as typos) or a custom JSON Schema object. Fields starting with "_" are managed by the server and are not validated.',
+                },
               },
               required: ['initialStateInJson'],
             },
@@ -183,7 +573,19 @@ class RPGMCPServer {
                 fieldSelector: {
                   type: 'string',
                   description:
-                    "Path to the field to update. Examples: 'characters[0].level', 'world.time', 'player.stats.hp', 'characters[1].favorability'",
+                    "Path to the field to update. Examples: 'characters[0].level', 'world.time', 'player.stats.hp'. Array items can be selected by property instead of index, which stays correct when the party is reordered: 'characters[name=Sakura].favorability', 'inventory[type=potion].quantity'. Use [*] to update every item: 'characters[*].hp'. A selector that matches no item is an error. Server-managed fields (names starting with '_', lastStoryProgress, selectedAction) cannot be updated.",
+                },
+                operation: {
+                  type: 'string',
+                  enum: UPDATE_OPERATIONS,
+                  description: `How to apply value to the field (default "set"). Let the server do the math instead of computing new values yourself:
+- set: overwrite with value
+- increment / decrement / multiply: numeric change by value (e.g. decrement 15 HP)
+- clamp: limit to a range, value {"min": 0, "max": 100}
+- push: append value to an array
+- remove: remove an array item by index (number) or by match (e.g. {"name": "Potion"})
+- merge: merge the keys of value into an object
+- delete: remove the field (value not needed)`,
                 },
                 value: {
                   type: ['string', 'number', 'object', 'array', 'boolean', 'null'],
@@ -201,7 +603,7 @@ class RPGMCPServer {
                 isGameOver: {
                   type: 'boolean',
                   description:
-                    'Set to true if this update results in game over condition (e.g., character death, bad ending reached)',
+                    'Set to true if this update results in game over condition (e.g., character death, bad ending reached). The game is then marked as ended and gameplay tools reject further calls.',
                 },
                 gameOverReason: {
                   type: 'string',
@@ -209,201 +611,1952 @@ class RPGMCPServer {
                     'Explanation of why the game ended when isGameOver is true. Should be empathetic and include what could have been done differently.',
                 },
               },
-              required: ['gameId', 'fieldSelector', 'value'],
+              required: ['gameId', 'fieldSelector'],
             },
           },
           {
-            name: 'getGame',
+            name: 'applyUpdates',
             description:
-              'Retrieve the complete current state of a game by its ID. Use this tool anytime to inspect the game state.',
+              'Apply several field updates in one call, all-or-nothing: if any update fails (invalid path, schema violation), none of them are applied. Use this for outcomes that change multiple fields at once (e.g. a combat result). Supports the same isGameOver/gameOverReason flags as updateGame.',
             inputSchema: {
               type: 'object',
               properties: {
                 gameId: {
                   type: 'string',
-                  description: 'ID of the game to retrieve',
+                  description: 'ID of the game to update',
+                },
+                updates: {
+                  type: 'array',
+                  description: 'Updates applied in order, each like an updateGame call',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      fieldSelector: {
+                        type: 'string',
+                        description: "Path to the field to update, e.g. 'characters[0].hp'",
+                      },
+                      operation: {
+                        type: 'string',
+                        enum: UPDATE_OPERATIONS,
+                        description: 'Same operations as updateGame (default "set")',
+                      },
+                      value: {
+                        type: ['string', 'number', 'object', 'array', 'boolean', 'null'],
+                        description: 'Value or operand for the operation',
+                      },
+                    },
+                    required: ['fieldSelector'],
+                  },
+                  minItems: 1,
+                  examples: [
+                    [
+                      { fieldSelector: 'characters[0].hp', operation: 'decrement', value: 15 },
+                      { fieldSelector: 'characters[0].mp', value: 20 },
+                      { fieldSelector: 'world.location', value: 'Ruined Gate' },
+                    ],
+                  ],
+                },
+                isGameOver: {
+                  type: 'boolean',
+                  description:
+                    'Set to true if these updates result in game over condition (e.g., character death, bad ending reached). The game is then marked as ended and gameplay tools reject further calls.',
+                },
+                gameOverReason: {
+                  type: 'string',
+                  description:
+                    'Explanation of why the game ended when isGameOver is true. Should be empathetic and include what could have been done differently.',
                 },
               },
-              required: ['gameId'],
+              required: ['gameId', 'updates'],
             },
           },
           {
-            name: 'progressStory',
+            name: 'rollDice',
             description:
-              'Advance the game narrative and set the current story progress. This tool should be called after createGame or updateGame. Use promptUserActions next to present choices to the user.',
+              "Roll dice on the server with the game's seeded random generator and record the roll in the game's dice history. Use this instead of deciding random outcomes yourself, so risky choices can really fail. Apply the result with updateGame afterwards.",
             inputSchema: {
               type: 'object',
               properties: {
-                gameId: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                notation: {
                   type: 'string',
-                  description: 'ID of the game to progress',
+                  description:
+                    'Standard dice notation: "d20", "2d6+3", "1d8-1", "d%" (d100). Append "!" for exploding dice that re-roll on the maximum, e.g. "3d6!".',
                 },
-                progress: {
+                mode: {
                   type: 'string',
+                  enum: ['normal', 'advantage', 'disadvantage'],
                   description:
-                    'Description of the current story progress or event. Should describe what happens next in the narrative.',
+                    'advantage rolls twice and keeps the higher total, disadvantage keeps the lower (default normal)',
+                },
+                reason: {
+                  type: 'string',
+                  description: 'What the roll is for, e.g. "Lockpicking the vault door"',
                 },
               },
-              required: ['gameId', 'progress'],
+              required: ['gameId', 'notation'],
             },
           },
           {
-            name: 'promptUserActions',
-            description: `Present the user with 2-4 meaningful action options that MIX POSITIVE AND NEGATIVE OUTCOMES for dynamic, engaging gameplay. Each option should offer distinct consequences and risk/reward tradeoffs. This tool should be called after progressStory to complete the story cycle and wait for user input. Use selectAction next after the user selects an option.
-
-IMPORTANT: Create options that vary in approach and consequences:
-- Include both favorable and unfavorable outcome possibilities
-- Offer cautious vs risky strategies
-- Provide different character alignment choices
-- Ensure options feel contextually relevant to the current situation`,
+            name: 'startEncounter',
+            description:
+              "Start turn-based combat. The server rolls initiative for the party and the enemies, then plays enemy turns until it is a party member's turn. Party members are characters with a positive hp; their AC comes from characters[i].ac (default 10) and their str/dex modifiers from characters[i].stats. HP changes are written to characters[i].hp and shown to the player as changes.",
             inputSchema: {
               type: 'object',
               properties: {
-                gameId: {
-                  type: 'string',
-                  description: 'ID of the game to prompt',
+                gameId: { type: 'string', description: 'ID of the game' },
+                enemies: {
+                  type: 'array',
+                  description:
+                    'Enemy stat blocks. Duplicate names are numbered (Goblin 1, Goblin 2)',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      hp: { type: 'number' },
+                      ac: { type: 'number', description: 'Armor class to hit' },
+                      initiativeBonus: { type: 'integer' },
+                      attacks: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            name: { type: 'string', description: 'e.g. "Scimitar"' },
+                            toHit: {
+                              type: 'integer',
+                              description: 'Bonus added to the d20 attack roll',
+                            },
+                            damage: { type: 'string', description: 'Damage dice, e.g. "1d6+2"' },
+                          },
+                          required: ['name', 'toHit', 'damage'],
+                        },
+                      },
+                    },
+                    required: ['name', 'hp', 'ac', 'attacks'],
+                  },
                 },
-                options: {
+                party: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: `List of 2-4 action options with mixed positive/negative consequences. Each option should:
-- React to the current story situation
-- Have distinct potential outcomes (some favorable, some risky/unfavorable)
-- Range from cautious to daring approaches
-- Align with character abilities and game state
-
-Example: ["Approach the stranger cautiously and chat (might gather info or be deceived)", "Attack preemptively (risky but decisive)", "Search for another route (safer but takes time)", "Hide and observe (tactical but limits information)"]`,
-                  minItems: 2,
-                  maxItems: 4,
+                  description:
+                    'Names of the characters who fight (default: every character with a positive hp)',
                 },
               },
-              required: ['gameId', 'options'],
+              required: ['gameId', 'enemies'],
             },
           },
           {
-            name: 'selectAction',
+            name: 'combatAction',
             description:
-              "Process the user's selected action from the UI and continue the game flow. This tool should be called after promptUserActions when the user makes a selection. Use updateGame next to reflect the result of the action.",
+              "Resolve the current party member's combat action on the server (attack rolls, damage, deaths), then play enemy turns until the next party turn. If the whole party falls, the game ends automatically.",
             inputSchema: {
               type: 'object',
               properties: {
                 gameId: { type: 'string', description: 'ID of the game' },
-                selectedOption: { type: 'string', description: 'The option text user selected' },
-                selectedIndex: {
+                action: {
+                  type: 'string',
+                  enum: ['attack', 'defend', 'useItem', 'flee'],
+                  description:
+                    'attack: d20 + str modifier vs enemy AC. defend: +2 AC until the next turn. useItem: consume an inventory item to heal. flee: d20 + dex modifier vs DC 12 ends the encounter',
+                },
+                actor: {
+                  type: 'string',
+                  description:
+                    'Name of the acting party member (must be whose turn it is; optional)',
+                },
+                target: {
+                  type: 'string',
+                  description:
+                    'attack: enemy name (default: first standing enemy). useItem: party member to heal (default: the actor)',
+                },
+                damage: {
+                  type: 'string',
+                  description: 'attack: weapon damage dice, str modifier is added (default "1d6")',
+                },
+                item: { type: 'string', description: 'useItem: inventory item name' },
+                healing: {
+                  type: ['string', 'number'],
+                  description: 'useItem: HP restored, as a number or dice notation like "2d4+2"',
+                },
+              },
+              required: ['gameId', 'action'],
+            },
+          },
+          {
+            name: 'endEncounter',
+            description:
+              'End the current encounter and clear the combat state. Call this after a victory or escape, or to stop a fight for story reasons (e.g. the enemies surrender).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'addItem',
+            description:
+              'Add an item to an inventory. Items with the same id or name are stacked instead of duplicated. Fails if the inventory would exceed its inventoryLimits (maxWeight, maxSlots). Use this instead of rewriting the inventory array with updateGame.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                item: {
+                  type: 'object',
+                  description:
+                    'Item to add, e.g. {"name": "Healing Potion", "type": "potion", "weight": 0.5}',
+                  properties: {
+                    name: { type: 'string' },
+                    id: {
+                      type: 'string',
+                      description: 'Optional id to tell apart items with the same name',
+                    },
+                    type: { type: 'string' },
+                    weight: { type: 'number', description: 'Weight of one item' },
+                    slot: { type: 'string', description: 'Equipment slot, e.g. "weapon"' },
+                  },
+                  required: ['name'],
+                },
+                quantity: {
                   type: 'number',
-                  description: 'Index of selected option (0-based)',
+                  description: 'Number of items to add (default: item.quantity or 1)',
+                },
+                owner: {
+                  type: 'string',
+                  description:
+                    'Character name whose personal inventory to use (default: the shared inventory, also called "party")',
                 },
               },
-              required: ['gameId', 'selectedOption', 'selectedIndex'],
+              required: ['gameId', 'item'],
             },
           },
           {
-            name: 'selectRestart',
+            name: 'removeItem',
             description:
-              'Restart the game after game over. Retrieves final game state summary and instructs to create a new game. This should be called when the player clicks the Restart button on the Game Over screen.',
+              'Remove items from an inventory (sold, lost, stolen). Removing more than the inventory holds is an error; a stack that reaches 0 is removed.',
             inputSchema: {
               type: 'object',
               properties: {
-                gameId: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                item: {
                   type: 'string',
-                  description: 'ID of the ended game',
+                  description: 'Item name (case-insensitive) or id',
+                },
+                quantity: {
+                  type: 'number',
+                  description: 'Number of items to remove (default 1)',
+                },
+                owner: {
+                  type: 'string',
+                  description:
+                    'Character name whose personal inventory to use (default: the shared inventory, also called "party")',
                 },
               },
-              required: ['gameId'],
+              required: ['gameId', 'item'],
             },
           },
-        ],
-      };
-    });
-  }
-
-  /**
-   * Format a human-readable response for AI agent
-   */
-  private formatToolResponse(
-    toolName: string,
-    status: 'success' | 'error',
-    summary: string,
-    gameContext: {
-      gameId: string;
-      title?: string;
-      keyState?: string[];
-    },
-    actionTaken: string,
-    nextStep: {
-      tool: string;
-      reason: string;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      params: Record<string, any>;
-    } | null,
-    workflowPosition: string,
-    additionalNotes?: string[]
-  ): string {
-    const statusEmoji = status === 'success' ? '✅' : '❌';
-
-    let response = `${statusEmoji} ${toolName} ${status === 'success' ? 'Completed Successfully' : 'Failed'}\n\n`;
-
-    response += `📋 Game Context:\n`;
-    response += `- Game ID: ${gameContext.gameId}\n`;
-    if (gameContext.title) response += `- Title: ${gameContext.title}\n`;
-    if (gameContext.keyState) {
-      gameContext.keyState.forEach(state => (response += `- ${state}\n`));
-    }
-    response += `\n`;
-
-    response += `📝 What Happened:\n${actionTaken}\n\n`;
-
-    if (nextStep) {
-      response += `🎯 Next Step:\n`;
-      response += `Call the '${nextStep.tool}' tool with these parameters:\n`;
-      Object.entries(nextStep.params).forEach(([key, value]) => {
-        response += `- ${key}: ${JSON.stringify(value)}\n`;
-      });
-      response += `\nReason: ${nextStep.reason}\n\n`;
-    } else {
-      response += `⏸️ Status:\nWaiting for user input. No action required until player makes a selection.\n\n`;
-    }
-
-    response += `💡 Workflow: ${workflowPosition}\n`;
-
-    if (additionalNotes && additionalNotes.length > 0) {
-      response += `\n📌 Additional Notes:\n`;
-      additionalNotes.forEach(note => (response += `- ${note}\n`));
-    }
-
-    return response;
-  }
-
-  private async handleCreateGame(params: CreateGameParams): Promise<CallToolResult> {
-    if (!params.initialStateInJson) {
-      throw new Error('initialStateInJson parameter is required');
+          {
+            name: 'useItem',
+            description:
+              'Consume items from an inventory (drink a potion, light a torch). Works like removeItem but the change reads as "used". If the item has a catalog effect (see defineItems), it is applied to the target character automatically; otherwise apply the effect with updateGame afterwards.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                item: {
+                  type: 'string',
+                  description: 'Item name (case-insensitive) or id',
+                },
+                quantity: {
+                  type: 'number',
+                  description: 'Number of items to use (default 1)',
+                },
+                owner: {
+                  type: 'string',
+                  description:
+                    'Character name whose personal inventory to use (default: the shared inventory, also called "party")',
+                },
+                target: {
+                  type: 'string',
+                  description:
+                    'Character who receives the item effect (default: the owner, or the only character)',
+                },
+              },
+              required: ['gameId', 'item'],
+            },
+          },
+          {
+            name: 'defineItems',
+            description:
+              'Add item definitions to the game catalog (same name replaces the old definition). Definitions give items stat modifiers while equipped (e.g. Iron Sword: attack +5) and effects when used (e.g. Healing Potion: restore 30 hp). Character stats are then computed as base + equipment + active effects.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                items: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      type: { type: 'string' },
+                      slot: { type: 'string', description: 'Equipment slot, e.g. "weapon"' },
+                      weight: { type: 'number' },
+                      description: { type: 'string' },
+                      modifiers: {
+                        type: 'object',
+                        additionalProperties: { type: 'number' },
+                        description: 'Stat bonuses while equipped, e.g. {"attack": 5, "ac": 2}',
+                      },
+                      damage: {
+                        type: 'string',
+                        description: 'Weapon damage dice used by combatAction, e.g. "1d8"',
+                      },
+                      effect: {
+                        type: 'object',
+                        description:
+                          'Consumable effect applied by useItem, e.g. {"restore": {"hp": 30}} or {"modifiers": {"str": 2}}',
+                        properties: {
+                          restore: {
+                            type: 'object',
+                            additionalProperties: { type: ['number', 'string'] },
+                          },
+                          modifiers: { type: 'object', additionalProperties: { type: 'number' } },
+                          duration: {
+                            type: 'number',
+                            description:
+                              'Turns the modifiers/perTurn last (default: until removed)',
+                          },
+                          perTurn: {
+                            type: 'object',
+                            additionalProperties: { type: 'number' },
+                            description:
+                              'Change applied every turn, e.g. {"hp": 5} for regeneration',
+                          },
+                        },
+                      },
+                    },
+                    required: ['name'],
+                  },
+                },
+              },
+              required: ['gameId', 'items'],
+            },
+          },
+          {
+            name: 'addStatusEffect',
+            description:
+              'Put a timed condition on a character (poisoned, blessed, exhausted). The server applies perTurn changes and counts down the duration every time selectAction completes a turn, and removes the effect when it runs out. Ticks and expirations are shown to the player as changes. An effect with the same name is replaced.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                character: { type: 'string', description: 'Character name (case-insensitive)' },
+                name: { type: 'string', description: 'Effect name, e.g. "Poisoned"' },
+                duration: {
+                  type: 'number',
+                  description:
+                    'Number of turns the effect lasts (omit for an effect that lasts until removed)',
+                },
+                perTurn: {
+                  type: 'object',
+                  additionalProperties: { type: 'number' },
+                  description: 'Change applied every turn, e.g. {"hp": -5}',
+                },
+                modifiers: {
+                  type: 'object',
+                  additionalProperties: { type: 'number' },
+                  description: 'Stat modifiers while active, e.g. {"str": -2}',
+                },
+                source: { type: 'string', description: 'What caused the effect' },
+              },
+              required: ['gameId', 'character', 'name'],
+            },
+          },
+          {
+            name: 'removeStatusEffect',
+            description:
+              'Remove a status effect early (cured, dispelled). Effects with a duration expire on their own.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                character: { type: 'string', description: 'Character name (case-insensitive)' },
+                name: { type: 'string', description: 'Effect name (case-insensitive)' },
+              },
+              required: ['gameId', 'character', 'name'],
+            },
+          },
+          {
+            name: 'defineLocation',
+            description:
+              'Add a place to the world map, or update its description. Use here: true to put the party there. Places must be on the map before travelTo can reach them.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                name: { type: 'string', description: 'Location name, e.g. "초보자마을"' },
+                description: { type: 'string', description: 'What the place looks like' },
+                tags: { type: 'array', items: { type: 'string' } },
+                here: {
+                  type: 'boolean',
+                  description: 'Set world.location to this place (use for the starting location)',
+                },
+              },
+              required: ['gameId', 'name'],
+            },
+          },
+          {
+            name: 'connectLocations',
+            description:
+              'Connect two places with a path that can be traveled both ways (or one way). A path can cost time slots (games with a calendar), numeric state fields such as gold, and party inventory items. Connecting the same two places again replaces the path.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                from: { type: 'string', description: 'Location name' },
+                to: { type: 'string', description: 'Location name' },
+                oneWay: {
+                  type: 'boolean',
+                  description: 'Only allow travel from → to (e.g. a cliff jump)',
+                },
+                time: { type: 'integer', description: 'Time slots the trip takes' },
+                cost: {
+                  type: 'object',
+                  additionalProperties: { type: 'number' },
+                  description:
+                    'Numeric fields spent on the trip, by field selector, e.g. {"자원.골드": 10}',
+                },
+                items: {
+                  type: 'object',
+                  additionalProperties: { type: 'number' },
+                  description: 'Items used from the shared inventory, e.g. {"Torch": 1}',
+                },
+                description: { type: 'string', description: 'What the path is like' },
+              },
+              required: ['gameId', 'from', 'to'],
+            },
+          },
+          {
+            name: 'travelTo',
+            description:
+              'Move the party to a place connected to the current world.location. The server checks the path exists, spends its costs, advances the clock and updates world.location. Use this instead of updateGame on world.location.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                destination: { type: 'string', description: 'Name of a connected location' },
+              },
+              required: ['gameId', 'destination'],
+            },
+          },
+          {
+            name: 'setCalendar',
+            description:
+              'Give the game a calendar: days, time-of-day slots and an optional deadline. Replaces any existing calendar and resets the clock to its start. world.time is then kept by the server.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                ...calendarProperties,
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'advanceTime',
+            description:
+              'Move the in-game clock forward for time that passes in the story (sleeping, travel, waiting). Days roll over automatically. Reaching the deadline ends the game. Selected options advance time by themselves when they have a time cost.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                slots: { type: 'integer', description: 'Number of time slots to pass' },
+                days: { type: 'integer', description: 'Number of whole days to pass' },
+                toSlot: {
+                  type: 'string',
+                  description: 'Pass time until the next occurrence of this slot, e.g. "Morning"',
+                },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'adjustRelationship',
+            description:
+              'Change how one character feels about another (affinity from -100 to 100). Relationships are directed: Sakura → Hero can differ from Hero → Sakura. When affinity crosses a tier threshold (e.g. Neutral → Friendly), a relationship event is returned and shown to the player - narrate it.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                from: {
+                  type: 'string',
+                  description: 'Character who has the feeling (name or id)',
+                },
+                to: {
+                  type: 'string',
+                  description: 'Character the feeling is about (name or id)',
+                },
+                amount: {
+                  type: 'number',
+                  description: 'Amount to add, e.g. 10 or -5',
+                },
+                value: {
+                  type: 'number',
+                  description: 'Set the affinity to this value instead of adding',
+                },
+                mutual: {
+                  type: 'boolean',
+                  description: 'Apply the same change in the other direction too',
+                },
+              },
+              required: ['gameId', 'from', 'to'],
+            },
+          },
+          {
+            name: 'defineRelationshipTiers',
+            description:
+              'Replace the named relationship tiers. Each tier starts at its min affinity. An optional event describes what happens the first time a relationship rises into the tier. Default tiers: Hostile (-100), Unfriendly (-50), Neutral (-10), Friendly (20), Close (50), Devoted (80).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                tiers: relationshipTiersSchema,
+              },
+              required: ['gameId', 'tiers'],
+            },
+          },
+          {
+            name: 'addQuest',
+            description:
+              'Start a quest so multi-step goals are not forgotten. Objectives are checklist items ("Open the gate") or counters ({"description": "Keys found", "target": 3}). Active quests are shown to the player in a quest panel.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                title: { type: 'string', description: 'Quest title, e.g. "Find the three keys"' },
+                id: {
+                  type: 'string',
+                  description: 'Optional short id (default: made from the title)',
+                },
+                description: { type: 'string' },
+                objectives: {
+                  type: 'array',
+                  description:
+                    'Objectives: a string for a checklist item, or {"id", "description", "target"} for a counter',
+                  items: {
+                    anyOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          description: { type: 'string' },
+                          target: { type: 'number', description: 'Count needed to finish' },
+                        },
+                        required: ['description'],
+                      },
+                    ],
+                  },
+                },
+                reward: { type: 'string', description: 'Reward shown when the quest is completed' },
+              },
+              required: ['gameId', 'title'],
+            },
+          },
+          {
+            name: 'updateObjective',
+            description:
+              'Record progress on a quest objective. Counters take progress (absolute) or increment (default +1) and are capped at the target. Checklist items take done (default true).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                quest: { type: 'string', description: 'Quest id or title' },
+                objective: {
+                  type: 'string',
+                  description: 'Objective id (e.g. "1") or description',
+                },
+                progress: { type: 'number', description: 'New counter value' },
+                increment: { type: 'number', description: 'Amount to add to the counter' },
+                done: { type: 'boolean', description: 'Mark a checklist item done or not done' },
+              },
+              required: ['gameId', 'quest', 'objective'],
+            },
+          },
+          {
+            name: 'completeQuest',
+            description:
+              'Mark a quest as completed. The completion (and reward) is shown to the player as a change. Grant the reward separately (addItem, updateGame).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                quest: { type: 'string', description: 'Quest id or title' },
+              },
+              required: ['gameId', 'quest'],
+            },
+          },
+          {
+            name: 'failQuest',
+            description:
+              'Mark a quest as failed, e.g. when the deadline passed or the target died.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                quest: { type: 'string', description: 'Quest id or title' },
+                reason: { type: 'string', description: 'Why the quest failed' },
+              },
+              required: ['gameId', 'quest'],
+            },
+          },
+          {
+            name: 'equipItem',
+            description:
+              'Equip an item in a slot (or unequip it). An item already equipped in the same slot is unequipped. From a stack, one item is split off and equipped.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                item: {
+                  type: 'string',
+                  description: 'Item name (case-insensitive) or id',
+                },
+                owner: {
+                  type: 'string',
+                  description:
+                    'Character name whose personal inventory to use (default: the shared inventory, also called "party")',
+                },
+                slot: {
+                  type: 'string',
+                  description: 'Slot to equip into (default: the item slot or type)',
+                },
+                unequip: { type: 'boolean', description: 'Set to true to unequip the item' },
+              },
+              required: ['gameId', 'item'],
+            },
+          },
+          {
+            name: 'transferItem',
+            description:
+              'Move items between inventories: the shared inventory ("party") and characters\' personal inventories. The receiving inventory limits are enforced.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                item: {
+                  type: 'string',
+                  description: 'Item name (case-insensitive) or id',
+                },
+                from: { type: 'string', description: 'Character name or "party"' },
+                to: { type: 'string', description: 'Character name or "party"' },
+                quantity: {
+                  type: 'number',
+                  description: 'Number of items to move (default 1)',
+                },
+              },
+              required: ['gameId', 'item', 'from', 'to'],
+            },
+          },
+          {
+            name: 'getGame',
+            description:
+              'Retrieve the complete current state of a game by its ID. Use this tool anytime to inspect the game state.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: {
+                  type: 'string',
+                  description: 'ID of the game to retrieve',
+                },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'progressStory',
+            description:
+              'Advance the game narrative and set the current story progress. This tool should be called after createGame or updateGame. Use promptUserActions next to present choices to the user.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: {
+                  type: 'string',
+                  description: 'ID of the game to progress',
+                },
+                progress: {
+                  type: 'string',
+                  description:
+                    'Description of the current story progress or event. Should describe what happens next in the narrative.',
+                },
+              },
+              required: ['gameId', 'progress'],
+            },
+          },
+          {
+            name: 'promptUserActions',
+            description: `Present the user with 2-4 meaningful action options that MIX POSITIVE AND NEGATIVE OUTCOMES for dynamic, engaging gameplay. Each option should offer distinct consequences and risk/reward tradeoffs. This tool should be called after progressStory to complete the story cycle and wait for user input. Use selectAction next after the user selects an option.
+
+IMPORTANT: Create options that vary in approach and consequences:
+- Include both favorable and unfavorable outcome possibilities
+- Offer cautious vs risky strategies
+- Provide different character alignment choices
+- Ensure options feel contextually relevant to the current situation`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: {
+                  type: 'string',
+                  description: 'ID of the game to prompt',
+                },
+                options: {
+                  type: 'array',
+                  items: {
+                    anyOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        description:
+                          'Structured option whose risk is resolved by the server with a skill check when selected, and/or that takes in-game time',
+                        properties: {
+                          text: { type: 'string', description: 'Option text shown to the player' },
+                          time: {
+                            type: 'integer',
+                            description:
+                              'Time slots this action takes (games with a calendar). The server advances the clock when it is selected.',
+                          },
+                          check: {
+                            type: 'object',
+                            properties: {
+                              stat: {
+                                type: 'string',
+                                description:
+                                  "Field selector of the numeric stat to test, e.g. 'characters[0].stats.str'",
+                              },
+                              dc: { type: 'number', description: 'Difficulty class to beat' },
+                              dice: {
+                                type: 'string',
+                                description: 'Dice to roll (default "1d20")',
+                              },
+                              mode: {
+                                type: 'string',
+                                enum: ['normal', 'advantage', 'disadvantage'],
+                              },
+                              modifierMode: {
+                                type: 'string',
+                                enum: ['ability', 'raw'],
+                                description:
+                                  'ability (default): add (stat - 10) / 2 rounded down, like D&D ability scores. raw: add the stat value as-is',
+                              },
+                            },
+                            required: ['stat', 'dc'],
+                          },
+                        },
+                        required: ['text'],
+                      },
+                    ],
+                  },
+                  description: `List of 2-4 action options with mixed positive/negative consequences. Each option should:
+- React to the current story situation
+- Have distinct potential outcomes (some favorable, some risky/unfavorable)
+- Range from cautious to daring approaches
+- Align with character abilities and game state
+
+Example: ["Approach the stranger cautiously and chat (might gather info or be deceived)", "Attack preemptively (risky but decisive)", "Search for another route (safer but takes time)", "Hide and observe (tactical but limits information)"]
+
+Risky options can carry a skill check that the server resolves when selected (success, partial or failure): {"text": "Attack preemptively (risky but decisive)", "check": {"stat": "characters[0].stats.str", "dc": 15}}`,
+                  minItems: 2,
+                  maxItems: 4,
+                },
+                allowCustom: {
+                  type: 'boolean',
+                  description:
+                    'Show a text box where the player can type their own action instead of picking an option (default true). Set false for forced choices.',
+                },
+              },
+              required: ['gameId', 'options'],
+            },
+          },
+          {
+            name: 'selectAction',
+            description:
+              "Process the user's selected action from the UI and continue the game flow. This tool should be called after promptUserActions when the user makes a selection. Use updateGame next to reflect the result of the action.",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                selectedOption: { type: 'string', description: 'The option text user selected' },
+                selectedIndex: {
+                  type: 'number',
+                  description: 'Index of selected option (0-based), or -1 for a custom action',
+                },
+                custom: {
+                  type: 'boolean',
+                  description: `True when selectedOption is an action the player typed instead of a presented option (at most ${MAX_CUSTOM_ACTION_LENGTH} characters)`,
+                },
+                promptId: {
+                  type: 'string',
+                  description:
+                    'ID of the prompt being answered, issued by promptUserActions. Selections for an older prompt, or a second selection for the same prompt, are rejected.',
+                },
+              },
+              required: ['gameId', 'selectedOption', 'selectedIndex', 'promptId'],
+            },
+          },
+          {
+            name: 'selectRestart',
+            description:
+              'Restart the game after game over. Retrieves final game state summary with the recorded outcome and instructs to create a new game. This should be called when the player clicks the Restart button on the Game Over screen. Calling it on a game that has not ended marks it as abandoned.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: {
+                  type: 'string',
+                  description: 'ID of the ended game',
+                },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'saveGame',
+            description:
+              'Save the complete current game state (story, presented options, history) under a player-chosen label, e.g. "before the boss fight". Saving with an existing label overwrites that slot.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game to save' },
+                label: {
+                  type: 'string',
+                  description: 'Name of the save slot (max 60 characters)',
+                },
+              },
+              required: ['gameId', 'label'],
+            },
+          },
+          {
+            name: 'listSaves',
+            description: 'List all save slots of a game with their labels and save times.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'loadSave',
+            description:
+              'Restore the game to the state stored in a save slot. If the save was made while the player was choosing an action, the action UI is shown again so the player can continue right there.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                label: { type: 'string', description: 'Label of the save slot to load' },
+              },
+              required: ['gameId', 'label'],
+            },
+          },
+          {
+            name: 'deleteSave',
+            description: 'Delete a save slot from a game.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                label: { type: 'string', description: 'Label of the save slot to delete' },
+              },
+              required: ['gameId', 'label'],
+            },
+          },
+          {
+            name: 'undoLastTurn',
+            description:
+              'Undo the most recent player choice (e.g. a misclick) and return to the moment the options were presented. All state changes made after that choice are discarded and the action UI is shown again.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'rewindToTurn',
+            description:
+              'Rewind the game to the state just before the choice of a given turn in the game history. Later turns are discarded and the action UI for that turn is shown again. Only the last 10 turns can be restored.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game' },
+                turnIndex: {
+                  type: 'number',
+                  description: 'Turn number of the history entry to rewind to (0-based)',
+                },
+              },
+              required: ['gameId', 'turnIndex'],
+            },
+          },
+          {
+            name: 'forkGame',
+            description:
+              'Create a "what if" branch of a game as a new game with its own gameId. Without turnIndex the fork starts from the current state; with turnIndex it starts just before the choice of that history turn so a different option can be explored. The original game is not changed.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of the game to fork' },
+                turnIndex: {
+                  type: 'number',
+                  description:
+                    'Optional turn number of the history entry to branch from (0-based, last 10 turns only)',
+                },
+              },
+              required: ['gameId'],
+            },
+          },
+          {
+            name: 'listTimelines',
+            description:
+              'Show the tree of all forks that share a root game with the given game, so the player can compare branches.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                gameId: { type: 'string', description: 'ID of any game in the timeline tree' },
+              },
+              required: ['gameId'],
+            },
+          },
+        ],
+      };
+    });
+  }
+
+  /**
+   * Format a human-readable response for AI agent
+   */
+  private formatToolResponse(
+    toolName: string,
+    status: 'success' | 'error',
+    summary: string,
+    gameContext: {
+      gameId: string;
+      title?: string;
+      keyState?: string[];
+    },
+    actionTaken: string,
+    nextStep: {
+      tool: string;
+      reason: string;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      params: Record<string, any>;
+    } | null,
+    workflowPosition: string,
+    additionalNotes?: string[]
+  ): string {
+    const statusEmoji = status === 'success' ? '✅' : '❌';
+
+    let response = `${statusEmoji} ${toolName} ${status === 'success' ? 'Completed Successfully' : 'Failed'}\n\n`;
+
+    response += `📋 Game Context:\n`;
+    response += `- Game ID: ${gameContext.gameId}\n`;
+    if (gameContext.title) response += `- Title: ${gameContext.title}\n`;
+    if (gameContext.keyState) {
+      gameContext.keyState.forEach(state => (response += `- ${state}\n`));
+    }
+    response += `\n`;
+
+    response += `📝 What Happened:\n${actionTaken}\n\n`;
+
+    if (nextStep) {
+      response += `🎯 Next Step:\n`;
+      response += `Call the '${nextStep.tool}' tool with these parameters:\n`;
+      Object.entries(nextStep.params).forEach(([key, value]) => {
+        response += `- ${key}: ${JSON.stringify(value)}\n`;
+      });
+      response += `\nReason: ${nextStep.reason}\n\n`;
+    } else {
+      response += `⏸️ Status:\nWaiting for user input. No action required until player makes a selection.\n\n`;
+    }
+
+    response += `💡 Workflow: ${workflowPosition}\n`;
+
+    if (additionalNotes && additionalNotes.length > 0) {
+      response += `\n📌 Additional Notes:\n`;
+      additionalNotes.forEach(note => (response += `- ${note}\n`));
+    }
+
+    return response;
+  }
+
+  /**
+   * createGame에 지정된 상태 스키마 설명
+   */
+  private describeStateSchema(schema: CreateGameParams['stateSchema']): string {
+    if (!schema) {
+      return 'none (any update accepted)';
+    }
+    return typeof schema === 'string' ? `built-in "${schema}"` : 'custom JSON Schema';
+  }
+
+  private async handleCreateGame(params: CreateGameParams): Promise<CallToolResult> {
+    if (!params.initialStateInJson) {
+      throw new Error('initialStateInJson parameter is required');
+    }
+    if (params.theme !== undefined && !this.templates.hasTheme(params.theme)) {
+      throw new Error(
+        `Unknown theme "${params.theme}". Available themes: ${this.templates
+          .listThemes()
+          .map(theme => theme.name)
+          .join(', ')}`
+      );
+    }
+    const result = this.gameManager.createGame(params.initialStateInJson, {
+      stateSchema: params.stateSchema,
+      seed: params.seed,
+      itemCatalog: params.itemCatalog,
+      relationshipTiers: params.relationshipTiers,
+      calendar: params.calendar,
+      endConditions: params.endConditions,
+      theme: params.theme,
+      locale: params.locale,
+    });
+
+    const responseText = this.formatToolResponse(
+      'createGame',
+      'success',
+      `New game created with ID: ${result.game.gameId}`,
+      {
+        gameId: result.game.gameId,
+        title: result.game.state.title,
+        keyState: [
+          `Characters: ${result.game.state.characters?.length || 0}`,
+          `Location: ${result.game.state.world?.location || 'Unknown'}`,
+          `Created: ${result.game.createdAt.toISOString()}`,
+          `State schema: ${this.describeStateSchema(params.stateSchema)}`,
+          `Random seed: ${result.game.rngSeed}`,
+          `Item definitions: ${Object.keys(result.game.state._itemCatalog ?? {}).length}`,
+          ...this.describeClock(result.game.state._clock),
+          `End conditions: ${result.game.state._endConditions?.length ?? 0}`,
+          `UI theme: ${result.game.state._theme ?? DEFAULT_THEME}`,
+          `UI locale: ${getLocale(result.game.state)}`,
+        ],
+      },
+      `Initialized game world with provided state including characters, world settings, and inventory.`,
+      {
+        tool: 'progressStory',
+        reason:
+          'Begin the narrative by describing the opening scene and establishing story context',
+        params: {
+          gameId: result.game.gameId,
+          progress: 'Describe the opening situation, setting, and initial scenario for the player',
+        },
+      },
+      'Step 1/5: [createGame] → progressStory → promptUserActions → selectAction → updateGame'
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleUpdateGame(params: UpdateGameParams): Promise<CallToolResult> {
+    const operation = params.operation ?? 'set';
+    if (
+      !params.gameId ||
+      !params.fieldSelector ||
+      (params.value === undefined && operation !== 'delete')
+    ) {
+      throw new Error('gameId, fieldSelector, and value parameters are required');
+    }
+    const result = this.gameManager.updateGame(
+      params.gameId,
+      params.fieldSelector,
+      params.value,
+      operation
+    );
+
+    // 연산 적용 후의 실제 값 (선택자가 여러 항목과 일치하면 값 배열)
+    const deltas = result.game.state._pendingDeltas || [];
+    const newValue =
+      operation === 'delete'
+        ? '(deleted)'
+        : JSON.stringify(
+            getNestedValue(result.game.state, params.fieldSelector.replace(/^game\./, ''))
+          );
+
+    // Game Over 처리
+    if (params.isGameOver && params.gameOverReason) {
+      return this.createGameOverResult(
+        'updateGame',
+        params.gameId,
+        params.gameOverReason,
+        result.game.state,
+        [`Updated field: ${params.fieldSelector}`, `Final value: ${newValue}`]
+      );
+    }
+
+    // 정상 진행
+    const deltaDescriptions = deltas.map(d => d.description).join('; ');
+
+    const responseText = this.formatToolResponse(
+      'updateGame',
+      'success',
+      operation === 'set'
+        ? `Updated ${params.fieldSelector} to ${newValue}`
+        : `Applied ${operation} to ${params.fieldSelector} (now ${newValue})`,
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          `Updated field: ${params.fieldSelector}`,
+          `New value: ${newValue}`,
+          `Pending changes: ${deltas.length}`,
+        ],
+      },
+      `Game state modified. Changes: ${deltaDescriptions || 'State updated'}`,
+      {
+        tool: 'progressStory',
+        reason: 'Narrate the consequences and outcomes of this state change in the story',
+        params: {
+          gameId: params.gameId,
+          progress: `Describe how the change to ${params.fieldSelector} affects the game world, characters, and situation`,
+        },
+      },
+      'Step 5/5: createGame → progressStory → promptUserActions → selectAction → updateGame → [progressStory]',
+      [
+        'Use applyUpdates to apply multiple changes at once (all-or-nothing)',
+        'Call progressStory after all updates to narrate the cumulative results',
+        `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleApplyUpdates(params: ApplyUpdatesParams): Promise<CallToolResult> {
+    if (!params.gameId || !Array.isArray(params.updates)) {
+      throw new Error('gameId and updates parameters are required');
+    }
+    const result = this.gameManager.applyUpdates(params.gameId, params.updates);
+    const updatedFields = params.updates.map(u => u.fieldSelector);
+
+    // Game Over 처리
+    if (params.isGameOver && params.gameOverReason) {
+      return this.createGameOverResult(
+        'applyUpdates',
+        params.gameId,
+        params.gameOverReason,
+        result.game.state,
+        [`Updated fields: ${updatedFields.join(', ')}`]
+      );
+    }
+
+    const deltas = result.game.state._pendingDeltas || [];
+    const deltaDescriptions = deltas.map(d => d.description).join('; ');
+
+    const responseText = this.formatToolResponse(
+      'applyUpdates',
+      'success',
+      `Applied ${params.updates.length} update(s)`,
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          `Updated fields: ${updatedFields.join(', ')}`,
+          `Pending changes: ${deltas.length}`,
+        ],
+      },
+      `All ${params.updates.length} updates were applied together. Changes: ${deltaDescriptions || 'State updated'}`,
+      {
+        tool: 'progressStory',
+        reason: 'Narrate the consequences and outcomes of these state changes in the story',
+        params: {
+          gameId: params.gameId,
+          progress: 'Describe how these changes affect the game world, characters, and situation',
+        },
+      },
+      'Step 5/5: createGame → progressStory → promptUserActions → selectAction → applyUpdates → [progressStory]',
+      [
+        'Updates are atomic: a failed batch leaves the game unchanged',
+        `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleRollDice(params: RollDiceParams): Promise<CallToolResult> {
+    if (!params.gameId || typeof params.notation !== 'string') {
+      throw new Error('gameId and notation parameters are required');
+    }
+    const mode = params.mode ?? 'normal';
+    if (!DICE_ROLL_MODES.includes(mode)) {
+      throw new Error(`mode must be one of: ${DICE_ROLL_MODES.join(', ')}`);
+    }
+    const { game, roll } = this.gameManager.rollDice(
+      params.gameId,
+      params.notation,
+      mode,
+      params.reason
+    );
+
+    const responseText = this.formatToolResponse(
+      'rollDice',
+      'success',
+      `Rolled ${roll.notation}: ${roll.total}`,
+      {
+        gameId: params.gameId,
+        title: game.state.title,
+        keyState: [
+          `Roll: ${describeRoll(roll)}`,
+          ...(roll.reason ? [`Reason: ${roll.reason}`] : []),
+          `Recorded rolls: ${game.state._diceRolls?.length || 0}`,
+        ],
+      },
+      `🎲 ${describeRoll(roll)}`,
+      {
+        tool: 'updateGame',
+        reason: 'Apply the outcome decided by this roll to the game state',
+        params: {
+          gameId: params.gameId,
+          fieldSelector: 'Field affected by the roll outcome',
+          value: 'Value based on the roll result',
+        },
+      },
+      'Dice roll → updateGame → progressStory',
+      [
+        'The roll is final - narrate the outcome it produced, even if it is a failure',
+        `Total: ${roll.total}`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleStartEncounter(params: StartEncounterParams): Promise<CallToolResult> {
+    if (!params.gameId || !Array.isArray(params.enemies)) {
+      throw new Error('gameId and enemies parameters are required');
+    }
+    const result = this.gameManager.startEncounter(params.gameId, params.enemies, params.party);
+    return this.createCombatResult(
+      'startEncounter',
+      params.gameId,
+      result,
+      `Combat started against ${result.encounter.enemies.map(e => e.name).join(', ')}`
+    );
+  }
+
+  private async handleCombatAction(params: CombatActionParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.action) {
+      throw new Error('gameId and action parameters are required');
+    }
+    const { gameId, ...request } = params;
+    const result = this.gameManager.combatAction(gameId, request);
+    return this.createCombatResult(
+      'combatAction',
+      gameId,
+      result,
+      `Resolved ${params.action} (round ${result.encounter.round})`
+    );
+  }
+
+  private async handleEndEncounter(params: EndEncounterParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    const result = this.gameManager.endEncounter(params.gameId);
+
+    const responseText = this.formatToolResponse(
+      'endEncounter',
+      'success',
+      result.log[0],
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          `Outcome: ${result.encounter.status}`,
+          `Rounds: ${result.encounter.round}`,
+          ...describeCombatants(result.game.state, result.encounter),
+        ],
+      },
+      `Combat state cleared. ${result.log[0]}`,
+      {
+        tool: 'progressStory',
+        reason: 'Narrate the aftermath of the fight',
+        params: {
+          gameId: params.gameId,
+          progress: 'Describe the aftermath: injuries, loot, and what happens next',
+        },
+      },
+      'Combat: startEncounter → combatAction → endEncounter → [progressStory]',
+      ['Use updateGame or applyUpdates to grant loot or experience']
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleAddItem(params: AddItemParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.item) {
+      throw new Error('gameId and item parameters are required');
+    }
+    const result = this.gameManager.addItem(
+      params.gameId,
+      params.item,
+      params.quantity,
+      params.owner
+    );
+    return this.createInventoryResult('addItem', params.gameId, result);
+  }
+
+  private async handleRemoveItem(params: RemoveItemParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.item) {
+      throw new Error('gameId and item parameters are required');
+    }
+    const result = this.gameManager.removeItem(
+      params.gameId,
+      params.item,
+      params.quantity,
+      params.owner
+    );
+    return this.createInventoryResult('removeItem', params.gameId, result);
+  }
+
+  private async handleUseItem(params: UseItemParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.item) {
+      throw new Error('gameId and item parameters are required');
+    }
+    const result = this.gameManager.useItem(
+      params.gameId,
+      params.item,
+      params.quantity,
+      params.owner,
+      params.target
+    );
+    const effects = result.effects ?? [];
+    return this.createInventoryResult(
+      'useItem',
+      params.gameId,
+      result,
+      effects.length > 0
+        ? [
+            `Item effect applied: ${effects.map(effect => describeStatChange(effect)).join('; ')}`,
+            'The effect is already in the game state - narrate it, do not apply it again',
+          ]
+        : [
+            `Used item details: ${JSON.stringify(result.item)}`,
+            'Apply the effect of the item (healing, light, ...) with updateGame',
+          ]
+    );
+  }
+
+  private async handleDefineItems(params: DefineItemsParams): Promise<CallToolResult> {
+    if (!params.gameId || !Array.isArray(params.items)) {
+      throw new Error('gameId and items parameters are required');
+    }
+    const result = this.gameManager.defineItems(params.gameId, params.items);
+    const catalog = Object.values(result.game.state._itemCatalog ?? {});
+
+    const responseText = this.formatToolResponse(
+      'defineItems',
+      'success',
+      `Defined ${params.items.length} item(s)`,
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          ...params.items.map(item => `${item.name}: ${this.describeItemDefinition(item)}`),
+          `Catalog size: ${catalog.length}`,
+        ],
+      },
+      'Item definitions saved. Equipped items now modify stats and useItem applies effects.',
+      {
+        tool: 'addItem',
+        reason: 'Give defined items to the party or a character',
+        params: { gameId: params.gameId, item: { name: params.items[0]?.name } },
+      },
+      'defineItems → addItem → equipItem/useItem',
+      ['Definitions are matched to inventory items by name (case-insensitive)']
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  /**
+   * 아이템 정의 요약 (예: "attack +5; restores hp 30")
+   */
+  private describeItemDefinition(item: ItemDefinition): string {
+    const parts: string[] = [];
+    if (item.modifiers) parts.push(`equip: ${describeModifiers(item.modifiers)}`);
+    if (item.damage) parts.push(`damage ${item.damage}`);
+    if (item.effect?.restore) {
+      parts.push(
+        `restores ${Object.entries(item.effect.restore)
+          .map(([stat, amount]) => `${stat} ${amount}`)
+          .join(', ')}`
+      );
+    }
+    if (item.effect?.modifiers || item.effect?.perTurn) {
+      parts.push(`on use: ${describeActiveEffect({ name: item.name, ...item.effect })}`);
+    }
+    return parts.join('; ') || 'no effects';
+  }
+
+  /**
+   * 캐릭터의 실제 능력치 요약 - 보정이 있으면 기본값과 출처를 함께 표시
+   * 예: "attack 20 (base 15, Iron Sword +5), int 60"
+   */
+  private describeEffectiveStats(state: GameState, character: Character): string {
+    return Object.entries(getEffectiveStats(state, character))
+      .map(([stat, value]) =>
+        value.bonus === 0
+          ? `${stat} ${value.effective}`
+          : `${stat} ${value.effective} (base ${value.base}, ${value.sources.join(', ')})`
+      )
+      .join(', ');
+  }
+
+  private async handleAddStatusEffect(params: AddStatusEffectParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.character || !params.name) {
+      throw new Error('gameId, character and name parameters are required');
+    }
+    const result = this.gameManager.addStatusEffect(params.gameId, params.character, {
+      name: params.name,
+      duration: params.duration,
+      perTurn: params.perTurn,
+      modifiers: params.modifiers,
+      source: params.source,
+    });
+    return this.createStatusEffectResult('addStatusEffect', params.gameId, result, [
+      params.duration === undefined
+        ? 'The effect has no duration - remove it with removeStatusEffect when it ends'
+        : `The effect ends by itself after ${params.duration} turn(s)`,
+    ]);
+  }
+
+  private async handleRemoveStatusEffect(
+    params: RemoveStatusEffectParams
+  ): Promise<CallToolResult> {
+    if (!params.gameId || !params.character || !params.name) {
+      throw new Error('gameId, character and name parameters are required');
+    }
+    const result = this.gameManager.removeStatusEffect(
+      params.gameId,
+      params.character,
+      params.name
+    );
+    return this.createStatusEffectResult('removeStatusEffect', params.gameId, result);
+  }
+
+  /**
+   * 상태 효과 도구 공통 응답 생성
+   */
+  private createStatusEffectResult(
+    toolName: string,
+    gameId: string,
+    result: StatusEffectResponse,
+    additionalNotes: string[] = []
+  ): CallToolResult {
+    const descriptions = result.changes.map(change => describeStatChange(change));
+    const deltas = result.game.state._pendingDeltas || [];
+
+    const responseText = this.formatToolResponse(
+      toolName,
+      'success',
+      descriptions.join('; '),
+      {
+        gameId,
+        title: result.game.state.title,
+        keyState: [
+          ...descriptions,
+          ...this.describeStatusEffects(result.game.state),
+          `Pending changes: ${deltas.length}`,
+        ],
+      },
+      `Status effects updated. Changes: ${descriptions.join('; ')}`,
+      {
+        tool: 'progressStory',
+        reason: 'Narrate how the condition started or ended',
+        params: {
+          gameId,
+          progress: 'Describe the status change in the story',
+        },
+      },
+      `${toolName} → [progressStory]`,
+      [
+        ...additionalNotes,
+        `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  /**
+   * 캐릭터별 적용 중인 효과 요약 (예: "Aria effects: Poisoned (hp -5/turn, 2 turns left)")
+   */
+  private describeStatusEffects(state: GameState): string[] {
+    return (state.characters ?? [])
+      .filter(character => (character.effects ?? []).length > 0)
+      .map(
+        character =>
+          `${character.name} effects: ${character
+            .effects!.map(effect => {
+              const details = describeActiveEffect(effect);
+              return details ? `${effect.name} (${details})` : effect.name;
+            })
+            .join(', ')}`
+      );
+  }
+
+  private async handleDefineLocation(params: DefineLocationParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.name) {
+      throw new Error('gameId and name parameters are required');
+    }
+    const result = this.gameManager.defineLocation(
+      params.gameId,
+      { name: params.name, description: params.description, tags: params.tags },
+      params.here
+    );
+    const { location } = result;
+
+    const responseText = this.formatToolResponse(
+      'defineLocation',
+      'success',
+      `${result.created ? 'Added' : 'Updated'} location: ${location.name}`,
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          `Location: ${location.name}${location.description ? ` - ${location.description}` : ''}`,
+          `Map: ${(result.game.state._locations ?? []).length} location(s)`,
+          ...this.describeLocation(result.game.state),
+        ],
+      },
+      `Location ${result.created ? 'added to' : 'updated on'} the map.`,
+      {
+        tool: 'connectLocations',
+        reason: 'Connect the location to the rest of the map so the party can travel there',
+        params: { gameId: params.gameId, from: location.name, to: 'another location' },
+      },
+      'defineLocation → connectLocations → travelTo'
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleConnectLocations(params: ConnectLocationsParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.from || !params.to) {
+      throw new Error('gameId, from and to parameters are required');
+    }
+    const { gameId, ...input } = params;
+    const result = this.gameManager.connectLocations(gameId, input);
+    const { connection } = result;
+
+    const responseText = this.formatToolResponse(
+      'connectLocations',
+      'success',
+      `Connected ${connection.from} ${connection.oneWay ? '→' : '↔'} ${connection.to}`,
+      {
+        gameId,
+        title: result.game.state.title,
+        keyState: [
+          `Path: ${connection.from} ${connection.oneWay ? '→' : '↔'} ${connection.to} (${describeTravelCost(connection)})`,
+          ...this.describeLocation(result.game.state),
+        ],
+      },
+      'Path saved. travelTo can now use it.',
+      {
+        tool: 'travelTo',
+        reason: 'Move the party along the path when the story calls for it',
+        params: { gameId, destination: connection.to },
+      },
+      'defineLocation → connectLocations → travelTo'
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleTravelTo(params: TravelToParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.destination) {
+      throw new Error('gameId and destination parameters are required');
+    }
+    const result = this.gameManager.travelTo(params.gameId, params.destination);
+    const descriptions = [
+      ...result.changes.map(change => describeStatChange(change)),
+      ...result.inventoryChanges.map(change => describeInventoryChange(change)),
+      ...(result.time?.changes ?? []).map(change => describeStatChange(change)),
+    ];
+
+    if (result.time?.deadlineReached) {
+      return this.createGameOverResult(
+        'travelTo',
+        params.gameId,
+        describeDeadlineReason(result.time.clock),
+        result.game.state,
+        [...descriptions, ...this.describeClock(result.time.clock)]
+      );
+    }
+
+    const deltas = result.game.state._pendingDeltas || [];
+    const responseText = this.formatToolResponse(
+      'travelTo',
+      'success',
+      `Traveled from ${result.from} to ${result.to.name}`,
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          ...descriptions,
+          ...this.describeLocation(result.game.state),
+          ...this.describeClock(result.game.state._clock),
+        ],
+      },
+      `The party arrived at ${result.to.name}${
+        result.to.description ? `: ${result.to.description}` : ''
+      }`,
+      {
+        tool: 'progressStory',
+        reason: 'Describe the journey and the arrival',
+        params: {
+          gameId: params.gameId,
+          progress: `Describe arriving at ${result.to.name}`,
+        },
+      },
+      'travelTo → [progressStory] → promptUserActions',
+      [
+        ...(result.connection.time && !result.time
+          ? ['This game has no calendar, so the time cost of the path was not applied']
+          : []),
+        `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  /**
+   * 현재 장소와 출구 요약 (지도가 없으면 빈 배열)
+   */
+  private describeLocation(state: GameState): string[] {
+    const location = getLocation(state, state.world?.location);
+    if (!location) {
+      return [];
+    }
+    const exits = getExits(state, location.name).map(
+      exit => `${exit.destination} (${describeTravelCost(exit.connection)})`
+    );
+    return [`Current location: ${location.name}`, `Exits: ${exits.join(', ') || '(none)'}`];
+  }
+
+  private async handleSetCalendar(params: SetCalendarParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    const { gameId, ...config } = params;
+    const result = this.gameManager.setCalendar(gameId, config);
+
+    const responseText = this.formatToolResponse(
+      'setCalendar',
+      'success',
+      `Calendar set: ${result.game.state.world?.time}`,
+      {
+        gameId,
+        title: result.game.state.title,
+        keyState: this.describeClock(result.game.state._clock),
+      },
+      'Calendar saved. The server now keeps world.time and advances it when options with a time cost are selected.',
+      {
+        tool: 'progressStory',
+        reason: 'Continue the story at the current time of day',
+        params: { gameId, progress: 'Describe the scene at the current time' },
+      },
+      'setCalendar → progressStory → promptUserActions (options may declare time)',
+      [
+        'Give options a time cost with {"text": "...", "time": 1} in promptUserActions',
+        'Use advanceTime for time that passes in the story outside of options',
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleAdvanceTime(params: AdvanceTimeParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    const result = this.gameManager.advanceTime(params.gameId, {
+      slots: params.slots,
+      days: params.days,
+      toSlot: params.toSlot,
+    });
+    const descriptions = result.changes.map(change => describeStatChange(change));
+    const keyState = this.describeClock(result.clock);
+
+    if (result.deadlineReached) {
+      return this.createGameOverResult(
+        'advanceTime',
+        params.gameId,
+        describeDeadlineReason(result.clock),
+        result.game.state,
+        [...descriptions, ...keyState]
+      );
+    }
+
+    const deltas = result.game.state._pendingDeltas || [];
+    const responseText = this.formatToolResponse(
+      'advanceTime',
+      'success',
+      descriptions.join('; '),
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [...keyState, `Pending changes: ${deltas.length}`],
+      },
+      `Time advanced by ${result.slotsPassed} slot(s)${
+        result.daysPassed ? `, ${result.daysPassed} day(s) passed` : ''
+      }.`,
+      {
+        tool: 'progressStory',
+        reason: 'Narrate the passage of time',
+        params: { gameId: params.gameId, progress: 'Describe the scene at the new time' },
+      },
+      'advanceTime → [progressStory]',
+      [`${deltas.length} change(s) will be displayed to player on next promptUserActions`]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  /**
+   * 시계 요약 (달력이 없으면 빈 배열)
+   */
+  private describeClock(clock: GameClock | undefined): string[] {
+    if (!clock) {
+      return [];
+    }
+    const deadline = describeDeadline(clock);
+    return [
+      `Time: ${formatClock(clock)}`,
+      `Time slots: ${clock.slots.join(' → ')}`,
+      ...(deadline ? [deadline] : []),
+    ];
+  }
+
+  private async handleAdjustRelationship(
+    params: AdjustRelationshipParams
+  ): Promise<CallToolResult> {
+    if (!params.gameId || !params.from || !params.to) {
+      throw new Error('gameId, from and to parameters are required');
+    }
+    const result = this.gameManager.adjustRelationship(
+      params.gameId,
+      params.from,
+      params.to,
+      { amount: params.amount, value: params.value },
+      params.mutual
+    );
+    const descriptions = result.changes.map(change => describeStatChange(change));
+    const events = result.events.map(event => describeRelationshipEvent(event));
+    const deltas = result.game.state._pendingDeltas || [];
+
+    const responseText = this.formatToolResponse(
+      'adjustRelationship',
+      'success',
+      descriptions.join('; '),
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [
+          ...result.relationships.map(relationship => describeRelationship(relationship)),
+          `Pending changes: ${deltas.length}`,
+        ],
+      },
+      `Relationship updated. Changes: ${descriptions.join('; ')}`,
+      {
+        tool: 'progressStory',
+        reason: events.length
+          ? 'A relationship crossed a tier threshold - narrate this moment'
+          : 'Narrate how the relationship changed',
+        params: {
+          gameId: params.gameId,
+          progress: events.length
+            ? `Describe the relationship event: ${events.join('; ')}`
+            : 'Describe the interaction in the story',
+        },
+      },
+      'adjustRelationship → [progressStory]',
+      [
+        ...events.map(event => `Relationship event: ${event}`),
+        ...(events.length ? ['Narrate the relationship event in the next progressStory'] : []),
+        `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleDefineRelationshipTiers(
+    params: DefineRelationshipTiersParams
+  ): Promise<CallToolResult> {
+    if (!params.gameId || !Array.isArray(params.tiers)) {
+      throw new Error('gameId and tiers parameters are required');
     }
-    const result = this.gameManager.createGame(params.initialStateInJson);
+    const result = this.gameManager.defineRelationshipTiers(params.gameId, params.tiers);
+    const tiers = result.game.state._relationshipTiers ?? [];
 
     const responseText = this.formatToolResponse(
-      'createGame',
+      'defineRelationshipTiers',
       'success',
-      `New game created with ID: ${result.game.gameId}`,
+      `Defined ${tiers.length} relationship tier(s)`,
       {
-        gameId: result.game.gameId,
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: tiers.map(
+          tier => `${tier.name}: ${tier.min}+${tier.event ? ` (event: ${tier.event})` : ''}`
+        ),
+      },
+      'Relationship tiers saved. Existing relationships were re-ranked without firing events.',
+      {
+        tool: 'adjustRelationship',
+        reason: 'Change affinity between characters as the story unfolds',
+        params: { gameId: params.gameId, from: 'character name', to: 'character name', amount: 5 },
+      },
+      'defineRelationshipTiers → adjustRelationship'
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleAddQuest(params: AddQuestParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.title) {
+      throw new Error('gameId and title parameters are required');
+    }
+    const result = this.gameManager.addQuest(params.gameId, {
+      title: params.title,
+      id: params.id,
+      description: params.description,
+      objectives: params.objectives,
+      reward: params.reward,
+    });
+    return this.createQuestResult('addQuest', params.gameId, result, [
+      `Quest id: "${result.quest.id}". Objective ids: ${
+        result.quest.objectives.map(objective => `"${objective.id}"`).join(', ') || '(none)'
+      }`,
+    ]);
+  }
+
+  private async handleUpdateObjective(params: UpdateObjectiveParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.quest || !params.objective) {
+      throw new Error('gameId, quest and objective parameters are required');
+    }
+    const result = this.gameManager.updateObjective(params.gameId, params.quest, params.objective, {
+      progress: params.progress,
+      increment: params.increment,
+      done: params.done,
+    });
+    const allDone =
+      result.quest.objectives.length > 0 &&
+      result.quest.objectives.every(objective => objective.done);
+    return this.createQuestResult(
+      'updateObjective',
+      params.gameId,
+      result,
+      allDone ? ['All objectives are done - call completeQuest when the quest is resolved'] : []
+    );
+  }
+
+  private async handleCompleteQuest(params: CompleteQuestParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.quest) {
+      throw new Error('gameId and quest parameters are required');
+    }
+    const result = this.gameManager.completeQuest(params.gameId, params.quest);
+    return this.createQuestResult(
+      'completeQuest',
+      params.gameId,
+      result,
+      result.quest.reward
+        ? [`Grant the reward "${result.quest.reward}" with addItem or updateGame`]
+        : []
+    );
+  }
+
+  private async handleFailQuest(params: FailQuestParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.quest) {
+      throw new Error('gameId and quest parameters are required');
+    }
+    const result = this.gameManager.failQuest(params.gameId, params.quest, params.reason);
+    return this.createQuestResult('failQuest', params.gameId, result);
+  }
+
+  /**
+   * 퀘스트 도구 공통 응답 생성
+   */
+  private createQuestResult(
+    toolName: string,
+    gameId: string,
+    result: QuestResponse,
+    additionalNotes: string[] = []
+  ): CallToolResult {
+    const descriptions = result.changes.map(change => describeStatChange(change));
+    const deltas = result.game.state._pendingDeltas || [];
+    const active = (result.game.state._quests ?? []).filter(quest => quest.status === 'active');
+
+    const responseText = this.formatToolResponse(
+      toolName,
+      'success',
+      descriptions.join('; '),
+      {
+        gameId,
         title: result.game.state.title,
         keyState: [
-          `Characters: ${result.game.state.characters?.length || 0}`,
-          `Location: ${result.game.state.world?.location || 'Unknown'}`,
-          `Created: ${result.game.createdAt.toISOString()}`,
+          `Quest: ${describeQuest(result.quest)}`,
+          `Active quests: ${active.length}`,
+          `Pending changes: ${deltas.length}`,
         ],
       },
-      `Initialized game world with provided state including characters, world settings, and inventory.`,
+      `Quest log updated. Changes: ${descriptions.join('; ')}`,
       {
         tool: 'progressStory',
-        reason:
-          'Begin the narrative by describing the opening scene and establishing story context',
+        reason: 'Narrate the quest update',
         params: {
-          gameId: result.game.gameId,
-          progress: 'Describe the opening situation, setting, and initial scenario for the player',
+          gameId,
+          progress: 'Describe the quest progress in the story',
         },
       },
-      'Step 1/5: [createGame] → progressStory → promptUserActions → selectAction → updateGame'
+      `${toolName} → [progressStory]`,
+      [
+        ...additionalNotes,
+        `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
+      ]
     );
 
     return {
@@ -411,93 +2564,71 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
     };
   }
 
-  private async handleUpdateGame(params: UpdateGameParams): Promise<CallToolResult> {
-    if (!params.gameId || !params.fieldSelector || params.value === undefined) {
-      throw new Error('gameId, fieldSelector, and value parameters are required');
+  private async handleEquipItem(params: EquipItemParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.item) {
+      throw new Error('gameId and item parameters are required');
     }
-    const result = this.gameManager.updateGame(params.gameId, params.fieldSelector, params.value);
-
-    // Game Over 처리
-    if (params.isGameOver && params.gameOverReason) {
-      const gameOverHtml = this.generateGameOverUI(
-        params.gameId,
-        params.gameOverReason,
-        result.game.state
-      );
-
-      const gameOverResource = {
-        type: 'resource' as const,
-        resource: {
-          uri: `ui://rpg-game/${params.gameId}/game-over`,
-          mimeType: 'text/html',
-          text: gameOverHtml,
-          _meta: {
-            title: 'Game Over',
-            description: `Game over screen for ${params.gameId}`,
-            preferredRenderContext: 'main',
-          },
-        },
-      };
-
-      const responseText = this.formatToolResponse(
-        'updateGame',
-        'success',
-        `Game Over - ${params.gameOverReason}`,
-        {
-          gameId: params.gameId,
-          title: result.game.state.title,
-          keyState: [
-            `Updated field: ${params.fieldSelector}`,
-            `Final value: ${JSON.stringify(params.value)}`,
-            'Game Status: ENDED',
-          ],
-        },
-        `The game has ended. The story has reached its conclusion with: ${params.gameOverReason}`,
-        null, // No next step - game is over
-        'Game Over - Story Concluded',
-        [
-          '🎮 The journey has ended',
-          `Reason: ${params.gameOverReason}`,
-          'Consider starting a new game to explore different outcomes',
-          'Your choices shaped this story to its conclusion',
-        ]
-      );
+    const result = this.gameManager.equipItem(
+      params.gameId,
+      params.item,
+      params.owner,
+      params.slot,
+      params.unequip
+    );
+    return this.createInventoryResult('equipItem', params.gameId, result);
+  }
 
-      return {
-        content: [gameOverResource, { type: 'text', text: responseText }],
-      };
+  private async handleTransferItem(params: TransferItemParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.item || !params.from || !params.to) {
+      throw new Error('gameId, item, from and to parameters are required');
     }
+    const result = this.gameManager.transferItem(
+      params.gameId,
+      params.item,
+      params.from,
+      params.to,
+      params.quantity
+    );
+    return this.createInventoryResult('transferItem', params.gameId, result);
+  }
 
-    // 정상 진행
+  /**
+   * 인벤토리 도구 공통 응답 생성
+   */
+  private createInventoryResult(
+    toolName: string,
+    gameId: string,
+    result: InventoryResponse,
+    additionalNotes: string[] = []
+  ): CallToolResult {
+    const descriptions = result.changes.map(change => describeInventoryChange(change));
     const deltas = result.game.state._pendingDeltas || [];
-    const deltaDescriptions = deltas.map(d => d.description).join('; ');
 
     const responseText = this.formatToolResponse(
-      'updateGame',
+      toolName,
       'success',
-      `Updated ${params.fieldSelector} to ${JSON.stringify(params.value)}`,
+      descriptions.join('; '),
       {
-        gameId: params.gameId,
+        gameId,
         title: result.game.state.title,
         keyState: [
-          `Updated field: ${params.fieldSelector}`,
-          `New value: ${JSON.stringify(params.value)}`,
+          ...descriptions,
+          `Shared inventory: ${this.summarizeInventory(result.game.state.inventory)}`,
           `Pending changes: ${deltas.length}`,
         ],
       },
-      `Game state modified. Changes: ${deltaDescriptions || 'State updated'}`,
+      `Inventory updated. Changes: ${descriptions.join('; ')}`,
       {
         tool: 'progressStory',
-        reason: 'Narrate the consequences and outcomes of this state change in the story',
+        reason: 'Narrate how the party gained, lost or used these items',
         params: {
-          gameId: params.gameId,
-          progress: `Describe how the change to ${params.fieldSelector} affects the game world, characters, and situation`,
+          gameId,
+          progress: 'Describe the item change in the story',
         },
       },
-      'Step 5/5: createGame → progressStory → promptUserActions → selectAction → updateGame → [progressStory]',
+      `${toolName} → [progressStory]`,
       [
-        'You may call updateGame multiple times to apply multiple changes',
-        'Call progressStory after all updates to narrate the cumulative results',
+        ...additionalNotes,
         `${deltas.length} change(s) will be displayed to player on next promptUserActions`,
       ]
     );
@@ -507,6 +2638,156 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
     };
   }
 
+  /**
+   * 인벤토리 요약 (예: "Healing Potion x2, Iron Sword [weapon]")
+   */
+  private summarizeInventory(items: InventoryItem[] | undefined): string {
+    if (!items || items.length === 0) {
+      return '(empty)';
+    }
+    return items
+      .map(item => {
+        const quantity = typeof item.quantity === 'number' ? ` x${item.quantity}` : '';
+        const equipped = item.equipped ? ` [${item.slot}]` : '';
+        return `${item.name}${quantity}${equipped}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * 전투 도구 응답 생성 - 파티가 전멸하면 Game Over 화면으로 전환
+   */
+  private createCombatResult(
+    toolName: string,
+    gameId: string,
+    result: CombatResponse,
+    summary: string
+  ): CallToolResult {
+    const { encounter, game } = result;
+    const combatants = describeCombatants(game.state, encounter);
+
+    if (encounter.status === 'defeat') {
+      return this.createGameOverResult(
+        toolName,
+        gameId,
+        `The party was defeated in battle against ${encounter.enemies.map(e => e.name).join(', ')}`,
+        game.state,
+        [...result.log.slice(-3), ...combatants]
+      );
+    }
+
+    const currentTurn = getCurrentTurn(encounter);
+    const nextStep =
+      encounter.status === 'active'
+        ? {
+            tool: 'progressStory',
+            reason: `Narrate what happened, then let the player choose ${currentTurn?.name}'s action`,
+            params: {
+              gameId,
+              progress: `Describe the exchange of blows and that it is now ${currentTurn?.name}'s turn`,
+            },
+          }
+        : {
+            tool: 'endEncounter',
+            reason: `The encounter is over (${encounter.status}); clear the combat state`,
+            params: { gameId },
+          };
+
+    const responseText = this.formatToolResponse(
+      toolName,
+      'success',
+      summary,
+      {
+        gameId,
+        title: game.state.title,
+        keyState: [
+          `Round: ${encounter.round}`,
+          `Status: ${encounter.status}`,
+          ...(encounter.status === 'active' ? [`Turn: ${currentTurn?.name}`] : []),
+          ...combatants,
+        ],
+      },
+      `⚔️ ${result.log.join('\n')}`,
+      nextStep,
+      'Combat: startEncounter → [progressStory → promptUserActions → selectAction → combatAction]* → endEncounter',
+      [
+        'All rolls were made by the server - narrate the results exactly as logged',
+        encounter.status === 'active'
+          ? 'Offer combat choices such as attack, defend, use an item or flee with promptUserActions, then call combatAction with the chosen action'
+          : 'Call endEncounter, then narrate the aftermath',
+        `${game.state._pendingDeltas?.length || 0} change(s) will be displayed to player on next promptUserActions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  /**
+   * 이미 게임 오버 화면을 담은 결과인지 여부
+   */
+  private isGameOverResult(result: CallToolResult): boolean {
+    return result.content.some(
+      item => item.type === 'resource' && item.resource.uri.endsWith('/game-over')
+    );
+  }
+
+  /**
+   * Game Over UI 리소스와 응답 생성 (outcome이 win이면 승리 화면)
+   */
+  private createGameOverResult(
+    toolName: string,
+    gameId: string,
+    gameOverReason: string,
+    state: GameState,
+    keyState: string[],
+    outcome: GameOutcome = 'loss'
+  ): CallToolResult {
+    const victory = outcome === 'win';
+    // 이후의 플레이 도구 호출을 막도록 게임 종료를 기록
+    this.gameManager.endGame(gameId, victory ? 'ended-win' : 'ended-loss', gameOverReason);
+    const gameOverHtml = this.generateGameOverUI(gameId, gameOverReason, state, outcome);
+
+    const gameOverResource = {
+      type: 'resource' as const,
+      resource: {
+        uri: `ui://rpg-game/${gameId}/game-over`,
+        mimeType: 'text/html',
+        text: gameOverHtml,
+        _meta: {
+          title: victory ? 'Victory' : 'Game Over',
+          description: `${victory ? 'Victory' : 'Game over'} screen for ${gameId}`,
+          preferredRenderContext: 'main',
+        },
+      },
+    };
+
+    const responseText = this.formatToolResponse(
+      toolName,
+      'success',
+      `${victory ? 'Victory' : 'Game Over'} - ${gameOverReason}`,
+      {
+        gameId,
+        title: state.title,
+        keyState: [...keyState, `Game Status: ENDED${victory ? ' (VICTORY)' : ''}`],
+      },
+      `The game has ended. The story has reached its conclusion with: ${gameOverReason}`,
+      null, // No next step - game is over
+      victory ? 'Game Over - Victory' : 'Game Over - Story Concluded',
+      [
+        victory ? '🏆 The party has won' : '🎮 The journey has ended',
+        `Reason: ${gameOverReason}`,
+        'Consider starting a new game to explore different outcomes',
+        'Your choices shaped this story to its conclusion',
+      ]
+    );
+
+    return {
+      content: [gameOverResource, { type: 'text', text: responseText }],
+    };
+  }
+
   private async handleGetGame(params: GetGameParams): Promise<CallToolResult> {
     if (!params.gameId) {
       throw new Error('gameId parameter is required');
@@ -517,9 +2798,16 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
     const hasStory = !!result.game.state.lastStoryProgress;
     const hasOptions = !!result.game.state._currentOptions;
     const hasSelection = !!result.game.state.selectedAction;
+    const awaitingSelection = this.isAwaitingSelection(result.game.state);
 
     let nextStep = null;
-    if (hasOptions && !hasSelection) {
+    if (isGameEnded(result.game)) {
+      nextStep = {
+        tool: 'selectRestart',
+        reason: 'The game has ended - offer the player a new adventure',
+        params: { gameId: params.gameId },
+      };
+    } else if (awaitingSelection) {
       // Waiting for player selection
       nextStep = null;
     } else if (hasSelection) {
@@ -560,13 +2848,30 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
         gameId: params.gameId,
         title: result.game.state.title,
         keyState: [
+          `Status: ${describeGameStatus(result.game)}`,
           `Characters: ${result.game.state.characters?.length || 0}`,
           `Location: ${result.game.state.world?.location || 'Unknown'}`,
           `Story: ${result.game.state.story?.progress || 'Not started'}`,
           `Last updated: ${result.game.updatedAt.toISOString()}`,
+          ...(result.game.state.characters ?? [])
+            .map(character => ({
+              name: character.name,
+              stats: this.describeEffectiveStats(result.game.state, character),
+            }))
+            .filter(entry => entry.stats)
+            .map(entry => `${entry.name} stats: ${entry.stats}`),
+          ...this.describeStatusEffects(result.game.state),
+          ...(result.game.state._quests ?? [])
+            .filter(quest => quest.status === 'active')
+            .map(quest => `Quest: ${describeQuest(quest)}`),
+          ...(result.game.state._relationships ?? []).map(
+            relationship => `Relationship: ${describeRelationship(relationship)}`
+          ),
+          ...this.describeClock(result.game.state._clock),
+          ...this.describeLocation(result.game.state),
         ],
       },
-      `Retrieved complete game state for inspection. Current status: ${hasOptions ? 'Awaiting player choice' : 'Ready for progression'}`,
+      `Retrieved complete game state for inspection. Current status: ${awaitingSelection ? 'Awaiting player choice' : 'Ready for progression'}`,
       nextStep,
       'Inspection mode - use retrieved state to determine next action',
       [
@@ -641,31 +2946,23 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
     if (params.options.length === 0) {
       throw new Error('options array cannot be empty');
     }
-    const result = this.gameManager.promptUserActions(params.gameId, params.options);
-
-    // UI 리소스를 수동으로 생성 (mimeType 포함)
-    const uiHtml = this.generateGameUI(
-      result.game.state.lastStoryProgress || '게임이 시작됩니다...',
+    const result = this.gameManager.promptUserActions(
+      params.gameId,
       params.options,
-      params.gameId
+      params.allowCustom ?? true
+    );
+    const optionTexts: string[] = result.game.state._currentOptions;
+    const checks = result.game.state._currentChecks || [];
+    const clock = result.game.state._clock;
+    const timeCosts = (result.game.state._currentTimeCosts || []).map(
+      time => time ?? clock?.defaultActionCost ?? 0
     );
 
-    // Delta clear
-    this.gameManager.clearDeltas(params.gameId);
-
-    const uiResource = {
-      type: 'resource' as const,
-      resource: {
-        uri: `ui://rpg-game/${params.gameId}/actions`,
-        mimeType: 'text/html',
-        text: uiHtml,
-        _meta: {
-          title: 'RPG Game Actions',
-          description: `Action selection for game ${params.gameId}`,
-          preferredRenderContext: 'main',
-        },
-      },
-    };
+    const uiResource = this.createActionsResource(
+      params.gameId,
+      result.game.state.lastStoryProgress,
+      optionTexts
+    );
 
     const responseText = this.formatToolResponse(
       'promptUserActions',
@@ -677,7 +2974,9 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
         keyState: [
           `Situation: "${result.game.state.lastStoryProgress}"`,
           `Options presented: ${params.options.length}`,
+          `Prompt ID: ${result.game.state._promptId}`,
           `Deltas displayed and cleared`,
+          ...(clock ? [`Time: ${formatClock(clock)}`] : []),
         ],
       },
       `Interactive UI generated with story progress and ${params.options.length} action buttons. Options mix positive and negative outcomes for dynamic gameplay. Player can now make a selection.`,
@@ -686,8 +2985,20 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
       [
         'PAUSED: Waiting for player to select an option via UI',
         'selectAction will be called automatically when player clicks a button',
+        ...(result.game.state._allowCustomAction
+          ? ['The player may also type a custom action instead of choosing an option']
+          : []),
         'Do not proceed until selectAction is invoked',
-        `Options presented: ${params.options.map((o, i) => `[${i}] ${o}`).join('; ')}`,
+        `Options presented: ${optionTexts
+          .map((o, i) => {
+            const check = checks[i];
+            const details = [
+              ...(check ? [`check: ${check.stat} vs DC ${check.dc}`] : []),
+              ...(timeCosts[i] ? [`time: ${timeCosts[i]}`] : []),
+            ];
+            return details.length ? `[${i}] ${o} (${details.join(', ')})` : `[${i}] ${o}`;
+          })
+          .join('; ')}`,
       ]
     );
 
@@ -696,486 +3007,186 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
     };
   }
 
+  /**
+   * 액션 선택 UI 리소스 생성 (mimeType 포함)
+   * 화면에 표시된 delta는 생성 후 클리어된다.
+   */
+  private createActionsResource(
+    gameId: string,
+    storyProgress: string | undefined,
+    options: string[]
+  ) {
+    const state = this.gameManager.getGame(gameId).game.state;
+    const uiHtml = this.generateGameUI(
+      storyProgress || translate(getLocale(state), 'ui.storyStarting'),
+      options,
+      gameId
+    );
+
+    // Delta clear
+    this.gameManager.clearDeltas(gameId);
+
+    return {
+      type: 'resource' as const,
+      resource: {
+        uri: `ui://rpg-game/${gameId}/actions`,
+        mimeType: 'text/html',
+        text: uiHtml,
+        _meta: {
+          title: 'RPG Game Actions',
+          description: `Action selection for game ${gameId}`,
+          preferredRenderContext: 'main',
+        },
+      },
+    };
+  }
+
+  /**
+   * 플레이어가 선택지를 기다리는 중인지 확인 (열린 프롬프트에 아직 답하지 않음)
+   */
+  private isAwaitingSelection(state: GameState): boolean {
+    return !!state._currentOptions && !!state._promptId && !state._promptAnswered;
+  }
+
   /**
    * 게임 UI HTML 생성
    */
   private generateGameUI(storyProgress: string, options: string[], gameId: string): string {
     // 게임 상태에서 pendingDeltas 가져오기
     const game = this.gameManager.getGame(gameId).game;
+    const locale = getLocale(game.state);
     const pendingDeltas = game.state._pendingDeltas || [];
+    const checks = game.state._currentChecks || [];
+    const clock = game.state._clock;
+    const timeCosts = game.state._currentTimeCosts || [];
 
     // Delta 섹션 HTML 생성
-    const deltaSection = this.generateDeltaSection(pendingDeltas);
-
-    // XSS 방지를 위한 안전한 값 처리
+    const deltaSection = this.generateDeltaSection(game.state, pendingDeltas);
+    const partySection = this.generatePartySection(game.state);
+    const questSection = this.generateQuestSection(game.state);
+    const locationSection = this.generateLocationSection(game.state);
+    const clockBar = clock
+      ? `<div class="clock-bar">🕰️ ${this.escapeHtml(formatClock(clock, locale))}${
+          clock.deadline ? ` · ${this.escapeHtml(describeDeadline(clock, locale))}` : ''
+        }</div>`
+      : '';
+
+    // XSS 방지를 위한 안전한 값 처리 (템플릿의 {{{...}}} 자리에는 이스케이프된 HTML만 넣음)
     const safeGameId = this.escapeHtml(gameId);
-    const safeStoryProgress = this.escapeHtml(storyProgress);
+    const safePromptId = this.escapeHtml(game.state._promptId);
 
     const optionButtons = options
       .map((option, index) => {
         const safeOption = this.escapeHtml(option);
+        const check = checks[index];
+        // 판정이 있는 선택지는 난이도와 능력치를 함께 표시
+        const checkBadge = check
+          ? `<span class="check-badge">🎲 DC ${this.escapeHtml(check.dc)} · ${this.escapeHtml(
+              check.stat
+                .split(/[.[\]]/)
+                .filter(Boolean)
+                .pop()
+            )}</span>`
+          : '';
+        // 시간이 걸리는 선택지는 소요 시간대 수를 표시
+        const timeCost = clock ? (timeCosts[index] ?? clock.defaultActionCost) : 0;
+        const timeBadge = timeCost
+          ? `<span class="check-badge">⏱ ${this.escapeHtml(timeCost)}</span>`
+          : '';
         return `
       <button 
         class="action-button"
         data-gameid="${safeGameId}"
+        data-promptid="${safePromptId}"
         data-option="${safeOption}"
         data-index="${index}"
       >
         ${safeOption}
+        ${checkBadge}${timeBadge}
       </button>
     `;
       })
       .join('');
 
-    return `
-<!DOCTYPE html>
-<html lang="ko">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>RPG Game</title>
-    <style>
-        * {
-            box-sizing: border-box;
-        }
-        html, body {
-            width: 100%;
-            height: 100%;
-            margin: 0;
-            padding: 0;
-        }
-        body {
-            font-family: 'Arial', sans-serif;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: #333;
-            overflow-x: hidden;
-            padding: 10px;
-        }
-        .game-container {
-            width: 100%;
-            max-width: 700px;
-            margin: 0 auto;
-            padding: 20px;
-            background: white;
-            border-radius: 15px;
-            box-shadow: 0 10px 30px rgba(0,0,0,0.2);
-        }
-        .story-section {
-            background: #f8f9fa;
-            border-left: 5px solid #667eea;
-            padding: 20px;
-            margin-bottom: 30px;
-            border-radius: 5px;
-            font-size: 16px;
-            line-height: 1.6;
-            word-wrap: break-word;
-            overflow-wrap: break-word;
-        }
-        .actions-section h3 {
-            color: #667eea;
-            margin-bottom: 20px;
-            font-size: 18px;
-        }
-        .delta-section {
-            background: #fff3cd;
-            border-left: 5px solid #ffc107;
-            padding: 20px;
-            margin-bottom: 20px;
-            border-radius: 5px;
-            animation: slideIn 0.5s ease-in;
-        }
-        .delta-section h3 {
-            color: #856404;
-            margin-bottom: 15px;
-            font-size: 16px;
-        }
-        .delta-item {
-            background: #ffffff;
-            padding: 10px 15px;
-            margin-bottom: 8px;
-            border-radius: 5px;
-            border-left: 3px solid #ffc107;
-            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
-        }
-        .delta-item:last-child {
-            margin-bottom: 0;
-        }
-        @keyframes slideIn {
-            from {
-                opacity: 0;
-                transform: translateY(-10px);
-            }
-            to {
-                opacity: 1;
-                transform: translateY(0);
-            }
-        }
-        .action-button {
-            display: block;
-            width: 100%;
-            padding: 15px 20px;
-            margin-bottom: 10px;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-            border: none;
-            border-radius: 8px;
-            font-size: 16px;
-            cursor: pointer;
-            transition: all 0.3s ease;
-            text-align: left;
-        }
-        .action-button:hover {
-            transform: translateY(-2px);
-            box-shadow: 0 5px 15px rgba(102, 126, 234, 0.4);
-        }
-        .action-button:active {
-            transform: translateY(0);
-        }
-        .game-id {
-            color: #666;
-            font-size: 12px;
-            text-align: center;
-            margin-top: 20px;
-            word-break: break-all;
-        }
-        @media (max-width: 480px) {
-            body {
-                padding: 5px;
-            }
-            .game-container {
-                padding: 15px;
-            }
-            .story-section {
-                padding: 15px;
-                font-size: 14px;
-            }
-            .action-button {
-                padding: 12px 15px;
-                font-size: 14px;
-            }
-        }
-    </style>
-</head>
-<body>
-    <div class="game-container">
-        <div class="story-section">
-            ${safeStoryProgress}
-        </div>
-        
-        ${deltaSection}
-        
-        <div class="actions-section">
-            <h3>🎯 선택하세요:</h3>
-            ${optionButtons}
-        </div>
-        
-        <div class="game-id">Game ID: ${safeGameId}</div>
-    </div>
-
-    <script>
-        (function() {
-            const buttons = document.querySelectorAll('.action-button');
-            buttons.forEach(function(btn) {
-                btn.addEventListener('click', function(e) {
-                    e.preventDefault();
-                    const gameId = btn.dataset.gameid;
-                    const selectedOption = btn.dataset.option;
-                    const selectedIndex = parseInt(btn.dataset.index, 10);
-                    
-                    // 선택된 버튼 하이라이트
-                    buttons.forEach(b => b.style.opacity = '0.5');
-                    btn.style.opacity = '1';
-                    btn.style.background = 'linear-gradient(135deg, #28a745 0%, #20c997 100%)';
-                    
-                    // MCP 도구 호출을 위한 postMessage
-                    window.parent.postMessage({
-                        type: 'tool',
-                        payload: {
-                            toolName: 'selectAction',
-                            params: {
-                                gameId: gameId,
-                                selectedOption: selectedOption,
-                                selectedIndex: selectedIndex
-                            }
-                        }
-                    }, '*');
-                });
-            });
-        })();
-    </script>
-</body>
-</html>`;
-  }
-
-  private generateGameOverUI(gameId: string, gameOverReason: string, gameState: GameState): string {
-    const safeGameId = this.escapeHtml(gameId);
-    const safeReason = this.escapeHtml(gameOverReason);
-    const safeJsonSummary = this.generateGameStateSummary(gameState);
-    const safeJsonFull = this.escapeHtml(JSON.stringify(gameState, null, 2));
-
-    return `
-<!DOCTYPE html>
-<html lang="ko">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Game Over</title>
-    <style>
-        * {
-            box-sizing: border-box;
-        }
-        html, body {
-            width: 100%;
-            height: 100%;
-            margin: 0;
-            padding: 0;
-        }
-        body {
-            font-family: 'Arial', sans-serif;
-            background: linear-gradient(135deg, #2c3e50 0%, #34495e 100%);
-            color: #ecf0f1;
-            overflow-x: hidden;
-            padding: 10px;
-            display: flex;
-            justify-content: center;
-            align-items: flex-start;
-        }
-        .game-over-container {
-            width: 100%;
-            max-width: 600px;
-            margin-top: 20px;
-            padding: 20px;
-            background: #2c3e50;
-            border-radius: 15px;
-            box-shadow: 0 20px 60px rgba(0,0,0,0.5);
-            border: 3px solid #e74c3c;
-            text-align: center;
-            animation: fadeIn 0.8s ease-in;
-        }
-        @keyframes fadeIn {
-            from {
-                opacity: 0;
-                transform: scale(0.95);
-            }
-            to {
-                opacity: 1;
-                transform: scale(1);
-            }
-        }
-        .game-over-title {
-            font-size: 48px;
-            font-weight: bold;
-            color: #e74c3c;
-            margin-bottom: 20px;
-            text-shadow: 2px 2px 4px rgba(0,0,0,0.5);
-            animation: blink 1.5s infinite;
-        }
-        @keyframes blink {
-            0%, 50%, 100% { opacity: 1; }
-            25%, 75% { opacity: 0.7; }
-        }
-        .game-over-reason {
-            background: #e74c3c;
-            border-radius: 10px;
-            padding: 15px;
-            margin: 15px 0;
-            color: #ecf0f1;
-            font-size: 16px;
-            line-height: 1.6;
-            text-align: left;
-            word-wrap: break-word;
-            overflow-wrap: break-word;
-        }
-        .game-over-reason h3 {
-            color: #fff;
-            margin: 0 0 10px 0;
-            font-size: 18px;
-            text-align: center;
-        }
-        .final-state-summary {
-            background: #34495e;
-            border: 1px solid #7f8c8d;
-            border-radius: 8px;
-            padding: 12px;
-            margin: 15px 0;
-            font-size: 13px;
-            color: #bdc3c7;
-            display: grid;
-            grid-template-columns: 1fr 1fr;
-            gap: 8px;
-            text-align: left;
-        }
-        .state-item {
-            padding: 5px;
-        }
-        details {
-            margin: 15px 0;
-            text-align: left;
-        }
-        details summary {
-            cursor: pointer;
-            color: #2ecc71;
-            font-weight: bold;
-            user-select: none;
-            padding: 5px;
-        }
-        details summary:hover {
-            color: #27ae60;
-        }
-        .final-state-content {
-            background: #1a252f;
-            border: 1px solid #555;
-            border-radius: 5px;
-            padding: 10px;
-            margin-top: 10px;
-            overflow-x: auto;
-            overflow-y: auto;
-            max-height: 250px;
-            white-space: pre-wrap;
-            word-wrap: break-word;
-            font-size: 12px;
-            line-height: 1.4;
-        }
-        .retry-message {
-            color: #ecf0f1;
-            font-size: 14px;
-            margin-top: 15px;
-            padding-top: 15px;
-            border-top: 1px solid #7f8c8d;
-        }
-        .restart-button-section {
-            margin-top: 20px;
-            text-align: center;
-        }
-        .restart-button {
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-            border: none;
-            border-radius: 10px;
-            padding: 12px 30px;
-            font-size: 16px;
-            font-weight: bold;
-            cursor: pointer;
-            transition: all 0.3s ease;
-            box-shadow: 0 5px 15px rgba(102, 126, 234, 0.4);
-        }
-        .restart-button:hover {
-            transform: translateY(-2px);
-            box-shadow: 0 8px 20px rgba(102, 126, 234, 0.6);
-        }
-        .restart-button:active {
-            transform: translateY(0);
-        }
-        .restart-button:disabled {
-            opacity: 0.6;
-            cursor: not-allowed;
-        }
-        .game-id {
-            color: #95a5a6;
-            font-size: 11px;
-            text-align: center;
-            margin-top: 15px;
-            word-break: break-all;
-        }
-        @media (max-width: 480px) {
-            body {
-                padding: 5px;
-            }
-            .game-over-container {
-                padding: 15px;
-                margin-top: 10px;
-            }
-            .game-over-title {
-                font-size: 32px;
-                margin-bottom: 10px;
-            }
-            .game-over-reason {
-                padding: 12px;
-                font-size: 14px;
-            }
-            .final-state-summary {
-                grid-template-columns: 1fr;
-                font-size: 12px;
-            }
-            .restart-button {
-                padding: 10px 20px;
-                font-size: 14px;
-            }
-        }
-    </style>
-</head>
-<body>
-    <div class="game-over-container">
-        <div class="game-over-title">☠️ GAME OVER ☠️</div>
-        
-        <div class="game-over-reason">
-            <h3>무엇이 일어났나요?</h3>
-            <p>${safeReason}</p>
-        </div>
-        
-        <div class="final-state-summary">
-            ${safeJsonSummary}
-        </div>
-
-        <details>
-            <summary>� 전체 게임 상태 보기</summary>
-            <div class="final-state-content">${safeJsonFull}</div>
-        </details>
-        
-        <div class="retry-message">
-            🎮 새로운 게임으로 다시 시작하고, 다른 선택들을 시도해보세요!
-        </div>
-
-        <div class="restart-button-section">
-            <button 
-                id="restart-btn"
-                class="restart-button"
+    // 제시된 선택지 대신 플레이어가 직접 행동을 입력할 수 있는 입력란
+    const customActionForm =
+      game.state._allowCustomAction === false
+        ? ''
+        : `
+            <form
+                id="custom-action-form"
+                class="custom-action"
                 data-gameid="${safeGameId}"
-                type="button"
-                aria-label="게임 재시작"
+                data-promptid="${safePromptId}"
             >
-                🔄 Restart Game
-            </button>
-        </div>
-
-        <div class="game-id">Game ID: ${safeGameId}</div>
-    </div>
-
-    <script>
-        (function() {
-            const btn = document.getElementById('restart-btn');
-            if (!btn) return;
-            
-            btn.addEventListener('click', function(e) {
-                e.preventDefault();
-                const gameId = btn.dataset.gameid;
-                
-                window.parent.postMessage({
-                    type: 'tool',
-                    payload: {
-                        toolName: 'selectRestart',
-                        params: { gameId }
-                    }
-                }, '*');
-                
-                btn.disabled = true;
-                btn.textContent = '🔄 Restarting...';
-                btn.style.opacity = '0.6';
-                btn.setAttribute('aria-busy', 'true');
-            });
-            
-            // 접근성: 포커스 자동 설정
-            btn.focus();
-        })();
-    </script>
-</body>
-</html>`;
+                <input
+                    id="custom-action-input"
+                    class="custom-action-input"
+                    type="text"
+                    maxlength="${MAX_CUSTOM_ACTION_LENGTH}"
+                    placeholder="${this.escapeHtml(translate(locale, 'ui.customAction.placeholder'))}"
+                    aria-label="${this.escapeHtml(translate(locale, 'ui.customAction.label'))}"
+                >
+                <button type="submit" class="custom-action-button">${this.escapeHtml(
+                  translate(locale, 'ui.customAction.submit')
+                )}</button>
+            </form>`;
+
+    return this.templates.render('game', game.state._theme, {
+      text: {
+        lang: locale,
+        title: translate(locale, 'ui.title'),
+        chooseAction: translate(locale, 'ui.chooseAction'),
+        gameIdLabel: translate(locale, 'ui.gameId'),
+        gameId,
+        storyProgress,
+      },
+      html: {
+        clockBar,
+        locationSection,
+        deltaSection,
+        partySection,
+        questSection,
+        optionButtons,
+        customActionForm,
+      },
+    });
+  }
+
+  private generateGameOverUI(
+    gameId: string,
+    gameOverReason: string,
+    gameState: GameState,
+    outcome: GameOutcome = 'loss'
+  ): string {
+    // 승리 화면은 같은 레이아웃에 색과 문구만 바꿈
+    const locale = getLocale(gameState);
+    const screen = outcome === 'win' ? 'ui.victory' : 'ui.gameOver';
+    return this.templates.render('game-over', gameState._theme, {
+      text: {
+        lang: locale,
+        title: translate(locale, `${screen}.title`),
+        gameId,
+        gameIdLabel: translate(locale, 'ui.gameId'),
+        outcome,
+        banner: translate(locale, `${screen}.banner`),
+        heading: translate(locale, `${screen}.heading`),
+        reason: gameOverReason,
+        message: translate(locale, `${screen}.message`),
+        fullStateLabel: translate(locale, 'ui.gameOver.fullState'),
+        restartLabel: translate(locale, 'ui.gameOver.restart'),
+        restartAriaLabel: translate(locale, 'ui.gameOver.restartLabel'),
+        restartingLabel: translate(locale, 'ui.gameOver.restarting'),
+        fullState: JSON.stringify(gameState, null, 2),
+      },
+      html: { summary: this.generateGameStateSummary(gameState) },
+    });
   }
 
   /**
    * Delta 섹션 HTML 생성
    */
-  private generateDeltaSection(deltas: DeltaInfo[]): string {
+  private generateDeltaSection(state: GameState, deltas: DeltaInfo[]): string {
     if (deltas.length === 0) {
       return '';
     }
@@ -1184,7 +3195,7 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
       .map(
         delta => `
       <div class="delta-item">
-        ⚡ ${this.escapeHtml(delta.description)}
+        ⚡ ${this.escapeHtml(delta.displayDescription ?? delta.description)}
       </div>
     `
       )
@@ -1192,45 +3203,348 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
 
     return `
       <div class="delta-section">
-        <h3>📊 최근 변경사항</h3>
+        <h3>${this.escapeHtml(translate(getLocale(state), 'ui.delta.heading'))}</h3>
         ${deltaItems}
       </div>
     `;
   }
 
+  /**
+   * 현재 장소와 알려진 출구 HTML 생성 (지도에 없는 장소면 표시하지 않음)
+   */
+  private generateLocationSection(state: GameState): string {
+    const location = getLocation(state, state.world?.location);
+    if (!location) {
+      return '';
+    }
+    const locale = getLocale(state);
+    const exits = getExits(state, location.name)
+      .map(
+        exit =>
+          `${this.escapeHtml(exit.destination)} <span class="stat-base">(${this.escapeHtml(
+            describeTravelCost(exit.connection)
+          )})</span>`
+      )
+      .join(' · ');
+
+    return `
+      <div class="location-section">
+        <strong>📍 ${this.escapeHtml(location.name)}</strong>
+        ${location.description ? ` — ${this.escapeHtml(location.description)}` : ''}
+        <div class="location-exits">${this.escapeHtml(translate(locale, 'ui.location.exits'))}: ${
+          exits || this.escapeHtml(translate(locale, 'ui.location.noExits'))
+        }</div>
+      </div>
+    `;
+  }
+
+  /**
+   * 진행 중인 퀘스트 패널 HTML 생성 (접을 수 있는 details 요소)
+   */
+  private generateQuestSection(state: GameState): string {
+    const active = (state._quests ?? []).filter(quest => quest.status === 'active');
+    if (active.length === 0) {
+      return '';
+    }
+
+    const questItems = active
+      .map(quest => {
+        const objectives = quest.objectives
+          .map(
+            objective => `
+            <li class="${objective.done ? 'objective-done' : ''}">${this.escapeHtml(objective.description)} ${this.escapeHtml(describeObjectiveState(objective))}</li>`
+          )
+          .join('');
+        return `
+        <div class="quest-item">
+          <strong>${this.escapeHtml(quest.title)}</strong>
+          ${quest.description ? `<div>${this.escapeHtml(quest.description)}</div>` : ''}
+          ${objectives ? `<ul class="quest-objectives">${objectives}</ul>` : ''}
+        </div>`;
+      })
+      .join('');
+
+    return `
+      <details class="quest-section" open>
+        <summary>${this.escapeHtml(
+          translate(getLocale(state), 'ui.quests.heading', { count: active.length })
+        )}</summary>
+        ${questItems}
+      </details>
+    `;
+  }
+
+  /**
+   * 파티 패널 HTML 생성 - 캐릭터 시트, 공용 인벤토리, 월드 정보
+   */
+  private generatePartySection(state: GameState): string {
+    const cards = (state.characters ?? [])
+      .map(character => this.generateCharacterCard(state, character))
+      .join('');
+    const sharedItems = this.generateItemList(state.inventory);
+
+    // 지도와 달력이 있으면 장소와 시간은 각자의 패널에 표시됨
+    const world = state.world ?? {};
+    const worldItems = [
+      ...(getLocation(state, world.location) ? [] : [['📍', world.location]]),
+      ...(state._clock ? [] : [['🕰️', world.time]]),
+      ['🌤️', world.weather],
+    ]
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(
+        ([icon, value]) =>
+          `<span class="stat-item">${icon} ${this.escapeHtml(this.describeSheetValue(value))}</span>`
+      );
+    const worldExtras = this.generateExtraFields(world, ['location', 'time', 'weather']);
+
+    if (!cards && !sharedItems && worldItems.length === 0 && !worldExtras) {
+      return '';
+    }
+    const locale = getLocale(state);
+    return `
+      <details class="party-section" open>
+        <summary>${this.escapeHtml(
+          translate(locale, 'ui.party.heading', { count: state.characters?.length ?? 0 })
+        )}</summary>
+        ${cards}
+        ${sharedItems ? `<div class="sheet-block"><span class="stats-name">${this.escapeHtml(translate(locale, 'ui.party.sharedInventory'))}</span>${sharedItems}</div>` : ''}
+        ${
+          worldItems.length > 0 || worldExtras
+            ? `<div class="stats-row"><span class="stats-name">${this.escapeHtml(translate(locale, 'ui.party.world'))}</span>${worldItems.join('')}${worldExtras}</div>`
+            : ''
+        }
+      </details>
+    `;
+  }
+
+  /**
+   * 캐릭터 시트 - HP/MP 막대, 레벨/직업, 능력치(장비/효과 보정 시 기본값 함께), 추가 필드, 장비, 개인 인벤토리
+   */
+  private generateCharacterCard(state: GameState, character: Character): string {
+    const locale = getLocale(state);
+    const headline = [
+      typeof character.level === 'number'
+        ? translate(locale, 'ui.sheet.level', { level: character.level })
+        : '',
+      character.class ?? '',
+    ]
+      .filter(Boolean)
+      .map(text => this.escapeHtml(text))
+      .join(' · ');
+
+    const bars = [
+      this.generateStatBar('HP', character.hp, getEffectiveStat(state, character, 'maxHp'), 'hp'),
+      this.generateStatBar('MP', character.mp, getEffectiveStat(state, character, 'maxMp'), 'mp'),
+    ].join('');
+
+    const stats = Object.entries(getEffectiveStats(state, character)).filter(
+      ([stat]) => !SHEET_FIELDS.has(stat)
+    );
+    const statItems = stats
+      .map(([stat, value]) => {
+        const base =
+          value.bonus === 0
+            ? ''
+            : `<span class="stat-base">${this.escapeHtml(translate(locale, 'ui.sheet.base', { value: value.base }))}</span>`;
+        return `<span class="stat-item${value.bonus === 0 ? '' : ' stat-modified'}" title="${this.escapeHtml(value.sources.join(', '))}">${this.escapeHtml(stat)} <strong>${this.escapeHtml(value.effective)}</strong>${base}</span>`;
+      })
+      .join('');
+    const extraItems = this.generateExtraFields(character, [
+      ...SHEET_FIELDS,
+      ...stats.map(([stat]) => stat),
+    ]);
+    // 남은 턴이 있는 효과는 턴 수를 함께 표시
+    const effectItems = (character.effects ?? [])
+      .map(
+        effect =>
+          `<span class="effect-badge" title="${this.escapeHtml(describeActiveEffect(effect, locale))}">${this.escapeHtml(effect.name)}${effect.duration === undefined ? '' : ` (${this.escapeHtml(effect.duration)})`}</span>`
+      )
+      .join('');
+
+    const equipment = Object.entries(character.equipment ?? character['장비'] ?? {})
+      .map(
+        ([slot, item]) =>
+          `<span class="stat-item">${this.escapeHtml(slot)}: <strong>${this.escapeHtml(this.describeSheetValue(item))}</strong></span>`
+      )
+      .join('');
+    const items = this.generateItemList(character.inventory);
+
+    return `
+        <div class="character-card">
+          <div class="stats-row">
+            <span class="stats-name">${this.escapeHtml(character.name)}</span>
+            ${headline ? `<span class="stat-base">${headline}</span>` : ''}
+          </div>
+          ${bars}
+          ${statItems || extraItems || effectItems ? `<div class="stats-row">${statItems}${extraItems}${effectItems}</div>` : ''}
+          ${equipment ? `<div class="stats-row"><span class="stat-base">${this.escapeHtml(translate(locale, 'ui.sheet.equipment'))}</span>${equipment}</div>` : ''}
+          ${items ? `<div class="sheet-block"><span class="stat-base">${this.escapeHtml(translate(locale, 'ui.sheet.inventory'))}</span>${items}</div>` : ''}
+        </div>`;
+  }
+
+  /**
+   * HP/MP 막대 (최대치를 모르면 값만 표시)
+   */
+  private generateStatBar(
+    label: string,
+    value: unknown,
+    max: number | undefined,
+    kind: string
+  ): string {
+    if (typeof value !== 'number') {
+      return '';
+    }
+    if (!max || max <= 0) {
+      return `<div class="stat-bar-label">${label} ${this.escapeHtml(value)}</div>`;
+    }
+    const percent = Math.max(0, Math.min(100, Math.round((value / max) * 100)));
+    return `
+          <div class="stat-bar-label">${label} ${this.escapeHtml(value)} / ${this.escapeHtml(max)}</div>
+          <div class="stat-bar"><div class="stat-bar-fill ${kind}" style="width: ${percent}%"></div></div>`;
+  }
+
+  /**
+   * 인벤토리 목록 (문자열 항목도 허용, 장착한 아이템 표시)
+   */
+  private generateItemList(items: unknown): string {
+    if (!Array.isArray(items) || items.length === 0) {
+      return '';
+    }
+    const entries = items
+      .map(item => {
+        if (!item || typeof item !== 'object') {
+          return `<li>${this.escapeHtml(this.describeSheetValue(item))}</li>`;
+        }
+        const { name, quantity, equipped } = item as InventoryItem;
+        const count = typeof quantity === 'number' && quantity !== 1 ? ` ×${quantity}` : '';
+        return `<li>${equipped ? '🛡️ ' : ''}${this.escapeHtml(name ?? this.describeSheetValue(item))}${this.escapeHtml(count)}</li>`;
+      })
+      .join('');
+    return `<ul class="item-list">${entries}</ul>`;
+  }
+
+  /**
+   * 시트에 따로 표시하지 않은 추가 필드 (인덱스 시그니처의 임의 키) - "_"로 시작하는 내부 키와 빈 값은 제외
+   */
+  private generateExtraFields(record: Record<string, unknown>, exclude: string[]): string {
+    const skip = new Set(exclude);
+    return Object.entries(record)
+      .filter(
+        ([key, value]) =>
+          !skip.has(key) &&
+          !key.startsWith('_') &&
+          value !== undefined &&
+          value !== null &&
+          value !== '' &&
+          !(Array.isArray(value) && value.length === 0)
+      )
+      .map(
+        ([key, value]) =>
+          `<span class="stat-item">${this.escapeHtml(key)} <strong>${this.escapeHtml(this.describeSheetValue(value))}</strong></span>`
+      )
+      .join('');
+  }
+
+  /**
+   * 시트에 표시할 값 텍스트 - 배열은 항목 이름을, 객체는 "키: 값"을 한 단계만 나열
+   */
+  private describeSheetValue(value: unknown, depth = 0): string {
+    if (value === null || value === undefined) {
+      return '-';
+    }
+    if (typeof value !== 'object') {
+      return String(value);
+    }
+    if (depth > 0) {
+      return '…';
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map(entry =>
+          entry && typeof entry === 'object' && 'name' in entry
+            ? String((entry as { name: unknown }).name)
+            : this.describeSheetValue(entry, depth + 1)
+        )
+        .join(', ');
+    }
+    return Object.entries(value)
+      .map(([key, entry]) => `${key}: ${this.describeSheetValue(entry, depth + 1)}`)
+      .join(', ');
+  }
+
   private async handleSelectAction(params: SelectActionParams): Promise<CallToolResult> {
-    if (!params.gameId || !params.selectedOption || params.selectedIndex === undefined) {
-      throw new Error('gameId, selectedOption, and selectedIndex parameters are required');
+    if (
+      !params.gameId ||
+      !params.selectedOption ||
+      (params.selectedIndex === undefined && !params.custom) ||
+      !params.promptId
+    ) {
+      throw new Error(
+        'gameId, selectedOption, selectedIndex, and promptId parameters are required'
+      );
     }
     const result = this.gameManager.selectAction(
       params.gameId,
       params.selectedOption,
-      params.selectedIndex
+      params.selectedIndex,
+      params.promptId,
+      params.custom === true
     );
+    const selected = result.game.state.selectedAction!;
+    const selectedLabel = selected.custom
+      ? `custom action "${selected.option}"`
+      : `[${selected.index}] "${selected.option}"`;
 
     const history = result.game.state._gameHistory || [];
     const recentChoices = history
       .slice(-3)
-      .map((h: GameHistoryEntry) => h.selectedOption)
+      .map((h: GameHistoryEntry) =>
+        h.choiceType === 'custom' ? `✍️ ${h.selectedOption}` : h.selectedOption
+      )
       .join(' → ');
+    const check = result.game.state.selectedAction?.check;
+    const statusChanges = result.statusChanges.map(change => describeStatChange(change));
+    const timeChanges = (result.time?.changes ?? []).map(change => describeStatChange(change));
+
+    // 선택에 걸린 시간으로 마감에 도달하면 게임 오버
+    if (result.time?.deadlineReached) {
+      return this.createGameOverResult(
+        'selectAction',
+        params.gameId,
+        describeDeadlineReason(result.time.clock),
+        result.game.state,
+        [`Selected: ${selectedLabel}`, ...timeChanges, ...this.describeClock(result.time.clock)]
+      );
+    }
+    const checkOutcomeGuide = {
+      success: 'The action succeeds - apply a favorable outcome',
+      partial: 'The action partially succeeds - apply the goal with a cost or complication',
+      failure: 'The action fails - apply an unfavorable outcome',
+    };
 
     const responseText = this.formatToolResponse(
       'selectAction',
       'success',
-      `Player selected: "${params.selectedOption}"`,
+      `Player ${selected.custom ? 'wrote' : 'selected'}: "${selected.option}"`,
       {
         gameId: params.gameId,
         title: result.game.state.title,
         keyState: [
           `Situation: "${result.game.state.lastStoryProgress}"`,
-          `Selected: [${params.selectedIndex}] "${params.selectedOption}"`,
+          `Selected: ${selectedLabel}`,
+          `Turn: ${history[history.length - 1]?.turn ?? 0}`,
           `History: ${history.length}/10 entries`,
+          ...(check ? [`Check: ${describeSkillCheck(check)}`] : []),
+          ...this.describeStatusEffects(result.game.state),
+          ...this.describeClock(result.game.state._clock),
         ],
       },
-      `Player's choice recorded. Selection: "${params.selectedOption}" in response to situation: "${result.game.state.lastStoryProgress}"`,
+      `Player's choice recorded. Selection: "${selected.option}"${selected.custom ? ' (typed by the player)' : ''} in response to situation: "${result.game.state.lastStoryProgress}"${check ? `\n🎲 Server-resolved check: ${describeSkillCheck(check)}` : ''}`,
       {
         tool: 'updateGame',
-        reason: `Apply the consequences of the selected action: "${params.selectedOption}"`,
+        reason: check
+          ? `Apply the ${check.outcome.toUpperCase()} outcome of the selected action: "${selected.option}"`
+          : `Apply the consequences of the selected action: "${selected.option}"`,
         params: {
           gameId: params.gameId,
           fieldSelector:
@@ -1240,9 +3554,30 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
       },
       'Step 4/5: createGame → progressStory → promptUserActions → [selectAction] → updateGame → progressStory',
       [
-        'Determine consequences based on the selected action and current game state',
-        'You may need to call updateGame multiple times for complex outcomes',
+        check
+          ? `Check result is ${check.outcome.toUpperCase()} and is final. ${checkOutcomeGuide[check.outcome]}`
+          : 'Determine consequences based on the selected action and current game state',
+        ...(selected.custom
+          ? [
+              'The player typed this action - it has no preset outcome. Judge whether it is possible in the current situation, and use rollDice for risky attempts',
+            ]
+          : []),
+        'For outcomes that change several fields, use applyUpdates to apply them together',
         'After all updates, call progressStory to narrate the results',
+        ...(timeChanges.length > 0
+          ? [
+              `Time passed: ${timeChanges.join('; ')}${
+                result.time?.daysPassed ? ' (a new day begins)' : ''
+              }. Reflect the new time of day in the story`,
+            ]
+          : []),
+        ...(statusChanges.length > 0
+          ? [
+              `Status effects ticked: ${statusChanges.join('; ')}`,
+              'These changes are already applied - include them in the narration',
+            ]
+          : []),
+        'If the player regrets this choice, undoLastTurn restores the options',
         `Recent player choices: ${recentChoices || 'This is the first choice'}`,
       ]
     );
@@ -1257,17 +3592,26 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
       throw new Error('gameId parameter is required');
     }
 
-    const result = this.gameManager.getGame(params.gameId);
+    // 끝나기 전에 재시작하면 포기한 게임으로 기록
+    let game = this.gameManager.getGame(params.gameId).game;
+    if (!isGameEnded(game)) {
+      game = this.gameManager.endGame(
+        params.gameId,
+        'abandoned',
+        'The player restarted before the game ended'
+      );
+    }
 
-    // 최종 상태 요약
-    const finalState = {
-      title: result.game.state.title,
-      endedAt: result.game.updatedAt,
-      characters: result.game.state.characters,
-      world: result.game.state.world,
-      finalProgress: result.game.state.lastStoryProgress,
-      historyCount: result.game.state.gameHistory?.length || 0,
-    };
+    // 결과는 상태에 남은 값이 아니라 기록된 게임 상태에서 가져옴
+    const status = getGameStatus(game);
+    const endedAt = game.endedAt ?? game.updatedAt;
+    const historyCount = game.state._gameHistory?.length || 0;
+    const outcomeNote =
+      status === 'ended-win'
+        ? 'The previous game ended in victory - consider a sequel or a harder challenge'
+        : status === 'ended-loss'
+          ? 'The previous game ended in defeat - consider giving the player another shot'
+          : 'The previous game was abandoned - consider offering a different kind of adventure';
 
     const responseText = this.formatToolResponse(
       'selectRestart',
@@ -1275,14 +3619,15 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
       'Player requested game restart',
       {
         gameId: params.gameId,
-        title: result.game.state.title,
+        title: game.state.title,
         keyState: [
-          `Game ended at: ${result.game.updatedAt.toISOString()}`,
-          `Total decisions made: ${finalState.historyCount}`,
+          `Outcome: ${describeGameStatus(game)}`,
+          `Game ended at: ${endedAt.toISOString()}`,
+          `Total decisions made: ${historyCount}`,
           'Ready to start fresh',
         ],
       },
-      `Game "${result.game.state.title}" has ended. Player wants to start a new adventure.`,
+      `Game "${game.state.title}" has ended. Player wants to start a new adventure.`,
       {
         tool: 'createGame',
         reason: 'Create a fresh game with new initial state for the player',
@@ -1298,11 +3643,312 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
       [
         'Previous game summary provided for context',
         'Player is ready for a new adventure',
+        outcomeNote,
         'Consider lessons learned from previous game when creating new one',
-        `Previous game had ${finalState.historyCount} story decisions`,
+        `Previous game had ${historyCount} story decisions`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleSaveGame(params: SaveGameParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.label) {
+      throw new Error('gameId and label parameters are required');
+    }
+    const { game, slot, overwritten } = this.gameManager.saveGame(params.gameId, params.label);
+
+    const responseText = this.formatToolResponse(
+      'saveGame',
+      'success',
+      `Game saved to slot "${slot.label}"`,
+      {
+        gameId: params.gameId,
+        title: game.state.title,
+        keyState: [
+          `Save slot: "${slot.label}"${overwritten ? ' (overwritten)' : ''}`,
+          `Saved at: ${slot.createdAt.toISOString()}`,
+          `Total saves: ${game.saves?.length || 0}`,
+        ],
+      },
+      `Captured the complete game state under "${slot.label}". The player can return to this point with loadSave.`,
+      null,
+      'Save slot created - continue the current game flow',
+      [
+        'Saving does not change the current game; continue from where you left off',
+        `Use loadSave with label "${slot.label}" to return to this point`,
+      ]
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleListSaves(params: ListSavesParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    const game = this.gameManager.getGame(params.gameId).game;
+    const saves = this.gameManager.listSaves(params.gameId);
+
+    const responseText = this.formatToolResponse(
+      'listSaves',
+      'success',
+      `Found ${saves.length} save slot(s)`,
+      {
+        gameId: params.gameId,
+        title: game.state.title,
+        keyState: [`Total saves: ${saves.length}`],
+      },
+      saves.length > 0
+        ? saves
+            .map(
+              save =>
+                `- "${save.label}" (saved ${save.createdAt.toISOString()}): ${save.state.lastStoryProgress || 'No story progress yet'}`
+            )
+            .join('\n')
+        : 'No saves exist for this game yet.',
+      null,
+      'Inspection mode - use loadSave to restore one of these slots',
+      ['This is a read-only operation']
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleLoadSave(params: LoadSaveParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.label) {
+      throw new Error('gameId and label parameters are required');
+    }
+    const result = this.gameManager.loadSave(params.gameId, params.label);
+    const state = result.game.state;
+    const awaitingSelection = this.isAwaitingSelection(state);
+
+    const responseText = this.formatToolResponse(
+      'loadSave',
+      'success',
+      `Game restored from slot "${params.label}"`,
+      {
+        gameId: params.gameId,
+        title: state.title,
+        keyState: [
+          `Situation: "${state.lastStoryProgress || 'Not started'}"`,
+          `Location: ${state.world?.location || 'Unknown'}`,
+          `History: ${state._gameHistory?.length || 0}/10 entries`,
+        ],
+      },
+      awaitingSelection
+        ? 'Game state restored. The action UI has been re-rendered with the options presented at save time.'
+        : 'Game state restored to the saved point.',
+      awaitingSelection
+        ? null
+        : {
+            tool: 'progressStory',
+            reason: 'Re-establish the scene at the restored point for the player',
+            params: {
+              gameId: params.gameId,
+              progress: 'Recap the situation at the time of the save',
+            },
+          },
+      awaitingSelection
+        ? 'Restored → WAITING FOR USER → selectAction'
+        : 'Restored → [progressStory] → promptUserActions',
+      ['Everything after the save point has been discarded from the current game']
+    );
+
+    if (!awaitingSelection) {
+      return {
+        content: [{ type: 'text', text: responseText }],
+      };
+    }
+
+    const uiResource = this.createActionsResource(
+      params.gameId,
+      state.lastStoryProgress,
+      state._currentOptions
+    );
+
+    return {
+      content: [uiResource, { type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleDeleteSave(params: DeleteSaveParams): Promise<CallToolResult> {
+    if (!params.gameId || !params.label) {
+      throw new Error('gameId and label parameters are required');
+    }
+    const result = this.gameManager.deleteSave(params.gameId, params.label);
+
+    const responseText = this.formatToolResponse(
+      'deleteSave',
+      'success',
+      `Save slot "${params.label}" deleted`,
+      {
+        gameId: params.gameId,
+        title: result.game.state.title,
+        keyState: [`Remaining saves: ${result.game.saves?.length || 0}`],
+      },
+      `Removed save slot "${params.label}". The current game is unchanged.`,
+      null,
+      'Save slot removed - continue the current game flow'
+    );
+
+    return {
+      content: [{ type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleUndoLastTurn(params: UndoLastTurnParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    const result = this.gameManager.undoLastTurn(params.gameId);
+    return this.createRewindResult('undoLastTurn', params.gameId, result.game.state);
+  }
+
+  private async handleRewindToTurn(params: RewindToTurnParams): Promise<CallToolResult> {
+    if (!params.gameId || typeof params.turnIndex !== 'number') {
+      throw new Error('gameId and turnIndex parameters are required');
+    }
+    const result = this.gameManager.rewindToTurn(params.gameId, params.turnIndex);
+    return this.createRewindResult('rewindToTurn', params.gameId, result.game.state);
+  }
+
+  /**
+   * 되돌린 턴의 선택 UI와 응답 생성
+   */
+  private createRewindResult(toolName: string, gameId: string, state: GameState): CallToolResult {
+    const turn = state._turnCount ?? 0;
+
+    const responseText = this.formatToolResponse(
+      toolName,
+      'success',
+      `Game rewound to turn ${turn}`,
+      {
+        gameId,
+        title: state.title,
+        keyState: [
+          `Situation: "${state.lastStoryProgress}"`,
+          `Current turn: ${turn}`,
+          `History: ${state._gameHistory?.length || 0}/10 entries`,
+        ],
+      },
+      `Rolled the game back to just before the player's choice on turn ${turn}. All later choices and state changes were discarded and the original options are presented again.`,
+      null,
+      'Rewound → WAITING FOR USER → selectAction',
+      [
+        'Do not narrate the discarded turns as if they happened',
+        `Options presented: ${(state._currentOptions as string[]).map((o, i) => `[${i}] ${o}`).join('; ')}`,
       ]
     );
 
+    const uiResource = this.createActionsResource(
+      gameId,
+      state.lastStoryProgress,
+      state._currentOptions
+    );
+
+    return {
+      content: [uiResource, { type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleForkGame(params: ForkGameParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    if (params.turnIndex !== undefined && typeof params.turnIndex !== 'number') {
+      throw new Error('turnIndex must be a number');
+    }
+    const result = this.gameManager.forkGame(params.gameId, params.turnIndex);
+    const fork = result.game;
+    const awaitingSelection = this.isAwaitingSelection(fork.state);
+
+    const responseText = this.formatToolResponse(
+      'forkGame',
+      'success',
+      `Forked game ${params.gameId} as ${fork.gameId}`,
+      {
+        gameId: fork.gameId,
+        title: fork.state.title,
+        keyState: [
+          `Parent game: ${fork.parentGameId}`,
+          `Forked at turn: ${fork.forkedAtTurn}`,
+          `Situation: "${fork.state.lastStoryProgress || 'Not started'}"`,
+        ],
+      },
+      `Created a new timeline from turn ${fork.forkedAtTurn} of the original game. Use the new gameId "${fork.gameId}" for all further calls in this branch; the original game is unchanged.`,
+      awaitingSelection
+        ? null
+        : {
+            tool: 'progressStory',
+            reason: 'Continue the narrative in the new branch',
+            params: {
+              gameId: fork.gameId,
+              progress: 'Describe the situation at the branching point',
+            },
+          },
+      awaitingSelection
+        ? 'Forked → WAITING FOR USER → selectAction'
+        : 'Forked → [progressStory] → promptUserActions',
+      ['Use listTimelines to compare this branch with the others']
+    );
+
+    if (!awaitingSelection) {
+      return {
+        content: [{ type: 'text', text: responseText }],
+      };
+    }
+
+    const uiResource = this.createActionsResource(
+      fork.gameId,
+      fork.state.lastStoryProgress,
+      fork.state._currentOptions
+    );
+
+    return {
+      content: [uiResource, { type: 'text', text: responseText }],
+    };
+  }
+
+  private async handleListTimelines(params: ListTimelinesParams): Promise<CallToolResult> {
+    if (!params.gameId) {
+      throw new Error('gameId parameter is required');
+    }
+    const root = this.gameManager.listTimelines(params.gameId);
+
+    let branchCount = 0;
+    const renderNode = (node: TimelineNode, depth: number): string[] => {
+      branchCount++;
+      const { game } = node;
+      const marker = game.gameId === params.gameId ? ' ← current' : '';
+      const forkInfo =
+        game.forkedAtTurn !== undefined ? ` (forked at turn ${game.forkedAtTurn})` : ' (root)';
+      const line = `${'  '.repeat(depth)}- ${game.gameId}${forkInfo}: turn ${game.state._turnCount ?? 0}, "${game.state.lastStoryProgress || 'Not started'}"${marker}`;
+      return [line, ...node.children.flatMap(child => renderNode(child, depth + 1))];
+    };
+    const tree = renderNode(root, 0).join('\n');
+
+    const responseText = this.formatToolResponse(
+      'listTimelines',
+      'success',
+      `Found ${branchCount} timeline(s)`,
+      {
+        gameId: params.gameId,
+        title: root.game.state.title,
+        keyState: [`Root game: ${root.game.gameId}`, `Timelines: ${branchCount}`],
+      },
+      `Timeline tree:\n${tree}`,
+      null,
+      'Inspection mode - use getGame on any branch to compare its state',
+      ['This is a read-only operation']
+    );
+
     return {
       content: [{ type: 'text', text: responseText }],
     };
@@ -1318,9 +3964,21 @@ Example: ["Approach the stranger cautiously and chat (might gather info or be de
   }
 }
 
-// 서버 실행
-const server = new RPGMCPServer();
-server.run().catch((error: Error) => {
+// 서버 실행 (저장소 초기화 후 시작)
+async function main(): Promise<void> {
+  const config = loadServerConfig(process.argv.slice(2), process.env);
+  const store = await createGameStore(config.storage);
+  console.error(`Using ${config.storage.backend} game storage`);
+  const templates = new TemplateRegistry();
+  if (config.templateDir) {
+    const loaded = templates.loadDirectory(config.templateDir);
+    console.error(`Loaded UI themes from ${config.templateDir}: ${loaded.join(', ') || '(none)'}`);
+  }
+  const server = new RPGMCPServer(new GameManager(store), templates);
+  await server.run();
+}
+
+main().catch((error: Error) => {
   console.error('Server startup error:', error);
   process.exit(1);
 });
@@ -0,0 +1,348 @@
+import type {
+  Character,
+  GameState,
+  InventoryChange,
+  InventoryItem,
+  InventoryLimits,
+  Locale,
+} from './types.js';
+import { getFriendlyFieldName, translate } from './i18n.js';
+
+/**
+ * 공용(파티) 인벤토리를 가리키는 소유자 이름
+ */
+export const PARTY_INVENTORY = 'party';
+
+const DEFAULT_EQUIP_SLOT = 'gear';
+
+/**
+ * 인벤토리 소유자 - 공용 인벤토리(state.inventory) 또는 캐릭터별 인벤토리
+ */
+interface InventoryOwner {
+  items: InventoryItem[];
+  path: string; // 예: "inventory", "characters[1].inventory"
+  location: string; // 에러 메시지용 (예: "the inventory")
+  name: string;
+  limits?: InventoryLimits;
+}
+
+/**
+ * 아이템 추가 - 같은 id 또는 이름의 (장착하지 않은) 아이템이 있으면 수량을 합친다.
+ */
+export function addInventoryItem(
+  state: GameState,
+  ownerName: string | undefined,
+  item: InventoryItem,
+  quantity: number = item?.quantity ?? 1
+): InventoryChange[] {
+  if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+    throw new Error('item must be an object with a name');
+  }
+  requireQuantity(quantity);
+  const owner = getOwner(state, ownerName);
+
+  const stack = owner.items.find(
+    existing =>
+      !existing.equipped && (item.id ? existing.id === item.id : sameName(existing, item.name))
+  );
+  const before = stack ? getQuantity(stack) : 0;
+  if (stack) {
+    stack.quantity = before + quantity;
+  } else {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { equipped, ...rest } = item;
+    owner.items.push({ ...rest, quantity });
+  }
+  checkLimits(owner, `add ${quantity} ${item.name}`);
+
+  const name = stack?.name ?? item.name;
+  return [quantityChange(owner, name, before, before + quantity, 'quantity')];
+}
+
+/**
+ * 아이템 제거 - 가진 수량보다 많이 제거할 수 없으며 0개가 되면 목록에서 뺀다.
+ */
+export function removeInventoryItem(
+  state: GameState,
+  ownerName: string | undefined,
+  key: string,
+  quantity = 1,
+  kind: 'quantity' | 'use' = 'quantity'
+): { item: InventoryItem; changes: InventoryChange[] } {
+  requireQuantity(quantity);
+  const owner = getOwner(state, ownerName);
+  const item = findItem(owner, key);
+
+  const before = getQuantity(item);
+  if (quantity > before) {
+    throw new Error(
+      `Cannot ${kind === 'use' ? 'use' : 'remove'} ${quantity} ${item.name}: only ${before} in ${owner.location}`
+    );
+  }
+  if (quantity === before) {
+    owner.items.splice(owner.items.indexOf(item), 1);
+  } else {
+    item.quantity = before - quantity;
+  }
+
+  return {
+    item,
+    changes: [quantityChange(owner, item.name, before, before - quantity, kind)],
+  };
+}
+
+/**
+ * 아이템 장착/해제 - 같은 슬롯에 장착된 다른 아이템은 해제된다.
+ * 여러 개가 쌓인 아이템은 하나만 떼어내어 장착한다.
+ */
+export function equipInventoryItem(
+  state: GameState,
+  ownerName: string | undefined,
+  key: string,
+  slot?: string,
+  unequip = false
+): InventoryChange[] {
+  const owner = getOwner(state, ownerName);
+
+  if (unequip) {
+    const item = findItem(owner, key, true);
+    if (!item.equipped) {
+      throw new Error(`${item.name} is not equipped`);
+    }
+    item.equipped = false;
+    return [equipChange(owner, item, true, false)];
+  }
+
+  const item = findItem(owner, key);
+  if (item.equipped) {
+    throw new Error(`${item.name} is already equipped (${item.slot})`);
+  }
+  const targetSlot = slot ?? item.slot ?? item.type ?? DEFAULT_EQUIP_SLOT;
+  const changes: InventoryChange[] = [];
+
+  for (const other of owner.items) {
+    if (other.equipped && other.slot === targetSlot) {
+      other.equipped = false;
+      changes.push(equipChange(owner, other, true, false));
+    }
+  }
+
+  let equipped = item;
+  const quantity = getQuantity(item);
+  if (quantity > 1) {
+    item.quantity = quantity - 1;
+    equipped = { ...item, quantity: 1 };
+    owner.items.push(equipped);
+  }
+  equipped.equipped = true;
+  equipped.slot = targetSlot;
+  changes.push(equipChange(owner, equipped, false, true));
+  return changes;
+}
+
+/**
+ * 소유자 사이에서 아이템 이동 (받는 쪽의 무게/슬롯 제한을 검사)
+ */
+export function transferInventoryItem(
+  state: GameState,
+  fromName: string,
+  toName: string,
+  key: string,
+  quantity = 1
+): InventoryChange[] {
+  const from = getOwner(state, fromName);
+  const to = getOwner(state, toName);
+  if (from.path === to.path) {
+    throw new Error('Cannot transfer an item to the same inventory');
+  }
+
+  const removed = removeInventoryItem(state, fromName, key, quantity);
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { quantity: _quantity, equipped, ...item } = removed.item;
+  const added = addInventoryItem(state, toName, item, quantity);
+
+  return [
+    ...removed.changes.map(change => ({ ...change, counterpart: to.name })),
+    ...added.map(change => ({ ...change, counterpart: from.name })),
+  ];
+}
+
+/**
+ * 인벤토리 변경 설명 (예: "Inventory: +2 Healing Potion") - 도구 응답은 영어, delta는 게임의 로케일
+ */
+export function describeInventoryChange(
+  change: InventoryChange,
+  initialValue: unknown = change.initialValue,
+  finalValue: unknown = change.finalValue,
+  locale: Locale = 'en'
+): string {
+  const params = { label: describeOwner(change, locale), item: change.itemName };
+  if (change.kind === 'equip') {
+    return finalValue
+      ? translate(locale, 'delta.inventory.equipped', { ...params, slot: String(finalValue) })
+      : translate(locale, 'delta.inventory.unequipped', params);
+  }
+
+  const from = Number(initialValue ?? 0);
+  const to = Number(finalValue ?? 0);
+  const diff = to - from;
+  if (change.kind === 'use' && diff < 0) {
+    return translate(locale, -diff > 1 ? 'delta.inventory.usedMany' : 'delta.inventory.used', {
+      ...params,
+      amount: -diff,
+      left: to,
+    });
+  }
+  if (diff === 0) {
+    return translate(locale, 'delta.inventory.unchanged', params);
+  }
+
+  const parts = [
+    translate(locale, diff > 0 ? 'delta.inventory.gained' : 'delta.inventory.lost', {
+      ...params,
+      amount: Math.abs(diff),
+    }),
+  ];
+  if (change.counterpart) {
+    parts.push(
+      translate(locale, diff > 0 ? 'delta.inventory.from' : 'delta.inventory.to', {
+        name: change.counterpart,
+      })
+    );
+  }
+  if (diff < 0 && to > 0) {
+    parts.push(translate(locale, 'delta.inventory.left', { count: to }));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * 변경 설명에 쓰는 소유자 이름 (예: "Inventory", "Aria's inventory", 장착은 "Equipment"나 캐릭터 이름)
+ */
+function describeOwner(change: InventoryChange, locale: Locale): string {
+  if (change.owner === PARTY_INVENTORY) {
+    return getFriendlyFieldName(locale, change.kind === 'equip' ? 'equipment' : 'inventory');
+  }
+  return change.kind === 'equip'
+    ? change.owner
+    : translate(locale, 'delta.inventory.owner', { name: change.owner });
+}
+
+/**
+ * 소유자의 인벤토리 조회 (없으면 빈 배열을 만들어 연결)
+ */
+function getOwner(state: GameState, ownerName: string | undefined): InventoryOwner {
+  if (!ownerName || ownerName === PARTY_INVENTORY) {
+    if (!state.inventory) {
+      state.inventory = [];
+    }
+    return {
+      items: state.inventory,
+      path: 'inventory',
+      location: 'the inventory',
+      name: PARTY_INVENTORY,
+      limits: state.inventoryLimits,
+    };
+  }
+
+  const index = (state.characters ?? []).findIndex(c => sameName(c, ownerName));
+  if (index < 0) {
+    throw new Error(
+      `Unknown inventory owner "${ownerName}". Use a character name or "${PARTY_INVENTORY}"`
+    );
+  }
+  const character = (state.characters as Character[])[index];
+  if (!character.inventory) {
+    character.inventory = [];
+  }
+  return {
+    items: character.inventory,
+    path: `characters[${index}].inventory`,
+    location: `${character.name}'s inventory`,
+    name: character.name,
+    limits: character.inventoryLimits,
+  };
+}
+
+/**
+ * id 또는 이름으로 아이템 검색 (장착하지 않은 아이템을 우선, preferEquipped면 장착한 것을 우선)
+ */
+function findItem(owner: InventoryOwner, key: string, preferEquipped = false): InventoryItem {
+  if (typeof key !== 'string' || !key) {
+    throw new Error('item name or id is required');
+  }
+  const matches = owner.items.filter(item => item.id === key || sameName(item, key));
+  const item = matches.find(match => !!match.equipped === preferEquipped) ?? matches[0];
+  if (!item) {
+    throw new Error(`No "${key}" in ${owner.location}`);
+  }
+  return item;
+}
+
+/**
+ * 무게/슬롯 제한 검사 (슬롯은 아이템 묶음 수 기준)
+ */
+function checkLimits(owner: InventoryOwner, what: string): void {
+  const { maxWeight, maxSlots } = owner.limits ?? {};
+  if (typeof maxSlots === 'number' && owner.items.length > maxSlots) {
+    throw new Error(`Cannot ${what}: ${owner.location} has no free slot (${maxSlots} slots)`);
+  }
+  if (typeof maxWeight === 'number') {
+    const weight = owner.items.reduce(
+      (sum, item) => sum + (typeof item.weight === 'number' ? item.weight * getQuantity(item) : 0),
+      0
+    );
+    if (weight > maxWeight) {
+      throw new Error(
+        `Cannot ${what}: ${owner.location} would weigh ${weight} (limit ${maxWeight})`
+      );
+    }
+  }
+}
+
+function quantityChange(
+  owner: InventoryOwner,
+  itemName: string,
+  initialValue: number,
+  finalValue: number,
+  kind: 'quantity' | 'use'
+): InventoryChange {
+  return {
+    field: `${owner.path}[name=${itemName}].quantity`,
+    owner: owner.name,
+    itemName,
+    initialValue,
+    finalValue,
+    kind,
+  };
+}
+
+function equipChange(
+  owner: InventoryOwner,
+  item: InventoryItem,
+  wasEquipped: boolean,
+  isEquipped: boolean
+): InventoryChange {
+  return {
+    field: `${owner.path}[name=${item.name}].equipped`,
+    owner: owner.name,
+    itemName: item.name,
+    initialValue: wasEquipped ? item.slot : false,
+    finalValue: isEquipped ? item.slot : false,
+    kind: 'equip',
+  };
+}
+
+function requireQuantity(quantity: number): void {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('quantity must be a positive integer');
+  }
+}
+
+function getQuantity(item: InventoryItem): number {
+  return typeof item.quantity === 'number' ? item.quantity : 1;
+}
+
+function sameName(item: { name?: unknown }, name: string): boolean {
+  return typeof item.name === 'string' && item.name.toLowerCase() === name.toLowerCase();
+}
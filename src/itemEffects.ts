@@ -0,0 +1,377 @@
+import type {
+  ActiveEffect,
+  Character,
+  EffectiveStat,
+  GameState,
+  InventoryItem,
+  ItemDefinition,
+  Locale,
+  StatChange,
+} from './types.js';
+import { assertValidNotation } from './dice.js';
+import type { DiceRoller } from './dice.js';
+import { getFriendlyFieldName, translate } from './i18n.js';
+
+/**
+ * 능력치 보정 하나와 그 출처
+ */
+interface StatBonus {
+  stat: string;
+  value: number;
+  source: string;
+}
+
+/**
+ * 아이템 정의 목록을 검증하여 카탈로그(소문자 이름 -> 정의)로 변환
+ */
+export function normalizeItemDefinitions(items: ItemDefinition[]): Record<string, ItemDefinition> {
+  if (!Array.isArray(items)) {
+    throw new Error('items must be an array of item definitions');
+  }
+
+  const catalog: Record<string, ItemDefinition> = {};
+  items.forEach((item, index) => {
+    if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+      throw new Error(`Item definition #${index}: name is required`);
+    }
+    const label = `Item definition "${item.name}"`;
+    requireNumberMap(item.modifiers, `${label}: modifiers`);
+    if (item.damage !== undefined) {
+      assertValidNotation(item.damage);
+    }
+    if (item.effect !== undefined) {
+      if (!item.effect || typeof item.effect !== 'object') {
+        throw new Error(`${label}: effect must be an object`);
+      }
+      requireNumberMap(item.effect.modifiers, `${label}: effect.modifiers`);
+      requireNumberMap(item.effect.perTurn, `${label}: effect.perTurn`);
+      requireDuration(item.effect.duration, `${label}: effect.duration`);
+      for (const [stat, amount] of Object.entries(item.effect.restore ?? {})) {
+        if (typeof amount === 'string') {
+          assertValidNotation(amount);
+        } else if (typeof amount !== 'number') {
+          throw new Error(`${label}: effect.restore.${stat} must be a number or dice notation`);
+        }
+      }
+    }
+    catalog[item.name.toLowerCase()] = item;
+  });
+  return catalog;
+}
+
+/**
+ * 아이템의 정의 조회 - 카탈로그 정의에 인벤토리 항목에 직접 적힌 modifiers/effect/damage를 덮어씀
+ */
+export function findItemDefinition(
+  state: GameState,
+  item: InventoryItem | string
+): ItemDefinition | undefined {
+  const name = typeof item === 'string' ? item : item.name;
+  const catalogEntry = state._itemCatalog?.[name.toLowerCase()];
+  if (typeof item === 'string') {
+    return catalogEntry;
+  }
+
+  const inline: Partial<ItemDefinition> = {};
+  if (item.modifiers) inline.modifiers = item.modifiers;
+  if (item.effect) inline.effect = item.effect;
+  if (item.damage) inline.damage = item.damage;
+  if (!catalogEntry && Object.keys(inline).length === 0) {
+    return undefined;
+  }
+  return { ...catalogEntry, ...inline, name: catalogEntry?.name ?? item.name };
+}
+
+/**
+ * 캐릭터가 장착한 아이템 정의 목록 (개인 인벤토리의 장착 아이템 + equipment 맵)
+ */
+export function getEquippedItems(state: GameState, character: Character): ItemDefinition[] {
+  const equipped: ItemDefinition[] = [];
+  const names = new Set<string>();
+
+  for (const item of character.inventory ?? []) {
+    if (!item.equipped) continue;
+    const definition = findItemDefinition(state, item);
+    if (definition) {
+      equipped.push(definition);
+      names.add(item.name.toLowerCase());
+    }
+  }
+  // 인벤토리로 이미 장착한 아이템은 중복으로 세지 않음
+  const equipment = character.equipment ?? character['장비'] ?? {};
+  for (const name of Object.values(equipment)) {
+    if (typeof name !== 'string' || names.has(name.toLowerCase())) continue;
+    const definition = findItemDefinition(state, name);
+    if (definition) {
+      equipped.push(definition);
+    }
+  }
+  return equipped;
+}
+
+/**
+ * 능력치의 기본값 - stats 맵을 우선하고, 없으면 캐릭터의 최상위 숫자 필드(hp, ac 등)
+ */
+export function getBaseStat(character: Character, stat: string): number | undefined {
+  const fromStats = character.stats?.[stat];
+  if (typeof fromStats === 'number') {
+    return fromStats;
+  }
+  return typeof character[stat] === 'number' ? character[stat] : undefined;
+}
+
+/**
+ * 기본값 + 장비 + 적용 중인 효과로 계산한 능력치 (stats 맵의 능력치와 보정이 있는 능력치)
+ */
+export function getEffectiveStats(
+  state: GameState,
+  character: Character
+): Record<string, EffectiveStat> {
+  const result: Record<string, EffectiveStat> = {};
+  const ensure = (stat: string): EffectiveStat => {
+    if (!result[stat]) {
+      const base = getBaseStat(character, stat) ?? 0;
+      result[stat] = { base, bonus: 0, effective: base, sources: [] };
+    }
+    return result[stat];
+  };
+
+  for (const [stat, value] of Object.entries(character.stats ?? {})) {
+    if (typeof value === 'number') {
+      ensure(stat);
+    }
+  }
+  for (const bonus of getStatBonuses(state, character)) {
+    const entry = ensure(bonus.stat);
+    entry.bonus += bonus.value;
+    entry.effective += bonus.value;
+    entry.sources.push(`${bonus.source} ${formatSigned(bonus.value)}`);
+  }
+  return result;
+}
+
+/**
+ * 능력치 하나의 실제 값 (기본값이 없으면 보정치만 합산)
+ */
+export function getEffectiveStat(
+  state: GameState,
+  character: Character,
+  stat: string
+): number | undefined {
+  const base = getBaseStat(character, stat);
+  const bonus = getStatBonus(state, character, stat);
+  return base === undefined && bonus === 0 ? undefined : (base ?? 0) + bonus;
+}
+
+/**
+ * 장비와 효과로 얻은 보정치 합계
+ */
+export function getStatBonus(state: GameState, character: Character, stat: string): number {
+  return getStatBonuses(state, character)
+    .filter(entry => entry.stat === stat)
+    .reduce((sum, entry) => sum + entry.value, 0);
+}
+
+/**
+ * 소모품 효과를 캐릭터에게 적용하고 바뀐 수치를 반환
+ * 같은 이름의 지속 효과는 중첩되지 않고 새로 갱신된다.
+ */
+export function applyItemEffect(
+  state: GameState,
+  characterIndex: number,
+  definition: ItemDefinition,
+  roll: DiceRoller,
+  times = 1
+): StatChange[] {
+  const character = state.characters?.[characterIndex];
+  if (!character) {
+    throw new Error(`Character #${characterIndex} not found`);
+  }
+  const effect = definition.effect;
+  if (!effect) {
+    return [];
+  }
+  const changes: StatChange[] = [];
+
+  for (const [stat, amount] of Object.entries(effect.restore ?? {})) {
+    let total = 0;
+    for (let i = 0; i < times; i++) {
+      total +=
+        typeof amount === 'number'
+          ? amount
+          : roll(amount, `${definition.name} restores ${character.name}'s ${stat}`).total;
+    }
+    changes.push(adjustStat(character, characterIndex, stat, total));
+  }
+
+  const hasModifiers = effect.modifiers && Object.keys(effect.modifiers).length > 0;
+  const hasPerTurn = effect.perTurn && Object.keys(effect.perTurn).length > 0;
+  if (hasModifiers || hasPerTurn) {
+    const active: ActiveEffect = { name: definition.name, source: definition.name };
+    if (hasModifiers) active.modifiers = { ...effect.modifiers };
+    if (hasPerTurn) active.perTurn = { ...effect.perTurn };
+    if (effect.duration !== undefined) active.duration = effect.duration;
+    changes.push(setActiveEffect(character, characterIndex, active));
+  }
+
+  return changes;
+}
+
+/**
+ * 캐릭터에 지속 효과를 추가하고 변화를 반환 - 같은 이름의 효과는 새 효과로 교체
+ */
+export function setActiveEffect(
+  character: Character,
+  characterIndex: number,
+  effect: ActiveEffect
+): StatChange {
+  const previous = character.effects?.find(active => active.name === effect.name);
+  character.effects = [
+    ...(character.effects ?? []).filter(active => active.name !== effect.name),
+    effect,
+  ];
+  return {
+    field: `characters[${characterIndex}].effects[name=${effect.name}]`,
+    label: character.name,
+    initialValue: previous,
+    finalValue: effect,
+    message: {
+      key: previous ? 'delta.effect.renewed' : 'delta.effect.active',
+      params: { label: character.name, effect: effect.name },
+      effect,
+    },
+  };
+}
+
+/**
+ * 수치를 더하거나 빼고 변화를 반환
+ * 증가는 max<Stat> 필드(예: maxHp)를 넘지 않고, 감소는 0 아래로 내려가지 않는다.
+ */
+export function adjustStat(
+  character: Character,
+  characterIndex: number,
+  stat: string,
+  amount: number
+): StatChange {
+  const inStats = typeof character.stats?.[stat] === 'number';
+  const before = getBaseStat(character, stat) ?? 0;
+  let after: number;
+  if (amount >= 0) {
+    const max = getBaseStat(character, `max${stat.charAt(0).toUpperCase()}${stat.slice(1)}`);
+    after = max === undefined ? before + amount : Math.max(before, Math.min(max, before + amount));
+  } else {
+    after = Math.max(Math.min(before, 0), before + amount);
+  }
+
+  if (inStats) {
+    character.stats[stat] = after;
+  } else {
+    character[stat] = after;
+  }
+  return {
+    field: `characters[${characterIndex}].${inStats ? `stats.${stat}` : stat}`,
+    label: `${character.name} ${formatStatName(stat)}`,
+    initialValue: before,
+    finalValue: after,
+  };
+}
+
+/**
+ * 지속 효과 설명 (예: "str +4, hp -5/turn, 3 turns left") - 도구 응답은 영어, delta는 게임의 로케일
+ */
+export function describeActiveEffect(effect: ActiveEffect, locale: Locale = 'en'): string {
+  const parts: string[] = [];
+  if (effect.modifiers && Object.keys(effect.modifiers).length > 0) {
+    parts.push(describeModifiers(effect.modifiers));
+  }
+  for (const [stat, value] of Object.entries(effect.perTurn ?? {})) {
+    parts.push(translate(locale, 'delta.effect.perTurn', { stat, value: formatSigned(value) }));
+  }
+  if (effect.duration !== undefined) {
+    parts.push(
+      translate(
+        locale,
+        effect.duration === 1 ? 'delta.effect.turnLeft' : 'delta.effect.turnsLeft',
+        {
+          count: effect.duration,
+        }
+      )
+    );
+  }
+  return parts.join(', ');
+}
+
+/**
+ * 수치 변화 설명 (예: "Aria HP: 10 → 40") - message가 있으면 로케일로 번역
+ */
+export function describeStatChange(
+  change: StatChange,
+  initialValue: unknown = change.initialValue,
+  finalValue: unknown = change.finalValue,
+  locale: Locale = 'en'
+): string {
+  if (change.message) {
+    const { key, params, effect } = change.message;
+    const details = effect ? describeActiveEffect(effect, locale) : '';
+    return `${translate(locale, key, params)}${details ? ` (${details})` : ''}`;
+  }
+  const label = change.labelField ? getFriendlyFieldName(locale, change.labelField) : change.label;
+  return change.description ?? `${label}: ${initialValue} → ${finalValue}`;
+}
+
+/**
+ * 보정치 설명 (예: "attack +5, dex -1")
+ */
+export function describeModifiers(modifiers: Record<string, number>): string {
+  return Object.entries(modifiers)
+    .map(([stat, value]) => `${stat} ${formatSigned(value)}`)
+    .join(', ');
+}
+
+function getStatBonuses(state: GameState, character: Character): StatBonus[] {
+  const bonuses: StatBonus[] = [];
+  for (const item of getEquippedItems(state, character)) {
+    for (const [stat, value] of Object.entries(item.modifiers ?? {})) {
+      bonuses.push({ stat, value, source: item.name });
+    }
+  }
+  for (const effect of character.effects ?? []) {
+    for (const [stat, value] of Object.entries(effect.modifiers ?? {})) {
+      bonuses.push({ stat, value, source: effect.name });
+    }
+  }
+  return bonuses;
+}
+
+/**
+ * 숫자 맵 검증 (예: modifiers, perTurn)
+ */
+export function requireNumberMap(value: unknown, label: string): void {
+  if (value === undefined) {
+    return;
+  }
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    Object.values(value).some(entry => typeof entry !== 'number')
+  ) {
+    throw new Error(`${label} must map stat names to numbers`);
+  }
+}
+
+/**
+ * 지속 턴 수 검증 (1 이상의 정수)
+ */
+export function requireDuration(value: unknown, label: string): void {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+    throw new Error(`${label} must be a positive integer number of turns`);
+  }
+}
+
+function formatSigned(value: number): string {
+  return value >= 0 ? `+${value}` : String(value);
+}
+
+function formatStatName(stat: string): string {
+  return ['hp', 'mp', 'ac'].includes(stat) ? stat.toUpperCase() : stat;
+}
@@ -0,0 +1,219 @@
+import type {
+  GameState,
+  InventoryChange,
+  LocationConnection,
+  LocationExit,
+  LocationNode,
+  StatChange,
+} from './types.js';
+import { getNestedValue, setNestedValue } from './fieldPath.js';
+import { PARTY_INVENTORY, removeInventoryItem } from './inventory.js';
+
+/**
+ * 장소 추가 또는 설명 갱신 (이름은 대소문자 구분 없이 비교)
+ */
+export function defineLocation(
+  state: GameState,
+  input: { name: string; description?: string; tags?: string[] }
+): { location: LocationNode; created: boolean } {
+  if (!input || typeof input.name !== 'string' || !input.name.trim()) {
+    throw new Error('Location name is required');
+  }
+  if (input.tags !== undefined && !Array.isArray(input.tags)) {
+    throw new Error('tags must be an array of strings');
+  }
+
+  const locations = state._locations ?? [];
+  const existing = locations.find(location => sameName(location.name, input.name));
+  if (existing) {
+    if (input.description !== undefined) existing.description = input.description;
+    if (input.tags !== undefined) existing.tags = [...input.tags];
+    return { location: existing, created: false };
+  }
+
+  const location: LocationNode = { name: input.name.trim() };
+  if (input.description !== undefined) location.description = input.description;
+  if (input.tags !== undefined) location.tags = [...input.tags];
+  state._locations = [...locations, location];
+  return { location, created: true };
+}
+
+/**
+ * 두 장소 연결 - 같은 두 장소 사이의 길이 이미 있으면 교체
+ */
+export function connectLocations(state: GameState, input: LocationConnection): LocationConnection {
+  const from = findLocation(state, input?.from);
+  const to = findLocation(state, input?.to);
+  if (from === to) {
+    throw new Error('A connection needs two different locations');
+  }
+  if (input.time !== undefined && (!Number.isInteger(input.time) || input.time < 0)) {
+    throw new Error('time must be a non-negative integer number of time slots');
+  }
+  requireAmounts(input.cost, 'cost');
+  requireAmounts(input.items, 'items');
+
+  const connection: LocationConnection = { from: from.name, to: to.name };
+  if (input.oneWay) connection.oneWay = true;
+  if (input.time) connection.time = input.time;
+  if (input.cost && Object.keys(input.cost).length > 0) connection.cost = { ...input.cost };
+  if (input.items && Object.keys(input.items).length > 0) connection.items = { ...input.items };
+  if (input.description) connection.description = input.description;
+
+  state._connections = [
+    ...(state._connections ?? []).filter(
+      existing =>
+        !(existing.from === from.name && existing.to === to.name) &&
+        !(existing.from === to.name && existing.to === from.name)
+    ),
+    connection,
+  ];
+  return connection;
+}
+
+/**
+ * 장소에서 갈 수 있는 곳 목록 (한 방향 길은 from 쪽에서만)
+ */
+export function getExits(state: GameState, locationName: string | undefined): LocationExit[] {
+  if (!locationName) {
+    return [];
+  }
+  const exits: LocationExit[] = [];
+  for (const connection of state._connections ?? []) {
+    if (sameName(connection.from, locationName)) {
+      exits.push({ destination: connection.to, connection });
+    } else if (!connection.oneWay && sameName(connection.to, locationName)) {
+      exits.push({ destination: connection.from, connection });
+    }
+  }
+  return exits;
+}
+
+/**
+ * 지도에 정의된 장소 조회
+ */
+export function getLocation(state: GameState, name: string | undefined): LocationNode | undefined {
+  return name
+    ? (state._locations ?? []).find(location => sameName(location.name, name))
+    : undefined;
+}
+
+/**
+ * 현재 장소에서 이웃한 장소로 이동 - 자원/아이템을 소모하고 world.location을 갱신
+ * 시간 소모는 호출 측에서 시계로 처리한다.
+ */
+export function travel(
+  state: GameState,
+  destinationName: string
+): {
+  from: string;
+  to: LocationNode;
+  connection: LocationConnection;
+  changes: StatChange[];
+  inventoryChanges: InventoryChange[];
+} {
+  const current = getLocation(state, state.world?.location);
+  if (!current) {
+    throw new Error(
+      state.world?.location
+        ? `The current location "${state.world.location}" is not on the map. Define it with defineLocation first`
+        : 'The party has no location. Use defineLocation with here: true to place it'
+    );
+  }
+  const destination = findLocation(state, destinationName);
+  const exit = getExits(state, current.name).find(entry =>
+    sameName(entry.destination, destination.name)
+  );
+  if (!exit) {
+    const exits = getExits(state, current.name).map(entry => entry.destination);
+    throw new Error(
+      `${destination.name} cannot be reached from ${current.name}. Exits: ${exits.join(', ') || '(none)'}`
+    );
+  }
+
+  const changes: StatChange[] = [];
+  for (const [path, amount] of Object.entries(exit.connection.cost ?? {})) {
+    const value = getNestedValue(state, path);
+    if (typeof value !== 'number') {
+      throw new Error(`Travel cost field ${path} is not a number in the game state`);
+    }
+    if (value < amount) {
+      throw new Error(
+        `Not enough ${path} to travel to ${destination.name} (have ${value}, need ${amount})`
+      );
+    }
+    setNestedValue(state, path, value - amount);
+    changes.push({ field: path, label: path, initialValue: value, finalValue: value - amount });
+  }
+
+  const inventoryChanges: InventoryChange[] = [];
+  for (const [item, quantity] of Object.entries(exit.connection.items ?? {})) {
+    inventoryChanges.push(
+      ...removeInventoryItem(state, PARTY_INVENTORY, item, quantity, 'use').changes
+    );
+  }
+
+  changes.push({
+    field: 'world.location',
+    label: 'Location',
+    labelField: 'location',
+    initialValue: current.name,
+    finalValue: destination.name,
+  });
+  state.world = { ...state.world, location: destination.name };
+  current.visited = true;
+  destination.visited = true;
+
+  return {
+    from: current.name,
+    to: destination,
+    connection: exit.connection,
+    changes,
+    inventoryChanges,
+  };
+}
+
+/**
+ * 길의 비용 설명 (예: "2 time slots, 자원.골드 -10, Torch x1")
+ */
+export function describeTravelCost(connection: LocationConnection): string {
+  const parts: string[] = [];
+  if (connection.time) {
+    parts.push(`${connection.time} time slot${connection.time === 1 ? '' : 's'}`);
+  }
+  for (const [path, amount] of Object.entries(connection.cost ?? {})) {
+    parts.push(`${path} -${amount}`);
+  }
+  for (const [item, quantity] of Object.entries(connection.items ?? {})) {
+    parts.push(`${item} x${quantity}`);
+  }
+  return parts.join(', ') || 'free';
+}
+
+function findLocation(state: GameState, name: string | undefined): LocationNode {
+  const location = getLocation(state, name);
+  if (!location) {
+    const known = (state._locations ?? []).map(entry => entry.name);
+    throw new Error(
+      `Unknown location "${name}". Known locations: ${known.join(', ') || '(none - use defineLocation)'}`
+    );
+  }
+  return location;
+}
+
+function requireAmounts(value: unknown, label: string): void {
+  if (value === undefined) {
+    return;
+  }
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    Object.values(value).some(amount => typeof amount !== 'number' || amount < 0)
+  ) {
+    throw new Error(`${label} must map names to non-negative numbers`);
+  }
+}
+
+function sameName(a: string, b: string): boolean {
+  return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+}
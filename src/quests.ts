@@ -0,0 +1,239 @@
+import type {
+  GameState,
+  LocalizedMessage,
+  Quest,
+  QuestObjective,
+  QuestObjectiveInput,
+  StatChange,
+} from './types.js';
+
+/**
+ * updateObjective 변경 내용 - 아무것도 지정하지 않으면 카운터 +1, 체크리스트는 완료 처리
+ */
+export interface ObjectiveUpdate {
+  progress?: number;
+  increment?: number;
+  done?: boolean;
+}
+
+/**
+ * 새 퀘스트 추가 (id를 생략하면 제목으로 생성)
+ */
+export function addQuest(
+  state: GameState,
+  input: {
+    title: string;
+    id?: string;
+    description?: string;
+    objectives?: (string | QuestObjectiveInput)[];
+    reward?: string;
+  }
+): { quest: Quest; changes: StatChange[] } {
+  if (!input || typeof input.title !== 'string' || !input.title.trim()) {
+    throw new Error('Quest title is required');
+  }
+  const quests = state._quests ?? [];
+  const id = (input.id ?? input.title).trim().toLowerCase().replace(/\s+/g, '-');
+  if (quests.some(quest => quest.id === id)) {
+    throw new Error(`Quest "${id}" already exists. Use a different id or title`);
+  }
+
+  const quest: Quest = {
+    id,
+    title: input.title.trim(),
+    status: 'active',
+    objectives: (input.objectives ?? []).map((objective, index) =>
+      normalizeObjective(objective, index)
+    ),
+    startedTurn: state._turnCount ?? 0,
+  };
+  if (input.description) quest.description = input.description;
+  if (input.reward) quest.reward = input.reward;
+  const objectiveIds = new Set(quest.objectives.map(objective => objective.id));
+  if (objectiveIds.size !== quest.objectives.length) {
+    throw new Error(`Quest "${quest.title}": objective ids must be unique`);
+  }
+
+  state._quests = [...quests, quest];
+  return {
+    quest,
+    changes: [
+      statusChange(quest, undefined, { key: 'delta.quest.new', params: { title: quest.title } }),
+    ],
+  };
+}
+
+/**
+ * 목표 진행 - 카운터는 0과 목표치 사이로 제한되며, 목표치에 도달하면 완료
+ */
+export function updateObjective(
+  state: GameState,
+  questKey: string,
+  objectiveKey: string,
+  update: ObjectiveUpdate = {}
+): { quest: Quest; changes: StatChange[] } {
+  const quest = findActiveQuest(state, questKey);
+  const objective = quest.objectives.find(
+    entry => entry.id === objectiveKey || sameText(entry.description, objectiveKey)
+  );
+  if (!objective) {
+    throw new Error(
+      `Quest "${quest.title}" has no objective "${objectiveKey}". Objectives: ${quest.objectives
+        .map(entry => `${entry.id} (${entry.description})`)
+        .join(', ')}`
+    );
+  }
+
+  const before = describeObjectiveState(objective);
+  if (objective.target !== undefined) {
+    let progress = objective.progress ?? 0;
+    if (update.progress !== undefined) {
+      progress = update.progress;
+    } else if (update.increment !== undefined) {
+      progress += update.increment;
+    } else if (update.done !== undefined) {
+      progress = update.done ? objective.target : 0;
+    } else {
+      progress += 1;
+    }
+    if (!Number.isFinite(progress)) {
+      throw new Error('progress and increment must be numbers');
+    }
+    objective.progress = Math.max(0, Math.min(objective.target, Math.floor(progress)));
+    objective.done = objective.progress >= objective.target;
+  } else {
+    if (update.progress !== undefined || update.increment !== undefined) {
+      throw new Error(
+        `Objective "${objective.description}" is a checklist item. Use done instead of progress`
+      );
+    }
+    objective.done = update.done ?? true;
+  }
+
+  const after = describeObjectiveState(objective);
+  return {
+    quest,
+    changes: [
+      {
+        field: `_quests[id=${quest.id}].objectives[id=${objective.id}]`,
+        label: quest.title,
+        initialValue: before,
+        finalValue: after,
+        description: `${quest.title}: ${objective.description} ${after}`,
+      },
+    ],
+  };
+}
+
+/**
+ * 퀘스트 완료
+ */
+export function completeQuest(
+  state: GameState,
+  questKey: string
+): { quest: Quest; changes: StatChange[] } {
+  const quest = findActiveQuest(state, questKey);
+  quest.status = 'completed';
+  quest.endedTurn = state._turnCount ?? 0;
+  return {
+    quest,
+    changes: [
+      statusChange(quest, 'active', {
+        key: quest.reward ? 'delta.quest.completedWithReward' : 'delta.quest.completed',
+        params: { title: quest.title, reward: quest.reward },
+      }),
+    ],
+  };
+}
+
+/**
+ * 퀘스트 실패
+ */
+export function failQuest(
+  state: GameState,
+  questKey: string,
+  reason?: string
+): { quest: Quest; changes: StatChange[] } {
+  const quest = findActiveQuest(state, questKey);
+  quest.status = 'failed';
+  quest.endedTurn = state._turnCount ?? 0;
+  if (reason) quest.failureReason = reason;
+  return {
+    quest,
+    changes: [
+      statusChange(quest, 'active', {
+        key: reason ? 'delta.quest.failedWithReason' : 'delta.quest.failed',
+        params: { title: quest.title, reason },
+      }),
+    ],
+  };
+}
+
+/**
+ * 목표 진행 상황 (예: "2/3", "✓", "☐")
+ */
+export function describeObjectiveState(objective: QuestObjective): string {
+  if (objective.target !== undefined) {
+    return `${objective.progress ?? 0}/${objective.target}`;
+  }
+  return objective.done ? '✓' : '☐';
+}
+
+/**
+ * 퀘스트 요약 (예: "Find the keys [active] - Keys 1/3, Open the gate ☐")
+ */
+export function describeQuest(quest: Quest): string {
+  const objectives = quest.objectives
+    .map(objective => `${objective.description} ${describeObjectiveState(objective)}`)
+    .join(', ');
+  return `${quest.title} [${quest.status}]${objectives ? ` - ${objectives}` : ''}`;
+}
+
+function normalizeObjective(
+  objective: string | QuestObjectiveInput,
+  index: number
+): QuestObjective {
+  const input = typeof objective === 'string' ? { description: objective } : objective;
+  if (!input || typeof input.description !== 'string' || !input.description.trim()) {
+    throw new Error(`Objective #${index}: description is required`);
+  }
+  if (input.target !== undefined && (!Number.isInteger(input.target) || input.target < 1)) {
+    throw new Error(`Objective "${input.description}": target must be a positive integer`);
+  }
+
+  const normalized: QuestObjective = {
+    id: input.id ?? String(index + 1),
+    description: input.description.trim(),
+    done: false,
+  };
+  if (input.target !== undefined) {
+    normalized.target = input.target;
+    normalized.progress = 0;
+  }
+  return normalized;
+}
+
+function findActiveQuest(state: GameState, key: string): Quest {
+  const quest = (state._quests ?? []).find(entry => entry.id === key || sameText(entry.title, key));
+  if (!quest) {
+    throw new Error(`Quest "${key}" not found`);
+  }
+  if (quest.status !== 'active') {
+    throw new Error(`Quest "${quest.title}" is already ${quest.status}`);
+  }
+  return quest;
+}
+
+function statusChange(quest: Quest, initialValue: unknown, message: LocalizedMessage): StatChange {
+  return {
+    field: `_quests[id=${quest.id}].status`,
+    label: quest.title,
+    initialValue,
+    finalValue: quest.status,
+    message,
+  };
+}
+
+function sameText(text: string, key: string): boolean {
+  return typeof key === 'string' && text.toLowerCase() === key.toLowerCase();
+}
@@ -0,0 +1,223 @@
+import type {
+  Character,
+  GameState,
+  Relationship,
+  RelationshipEvent,
+  Locale,
+  RelationshipTier,
+  StatChange,
+} from './types.js';
+import { translate } from './i18n.js';
+
+export const MIN_AFFINITY = -100;
+export const MAX_AFFINITY = 100;
+
+/**
+ * 단계를 지정하지 않은 게임의 기본 관계 단계
+ */
+export const DEFAULT_RELATIONSHIP_TIERS: RelationshipTier[] = [
+  { name: 'Hostile', min: MIN_AFFINITY },
+  { name: 'Unfriendly', min: -50 },
+  { name: 'Neutral', min: -10 },
+  { name: 'Friendly', min: 20 },
+  { name: 'Close', min: 50 },
+  { name: 'Devoted', min: 80 },
+];
+
+/**
+ * 플레이어를 향한 호감도를 담던 기존 캐릭터 필드 - 관계가 처음 생길 때 초기값으로 쓰고 변경 시 함께 갱신
+ */
+const LEGACY_AFFINITY_FIELDS = ['favorability', '호감도'];
+
+/**
+ * 관계 단계 검증 후 min 오름차순으로 정렬
+ */
+export function normalizeRelationshipTiers(tiers: RelationshipTier[]): RelationshipTier[] {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    throw new Error('tiers must be a non-empty array of {name, min}');
+  }
+  tiers.forEach((tier, index) => {
+    if (!tier || typeof tier.name !== 'string' || !tier.name.trim()) {
+      throw new Error(`Relationship tier #${index}: name is required`);
+    }
+    if (typeof tier.min !== 'number' || !Number.isFinite(tier.min)) {
+      throw new Error(`Relationship tier "${tier.name}": min must be a number`);
+    }
+  });
+  const names = new Set(tiers.map(tier => tier.name.toLowerCase()));
+  if (names.size !== tiers.length) {
+    throw new Error('Relationship tier names must be unique');
+  }
+  return [...tiers].sort((a, b) => a.min - b.min).map(tier => ({ ...tier }));
+}
+
+/**
+ * 호감도에 해당하는 단계 (가장 낮은 단계의 min보다 낮아도 가장 낮은 단계)
+ */
+export function getRelationshipTier(state: GameState, affinity: number): RelationshipTier {
+  const tiers = getTiers(state);
+  return [...tiers].reverse().find(tier => affinity >= tier.min) ?? tiers[0];
+}
+
+/**
+ * 호감도 변경 - amount만큼 더하거나 value로 지정하며 -100~100으로 제한
+ * 단계 경계를 넘을 때마다 이벤트를 만든다.
+ */
+export function adjustRelationship(
+  state: GameState,
+  fromKey: string,
+  toKey: string,
+  change: { amount?: number; value?: number }
+): { relationship: Relationship; changes: StatChange[]; events: RelationshipEvent[] } {
+  if (change.amount !== undefined && change.value !== undefined) {
+    throw new Error('Use either amount or value, not both');
+  }
+  const target = change.value ?? change.amount;
+  if (typeof target !== 'number' || !Number.isFinite(target)) {
+    throw new Error('amount or value must be a number');
+  }
+
+  const from = findCharacter(state, fromKey);
+  const to = findCharacter(state, toKey);
+  if (from === to) {
+    throw new Error('A relationship needs two different characters');
+  }
+
+  const relationship = getOrCreateRelationship(state, from, to);
+  const before = relationship.affinity;
+  const previousTier = relationship.tier;
+  const next = change.value !== undefined ? change.value : before + (change.amount ?? 0);
+  relationship.affinity = Math.max(MIN_AFFINITY, Math.min(MAX_AFFINITY, Math.round(next)));
+  relationship.tier = getRelationshipTier(state, relationship.affinity).name;
+
+  // 기존 호감도 필드가 있으면 같은 값으로 유지
+  if (to === getPlayer(state)) {
+    for (const field of LEGACY_AFFINITY_FIELDS) {
+      if (typeof from[field] === 'number') {
+        from[field] = relationship.affinity;
+      }
+    }
+  }
+
+  // 단계 이벤트 설명은 올라설 때만 붙음
+  const direction = relationship.affinity > before ? 'up' : 'down';
+  let current = previousTier;
+  const events: RelationshipEvent[] = crossedTiers(state, before, relationship.affinity).map(
+    tier => {
+      const event: RelationshipEvent = {
+        from: from.name,
+        to: to.name,
+        previousTier: current,
+        tier: tier.name,
+        direction,
+      };
+      if (tier.event && direction === 'up') event.event = tier.event;
+      current = tier.name;
+      return event;
+    }
+  );
+
+  // 단계 변화는 이벤트 delta로 따로 표시
+  const changes: StatChange[] = [
+    {
+      field: `_relationships[from=${from.name}][to=${to.name}].affinity`,
+      label: `${from.name} → ${to.name}`,
+      initialValue: before,
+      finalValue: relationship.affinity,
+    },
+  ];
+  return { relationship: { ...relationship }, changes, events };
+}
+
+/**
+ * 관계 단계 교체 - 기존 관계의 단계도 새 기준으로 다시 계산 (이벤트는 만들지 않음)
+ */
+export function setRelationshipTiers(state: GameState, tiers: RelationshipTier[]): void {
+  state._relationshipTiers = normalizeRelationshipTiers(tiers);
+  for (const relationship of state._relationships ?? []) {
+    relationship.tier = getRelationshipTier(state, relationship.affinity).name;
+  }
+}
+
+/**
+ * 관계 설명 (예: "Sakura → Hero: 35 (Friendly)")
+ */
+export function describeRelationship(relationship: Relationship): string {
+  return `${relationship.from} → ${relationship.to}: ${relationship.affinity} (${relationship.tier})`;
+}
+
+/**
+ * 단계 이벤트 설명 (예: "Sakura's feelings toward Hero rose to Close: Sakura invites Hero to the festival")
+ */
+export function describeRelationshipEvent(event: RelationshipEvent, locale: Locale = 'en'): string {
+  const text = translate(
+    locale,
+    event.direction === 'up' ? 'delta.relationship.rose' : 'delta.relationship.fell',
+    { from: event.from, to: event.to, tier: event.tier }
+  );
+  return `${text}${event.event ? `: ${event.event}` : ''}`;
+}
+
+function getTiers(state: GameState): RelationshipTier[] {
+  return state._relationshipTiers?.length ? state._relationshipTiers : DEFAULT_RELATIONSHIP_TIERS;
+}
+
+/**
+ * before에서 after로 바뀌며 새로 들어선 단계들 (변화 방향 순서)
+ */
+function crossedTiers(state: GameState, before: number, after: number): RelationshipTier[] {
+  const tiers = getTiers(state);
+  const index = (affinity: number) => tiers.indexOf(getRelationshipTier(state, affinity));
+  const from = index(before);
+  const to = index(after);
+  if (to > from) {
+    return tiers.slice(from + 1, to + 1);
+  }
+  return tiers.slice(to, from).reverse();
+}
+
+function getOrCreateRelationship(state: GameState, from: Character, to: Character): Relationship {
+  if (!state._relationships) {
+    state._relationships = [];
+  }
+  const existing = state._relationships.find(
+    relationship => relationship.from === from.name && relationship.to === to.name
+  );
+  if (existing) {
+    return existing;
+  }
+
+  // 플레이어를 향한 관계는 기존 호감도 필드에서 시작
+  const legacy =
+    to === getPlayer(state)
+      ? LEGACY_AFFINITY_FIELDS.map(field => from[field]).find(value => typeof value === 'number')
+      : undefined;
+  const affinity = typeof legacy === 'number' ? legacy : 0;
+  const relationship: Relationship = {
+    from: from.name,
+    to: to.name,
+    affinity,
+    tier: getRelationshipTier(state, affinity).name,
+  };
+  state._relationships.push(relationship);
+  return relationship;
+}
+
+/**
+ * 플레이어 캐릭터 - id가 "player"인 캐릭터, 없으면 첫 번째 캐릭터
+ */
+function getPlayer(state: GameState): Character | undefined {
+  const characters = state.characters ?? [];
+  return characters.find(character => character.id === 'player') ?? characters[0];
+}
+
+function findCharacter(state: GameState, key: string): Character {
+  const lower = typeof key === 'string' ? key.toLowerCase() : '';
+  const character = (state.characters ?? []).find(
+    entry => entry.name?.toLowerCase() === lower || entry.id === key
+  );
+  if (!character) {
+    throw new Error(`Character "${key}" not found`);
+  }
+  return character;
+}
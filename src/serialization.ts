@@ -0,0 +1,58 @@
+import type { Game, GameState } from './types.js';
+
+/**
+ * Date 값을 태그된 객체로 직렬화하기 위한 키
+ * 예: { "$date": "2025-01-01T00:00:00.000Z" }
+ */
+const DATE_TAG = '$date';
+
+/**
+ * JSON.stringify replacer - Date를 태그된 객체로 변환
+ * (value는 이미 toJSON()이 적용된 문자열이므로 원본 this[key]를 확인)
+ */
+function dateReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (raw instanceof Date) {
+    return { [DATE_TAG]: raw.toISOString() };
+  }
+  return value;
+}
+
+/**
+ * JSON.parse reviver - 태그된 객체를 Date로 복원
+ */
+function dateReviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record);
+    if (keys.length === 1 && keys[0] === DATE_TAG && typeof record[DATE_TAG] === 'string') {
+      return new Date(record[DATE_TAG] as string);
+    }
+  }
+  return value;
+}
+
+/**
+ * 게임을 JSON 문자열로 직렬화 (Date 필드 보존)
+ */
+export function serializeGame(game: Game): string {
+  return JSON.stringify(game, dateReplacer, 2);
+}
+
+/**
+ * JSON 문자열에서 게임 복원
+ */
+export function deserializeGame(json: string): Game {
+  const game = JSON.parse(json, dateReviver) as Game;
+  if (!game || typeof game.gameId !== 'string' || !game.state) {
+    throw new Error('Invalid serialized game record');
+  }
+  return game;
+}
+
+/**
+ * 게임 상태의 깊은 복사본 생성 (Date 필드 보존)
+ */
+export function cloneState(state: GameState): GameState {
+  return JSON.parse(JSON.stringify(state, dateReplacer), dateReviver) as GameState;
+}
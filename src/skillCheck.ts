@@ -0,0 +1,175 @@
+import type {
+  ActionOption,
+  DiceRollResult,
+  GameState,
+  SkillCheck,
+  SkillCheckResult,
+} from './types.js';
+import { getNestedValue, resolveFieldPaths } from './fieldPath.js';
+import { DICE_ROLL_MODES, assertValidNotation } from './dice.js';
+import { getEffectiveStat } from './itemEffects.js';
+
+const PARTIAL_SUCCESS_MARGIN = 4; // DC보다 이만큼 낮아도 부분 성공
+
+/**
+ * promptUserActions 선택지를 텍스트, 판정, 소요 시간으로 분리
+ * 문자열 선택지는 판정이 없는 것으로 취급한다.
+ */
+export function normalizeActionOptions(options: (string | ActionOption)[]): {
+  texts: string[];
+  checks: (SkillCheck | null)[];
+  times: (number | null)[];
+} {
+  const texts: string[] = [];
+  const checks: (SkillCheck | null)[] = [];
+  const times: (number | null)[] = [];
+
+  options.forEach((option, index) => {
+    if (typeof option === 'string') {
+      texts.push(option);
+      checks.push(null);
+      times.push(null);
+      return;
+    }
+    if (!option || typeof option.text !== 'string' || !option.text) {
+      throw new Error(`Option #${index} must be a string or an object with a text field`);
+    }
+    if (option.time !== undefined && (!Number.isInteger(option.time) || option.time < 0)) {
+      throw new Error(`Option #${index}: time must be a non-negative integer number of time slots`);
+    }
+    texts.push(option.text);
+    checks.push(option.check ?? null);
+    times.push(option.time ?? null);
+  });
+
+  return { texts, checks, times };
+}
+
+/**
+ * 판정 정의가 현재 상태에서 유효한지 검사
+ */
+export function validateSkillCheck(state: GameState, check: SkillCheck, optionIndex: number): void {
+  if (typeof check.stat !== 'string' || !check.stat) {
+    throw new Error(`Option #${optionIndex}: check.stat must be a field selector`);
+  }
+  if (typeof check.dc !== 'number' || !Number.isFinite(check.dc)) {
+    throw new Error(`Option #${optionIndex}: check.dc must be a number`);
+  }
+  // 선택 시점에 굴림이 실패하지 않도록 주사위와 모드를 미리 검사
+  if (check.dice !== undefined) {
+    if (typeof check.dice !== 'string') {
+      throw new Error(`Option #${optionIndex}: check.dice must be dice notation such as "1d20"`);
+    }
+    try {
+      assertValidNotation(check.dice);
+    } catch (error) {
+      throw new Error(`Option #${optionIndex}: ${(error as Error).message}`);
+    }
+  }
+  if (check.mode !== undefined && !DICE_ROLL_MODES.includes(check.mode)) {
+    throw new Error(
+      `Option #${optionIndex}: check.mode must be one of: ${DICE_ROLL_MODES.join(', ')}`
+    );
+  }
+  if (check.modifierMode !== undefined && !['ability', 'raw'].includes(check.modifierMode)) {
+    throw new Error(`Option #${optionIndex}: check.modifierMode must be "ability" or "raw"`);
+  }
+  const statValue = getCheckStatValue(state, check.stat);
+  if (typeof statValue !== 'number') {
+    throw new Error(
+      `Option #${optionIndex}: check.stat "${check.stat}" must point to a number (found ${JSON.stringify(statValue)})`
+    );
+  }
+}
+
+/**
+ * 판정에 쓰는 능력치 값 - 캐릭터 능력치(characters[..].str, characters[..].stats.str)는
+ * 장비와 효과 보정을 더한 실제 값, 그 외 경로는 상태의 값 그대로
+ */
+export function getCheckStatValue(state: GameState, stat: string): unknown {
+  let paths: string[][];
+  try {
+    paths = resolveFieldPaths(state, stat);
+  } catch {
+    return undefined;
+  }
+  if (paths.length === 1) {
+    const [root, index, ...rest] = paths[0];
+    const character = root === 'characters' ? state.characters?.[Number(index)] : undefined;
+    const name =
+      rest.length === 1 ? rest[0] : rest.length === 2 && rest[0] === 'stats' ? rest[1] : undefined;
+    if (character && /^\d+$/.test(index) && name) {
+      return getEffectiveStat(state, character, name) ?? getNestedValue(state, stat);
+    }
+  }
+  return getNestedValue(state, stat);
+}
+
+/**
+ * D&D 방식 능력치 보정치 (예: 16 -> +3, 8 -> -1)
+ */
+export function abilityModifier(statValue: number): number {
+  return Math.floor((statValue - 10) / 2);
+}
+
+/**
+ * 능력치를 판정 보정치로 변환
+ * - ability: D&D 방식 능력치 보정
+ * - raw: 능력치 값을 그대로 더함
+ */
+export function getCheckModifier(check: SkillCheck, statValue: number): number {
+  return check.modifierMode === 'raw' ? statValue : abilityModifier(statValue);
+}
+
+/**
+ * 굴림 결과로 판정 결과 산출
+ * DC 이상이면 성공, DC보다 4 이하로 낮으면 부분 성공, 그 외에는 실패
+ * 단일 d20 판정에서는 20이 대성공, 1이 대실패
+ */
+export function evaluateSkillCheck(
+  check: SkillCheck,
+  statValue: number,
+  roll: DiceRollResult
+): SkillCheckResult {
+  const modifier = getCheckModifier(check, statValue);
+  const total = roll.total + modifier;
+  const dice = roll.terms.find(term => term.rolls.length > 0);
+  const natural = dice && dice.label === '1d20' && dice.rolls.length === 1 ? dice.rolls[0] : null;
+
+  let outcome: SkillCheckResult['outcome'];
+  let critical = false;
+  if (natural === 20) {
+    outcome = 'success';
+    critical = true;
+  } else if (natural === 1) {
+    outcome = 'failure';
+    critical = true;
+  } else if (total >= check.dc) {
+    outcome = 'success';
+  } else if (total >= check.dc - PARTIAL_SUCCESS_MARGIN) {
+    outcome = 'partial';
+  } else {
+    outcome = 'failure';
+  }
+
+  return {
+    stat: check.stat,
+    statValue,
+    modifier,
+    dc: check.dc,
+    roll: roll.total,
+    total,
+    outcome,
+    critical,
+  };
+}
+
+/**
+ * 판정 결과를 사람이 읽을 수 있는 문자열로 변환
+ * 예: "SUCCESS: 14 + 3 = 17 vs DC 15 (characters[0].stats.str = 16)"
+ */
+export function describeSkillCheck(result: SkillCheckResult): string {
+  const sign = result.modifier < 0 ? '-' : '+';
+  const label = `${result.critical ? 'CRITICAL ' : ''}${result.outcome.toUpperCase()}`;
+  return `${label}: ${result.roll} ${sign} ${Math.abs(result.modifier)} = ${result.total} vs DC ${result.dc} (${result.stat} = ${result.statValue})`;
+}
@@ -0,0 +1,271 @@
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import type { GameState } from './types.js';
+
+/**
+ * 상태 스키마 위반 에러 - 문제가 된 경로와 기대 타입을 포함
+ */
+export class StateValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly expected: string
+  ) {
+    super(message);
+    this.name = 'StateValidationError';
+  }
+}
+
+const characterProperties = {
+  name: { type: 'string' },
+  level: { type: 'integer', minimum: 0 },
+  hp: { type: 'number' },
+  maxHp: { type: 'number' },
+  ac: { type: 'number' },
+  mp: { type: 'number' },
+  class: { type: 'string' },
+  favorability: { type: 'number' },
+};
+
+const itemProperties = {
+  name: { type: 'string' },
+  id: { type: 'string' },
+  quantity: { type: 'integer', minimum: 0 },
+  type: { type: 'string' },
+  weight: { type: 'number', minimum: 0 },
+  equipped: { type: 'boolean' },
+  slot: { type: 'string' },
+};
+
+const inventoryLimitsSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    maxWeight: { type: 'number', minimum: 0 },
+    maxSlots: { type: 'integer', minimum: 0 },
+  },
+};
+
+const worldProperties = {
+  location: { type: 'string' },
+  time: { type: 'string' },
+  weather: { type: 'string' },
+};
+
+const storyProperties = {
+  chapter: { type: 'number' },
+  progress: { type: 'string' },
+};
+
+const inventorySchema = {
+  type: 'array',
+  items: { type: 'object', required: ['name'], properties: itemProperties },
+};
+
+const strictInventorySchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['name'],
+    additionalProperties: false,
+    properties: {
+      ...itemProperties,
+      description: { type: 'string' },
+      modifiers: { type: 'object', additionalProperties: { type: 'number' } },
+      damage: { type: 'string' },
+      effect: { type: 'object' },
+    },
+  },
+};
+
+const activeEffectSchema = {
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    modifiers: { type: 'object', additionalProperties: { type: 'number' } },
+    perTurn: { type: 'object', additionalProperties: { type: 'number' } },
+    duration: { type: 'integer', minimum: 1 },
+    source: { type: 'string' },
+  },
+};
+
+/**
+ * 내장 상태 스키마
+ * - rpg: 알려진 필드의 타입만 검사하고 추가 필드는 허용
+ * - rpg-strict: 알려진 필드 외의 키를 금지하여 오타를 차단
+ */
+export const BUILT_IN_SCHEMAS: Record<string, Record<string, unknown>> = {
+  rpg: {
+    type: 'object',
+    required: ['title'],
+    properties: {
+      title: { type: 'string' },
+      characters: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            ...characterProperties,
+            inventory: inventorySchema,
+            inventoryLimits: inventoryLimitsSchema,
+          },
+        },
+      },
+      world: { type: 'object', properties: worldProperties },
+      inventory: inventorySchema,
+      inventoryLimits: inventoryLimitsSchema,
+      story: { type: 'object', properties: storyProperties },
+    },
+  },
+  'rpg-strict': {
+    type: 'object',
+    required: ['title'],
+    additionalProperties: false,
+    properties: {
+      title: { type: 'string' },
+      characters: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name'],
+          additionalProperties: false,
+          properties: {
+            ...characterProperties,
+            stats: { type: 'object', additionalProperties: { type: 'number' } },
+            attributes: { type: 'object' },
+            inventory: strictInventorySchema,
+            inventoryLimits: inventoryLimitsSchema,
+            equipment: { type: 'object', additionalProperties: { type: 'string' } },
+            effects: { type: 'array', items: activeEffectSchema },
+          },
+        },
+      },
+      world: { type: 'object', additionalProperties: false, properties: worldProperties },
+      inventory: strictInventorySchema,
+      inventoryLimits: inventoryLimitsSchema,
+      story: { type: 'object', additionalProperties: false, properties: storyProperties },
+    },
+  },
+};
+
+/**
+ * 서버가 관리하는 상태 필드 - 스키마 검증 대상에서 제외
+ */
+const SERVER_MANAGED_KEYS = new Set(['lastStoryProgress', 'selectedAction']);
+
+/**
+ * 서버만 바꿀 수 있는 최상위 필드인지 확인 ('_' 접두사 필드와 SERVER_MANAGED_KEYS)
+ */
+export function isServerManagedKey(key: string): boolean {
+  return key.startsWith('_') || SERVER_MANAGED_KEYS.has(key);
+}
+
+const validatorCache = new WeakMap<object, ValidateFunction>();
+
+/**
+ * createGame에 전달된 스키마 인자를 스키마 객체로 변환
+ * 문자열이면 내장 스키마 이름으로 취급한다.
+ */
+export function resolveStateSchema(
+  schema: string | Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  if (schema === undefined || schema === null) {
+    return undefined;
+  }
+  if (typeof schema === 'string') {
+    const builtIn = BUILT_IN_SCHEMAS[schema];
+    if (!builtIn) {
+      throw new Error(
+        `Unknown built-in state schema "${schema}". Available: ${Object.keys(BUILT_IN_SCHEMAS).join(', ')}`
+      );
+    }
+    return builtIn;
+  }
+  if (typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error('stateSchema must be a built-in schema name or a JSON Schema object');
+  }
+  // 잘못된 스키마는 게임 생성 시점에 바로 실패시킴
+  getValidator(schema);
+  return schema;
+}
+
+/**
+ * 상태가 스키마를 만족하는지 검사 (위반 시 StateValidationError)
+ */
+export function validateState(schema: Record<string, unknown>, state: GameState): void {
+  const validate = getValidator(schema);
+  const data = Object.fromEntries(
+    Object.entries(state).filter(([key]) => !isServerManagedKey(key))
+  );
+
+  if (validate(data)) {
+    return;
+  }
+
+  const error = validate.errors?.[0];
+  if (!error) {
+    throw new StateValidationError('State does not match schema', '', 'valid state');
+  }
+  const { path, expected } = describeError(error);
+  throw new StateValidationError(
+    `Schema violation at "${path || '(root)'}": expected ${expected}`,
+    path,
+    expected
+  );
+}
+
+function getValidator(schema: Record<string, unknown>): ValidateFunction {
+  let validate = validatorCache.get(schema);
+  if (!validate) {
+    try {
+      // 스키마마다 별도 인스턴스 - 같은 $id의 스키마를 여러 게임이 써도 충돌하지 않음
+      validate = new Ajv({ allErrors: false, strict: false }).compile(schema);
+    } catch (e) {
+      throw new Error(`Invalid state schema: ${(e as Error).message}`);
+    }
+    validatorCache.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * ajv 에러를 필드 경로와 기대값 설명으로 변환
+ * 예: "/characters/0/hp" -> "characters[0].hp"
+ */
+function describeError(error: ErrorObject): { path: string; expected: string } {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  const params = error.params as Record<string, unknown>;
+  let expected: string;
+  switch (error.keyword) {
+    case 'type':
+      expected = String(params.type);
+      break;
+    case 'required':
+      segments.push(String(params.missingProperty));
+      expected = 'a required value';
+      break;
+    case 'additionalProperties':
+      segments.push(String(params.additionalProperty));
+      expected = 'no such field (unknown property)';
+      break;
+    case 'enum':
+      expected = `one of ${JSON.stringify(params.allowedValues)}`;
+      break;
+    default:
+      expected = `value that ${error.message ?? 'matches the schema'}`;
+  }
+
+  const path = segments.reduce(
+    (acc, segment) =>
+      /^\d+$/.test(segment) ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment,
+    ''
+  );
+  return { path, expected };
+}
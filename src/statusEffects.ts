@@ -0,0 +1,117 @@
+import type { ActiveEffect, GameState, StatChange } from './types.js';
+import { adjustStat, requireDuration, requireNumberMap, setActiveEffect } from './itemEffects.js';
+
+/**
+ * 캐릭터에 상태 효과 추가 (예: 중독 3턴, 턴마다 hp -5) - 같은 이름의 효과는 교체
+ */
+export function addStatusEffect(
+  state: GameState,
+  characterName: string,
+  effect: ActiveEffect
+): StatChange[] {
+  if (!effect || typeof effect.name !== 'string' || !effect.name.trim()) {
+    throw new Error('Status effect name is required');
+  }
+  const label = `Status effect "${effect.name}"`;
+  requireNumberMap(effect.modifiers, `${label}: modifiers`);
+  requireNumberMap(effect.perTurn, `${label}: perTurn`);
+  requireDuration(effect.duration, `${label}: duration`);
+
+  const index = findCharacterIndex(state, characterName);
+  const active: ActiveEffect = { name: effect.name };
+  if (effect.modifiers) active.modifiers = { ...effect.modifiers };
+  if (effect.perTurn) active.perTurn = { ...effect.perTurn };
+  if (effect.duration !== undefined) active.duration = effect.duration;
+  if (effect.source) active.source = effect.source;
+  return [setActiveEffect(state.characters![index], index, active)];
+}
+
+/**
+ * 캐릭터의 상태 효과 제거
+ */
+export function removeStatusEffect(
+  state: GameState,
+  characterName: string,
+  effectName: string
+): StatChange[] {
+  const index = findCharacterIndex(state, characterName);
+  const character = state.characters![index];
+  const effect = (character.effects ?? []).find(
+    active => active.name.toLowerCase() === effectName?.toLowerCase()
+  );
+  if (!effect) {
+    throw new Error(`${character.name} has no "${effectName}" effect`);
+  }
+  character.effects = character.effects!.filter(active => active !== effect);
+  return [expiredChange(character.name, index, effect, 'delta.effect.removed')];
+}
+
+/**
+ * 한 턴 경과 - 턴마다의 효과를 적용하고 남은 턴을 줄여 끝난 효과를 제거
+ * 같은 수치에 여러 효과가 걸려 있으면 합쳐서 한 번에 적용한다.
+ */
+export function tickStatusEffects(state: GameState): StatChange[] {
+  const changes: StatChange[] = [];
+
+  (state.characters ?? []).forEach((character, index) => {
+    const effects = character.effects ?? [];
+    if (effects.length === 0) {
+      return;
+    }
+
+    const totals = new Map<string, { amount: number; sources: string[] }>();
+    for (const effect of effects) {
+      for (const [stat, amount] of Object.entries(effect.perTurn ?? {})) {
+        const total = totals.get(stat) ?? { amount: 0, sources: [] };
+        total.amount += amount;
+        total.sources.push(effect.name);
+        totals.set(stat, total);
+      }
+    }
+    for (const [stat, { amount, sources }] of totals) {
+      const change = adjustStat(character, index, stat, amount);
+      if (change.initialValue !== change.finalValue) {
+        changes.push({ ...change, label: `${change.label} (${sources.join(', ')})` });
+      }
+    }
+
+    const remaining: ActiveEffect[] = [];
+    for (const effect of effects) {
+      if (effect.duration === undefined) {
+        remaining.push(effect);
+      } else if (effect.duration > 1) {
+        remaining.push({ ...effect, duration: effect.duration - 1 });
+      } else {
+        changes.push(expiredChange(character.name, index, effect, 'delta.effect.expired'));
+      }
+    }
+    character.effects = remaining;
+  });
+
+  return changes;
+}
+
+function expiredChange(
+  characterName: string,
+  index: number,
+  effect: ActiveEffect,
+  key: 'delta.effect.removed' | 'delta.effect.expired'
+): StatChange {
+  return {
+    field: `characters[${index}].effects[name=${effect.name}]`,
+    label: characterName,
+    initialValue: effect,
+    finalValue: undefined,
+    message: { key, params: { label: characterName, effect: effect.name } },
+  };
+}
+
+function findCharacterIndex(state: GameState, name: string): number {
+  const index = (state.characters ?? []).findIndex(
+    character => character.name?.toLowerCase() === name?.toLowerCase()
+  );
+  if (index < 0) {
+    throw new Error(`Character "${name}" not found`);
+  }
+  return index;
+}
@@ -0,0 +1,23 @@
+import path from 'path';
+import type { GameStore, StorageConfig } from '../types.js';
+import { MemoryGameStore } from './memoryGameStore.js';
+import { JsonFileGameStore } from './jsonFileGameStore.js';
+import { SqliteGameStore } from './sqliteGameStore.js';
+
+export { MemoryGameStore, JsonFileGameStore, SqliteGameStore };
+
+/**
+ * 설정에 맞는 게임 저장소 생성
+ */
+export async function createGameStore(config: StorageConfig): Promise<GameStore> {
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryGameStore();
+    case 'json':
+      return new JsonFileGameStore(path.join(config.dataDir, 'games'));
+    case 'sqlite':
+      return SqliteGameStore.open(path.join(config.dataDir, 'games.sqlite'));
+    default:
+      throw new Error(`Unknown storage backend: ${config.backend as string}`);
+  }
+}
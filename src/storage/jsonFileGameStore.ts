@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import type { Game, GameStore } from '../types.js';
+import { deserializeGame, serializeGame } from '../serialization.js';
+
+/**
+ * JSON 파일 저장소 - 게임당 하나의 파일 (<dataDir>/<gameId>.json)
+ */
+export class JsonFileGameStore implements GameStore {
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  loadAll(): Game[] {
+    const games: Game[] = [];
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      try {
+        games.push(deserializeGame(fs.readFileSync(path.join(this.dir, file), 'utf8')));
+      } catch (e) {
+        // 손상된 파일 하나 때문에 서버 시작이 실패하지 않도록 건너뜀
+        console.error(`Failed to load game file ${file}:`, e);
+      }
+    }
+    return games;
+  }
+
+  save(game: Game): void {
+    const target = this.filePath(game.gameId);
+    // 임시 파일에 쓴 뒤 rename하여 부분 기록을 방지
+    const temp = `${target}.tmp`;
+    fs.writeFileSync(temp, serializeGame(game), 'utf8');
+    fs.renameSync(temp, target);
+  }
+
+  delete(gameId: string): void {
+    fs.rmSync(this.filePath(gameId), { force: true });
+  }
+
+  /**
+   * 게임 ID로 파일 경로 생성 (경로 조작 방지)
+   */
+  private filePath(gameId: string): string {
+    if (!/^[\w-]+$/.test(gameId)) {
+      throw new Error(`Invalid game id: ${gameId}`);
+    }
+    return path.join(this.dir, `${gameId}.json`);
+  }
+}
@@ -0,0 +1,19 @@
+import type { Game, GameStore } from '../types.js';
+
+/**
+ * 메모리 저장소 - 영속화하지 않음 (기본값)
+ * GameManager가 이미 메모리 캐시를 유지하므로 아무 작업도 하지 않는다.
+ */
+export class MemoryGameStore implements GameStore {
+  loadAll(): Game[] {
+    return [];
+  }
+
+  save(): void {
+    // 영속화 없음
+  }
+
+  delete(): void {
+    // 영속화 없음
+  }
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import type { Game, GameStore } from '../types.js';
+import { deserializeGame, serializeGame } from '../serialization.js';
+
+/**
+ * 내장 SQLite 저장소 (sql.js)
+ * 데이터베이스를 메모리에 올려두고 변경할 때마다 파일로 내보낸다.
+ */
+export class SqliteGameStore implements GameStore {
+  private constructor(
+    private readonly db: Database,
+    private readonly file: string
+  ) {
+    this.db.run(
+      'CREATE TABLE IF NOT EXISTS games (game_id TEXT PRIMARY KEY, data TEXT NOT NULL, updated_at TEXT NOT NULL)'
+    );
+  }
+
+  /**
+   * 데이터베이스 파일을 열거나 새로 생성
+   */
+  static async open(file: string): Promise<SqliteGameStore> {
+    const SQL = await initSqlJs();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = fs.existsSync(file) ? new SQL.Database(fs.readFileSync(file)) : new SQL.Database();
+    return new SqliteGameStore(db, file);
+  }
+
+  loadAll(): Game[] {
+    const games: Game[] = [];
+    const stmt = this.db.prepare('SELECT game_id, data FROM games');
+    try {
+      while (stmt.step()) {
+        const row = stmt.getAsObject();
+        try {
+          games.push(deserializeGame(String(row.data)));
+        } catch (e) {
+          console.error(`Failed to load game ${String(row.game_id)}:`, e);
+        }
+      }
+    } finally {
+      stmt.free();
+    }
+    return games;
+  }
+
+  save(game: Game): void {
+    this.db.run('INSERT OR REPLACE INTO games (game_id, data, updated_at) VALUES (?, ?, ?)', [
+      game.gameId,
+      serializeGame(game),
+      game.updatedAt.toISOString(),
+    ]);
+    this.flush();
+  }
+
+  delete(gameId: string): void {
+    this.db.run('DELETE FROM games WHERE game_id = ?', [gameId]);
+    this.flush();
+  }
+
+  /**
+   * 메모리 DB를 파일로 기록 (임시 파일 + rename)
+   */
+  private flush(): void {
+    const temp = `${this.file}.tmp`;
+    fs.writeFileSync(temp, this.db.export());
+    fs.renameSync(temp, this.file);
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * 게임 종료 화면 스타일 - 승리/패배 색은 컨테이너의 outcome 클래스로 바꿈
+ */
+export const GAME_OVER_STYLES = `
+        * {
+            box-sizing: border-box;
+        }
+        html, body {
+            width: 100%;
+            height: 100%;
+            margin: 0;
+            padding: 0;
+        }
+        body {
+            font-family: var(--font);
+            background: var(--over-bg);
+            color: var(--over-text);
+            overflow-x: hidden;
+            padding: 10px;
+            display: flex;
+            justify-content: center;
+            align-items: flex-start;
+        }
+        .game-over-container {
+            --outcome: var(--over-loss);
+            --outcome-reason: var(--over-loss);
+            width: 100%;
+            max-width: 600px;
+            margin-top: 20px;
+            padding: 20px;
+            background: var(--over-panel);
+            border-radius: 15px;
+            box-shadow: 0 20px 60px rgba(0,0,0,0.5);
+            border: 3px solid var(--outcome);
+            text-align: center;
+            animation: fadeIn 0.8s ease-in;
+        }
+        .game-over-container.outcome-win {
+            --outcome: var(--over-win);
+            --outcome-reason: var(--over-win-reason);
+        }
+        @keyframes fadeIn {
+            from {
+                opacity: 0;
+                transform: scale(0.95);
+            }
+            to {
+                opacity: 1;
+                transform: scale(1);
+            }
+        }
+        .game-over-title {
+            font-size: 48px;
+            font-weight: bold;
+            color: var(--outcome);
+            margin-bottom: 20px;
+            text-shadow: 2px 2px 4px rgba(0,0,0,0.5);
+            animation: blink 1.5s infinite;
+        }
+        @keyframes blink {
+            0%, 50%, 100% { opacity: 1; }
+            25%, 75% { opacity: 0.7; }
+        }
+        .game-over-reason {
+            background: var(--outcome-reason);
+            border-radius: 10px;
+            padding: 15px;
+            margin: 15px 0;
+            color: #ecf0f1;
+            font-size: 16px;
+            line-height: 1.6;
+            text-align: left;
+            word-wrap: break-word;
+            overflow-wrap: break-word;
+        }
+        .game-over-reason h3 {
+            color: #fff;
+            margin: 0 0 10px 0;
+            font-size: 18px;
+            text-align: center;
+        }
+        .final-state-summary {
+            background: var(--over-summary-bg);
+            border: 1px solid var(--over-border);
+            border-radius: 8px;
+            padding: 12px;
+            margin: 15px 0;
+            font-size: 13px;
+            color: var(--over-muted);
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 8px;
+            text-align: left;
+        }
+        .state-item {
+            padding: 5px;
+        }
+        details {
+            margin: 15px 0;
+            text-align: left;
+        }
+        details summary {
+            cursor: pointer;
+            color: var(--over-link);
+            font-weight: bold;
+            user-select: none;
+            padding: 5px;
+        }
+        details summary:hover {
+            opacity: 0.8;
+        }
+        .final-state-content {
+            background: var(--over-code-bg);
+            border: 1px solid var(--over-border);
+            border-radius: 5px;
+            padding: 10px;
+            margin-top: 10px;
+            overflow-x: auto;
+            overflow-y: auto;
+            max-height: 250px;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+            font-size: 12px;
+            line-height: 1.4;
+        }
+        .retry-message {
+            color: var(--over-text);
+            font-size: 14px;
+            margin-top: 15px;
+            padding-top: 15px;
+            border-top: 1px solid var(--over-border);
+        }
+        .restart-button-section {
+            margin-top: 20px;
+            text-align: center;
+        }
+        .restart-button {
+            background: var(--button-bg);
+            color: var(--button-text);
+            border: none;
+            border-radius: 10px;
+            padding: 12px 30px;
+            font-family: inherit;
+            font-size: 16px;
+            font-weight: bold;
+            cursor: pointer;
+            transition: all 0.3s ease;
+            box-shadow: 0 5px 15px var(--button-shadow);
+        }
+        .restart-button:hover {
+            transform: translateY(-2px);
+            box-shadow: 0 8px 20px var(--button-shadow);
+        }
+        .restart-button:active {
+            transform: translateY(0);
+        }
+        .restart-button:disabled {
+            opacity: 0.6;
+            cursor: not-allowed;
+        }
+        .game-id {
+            color: var(--over-muted);
+            font-size: 11px;
+            text-align: center;
+            margin-top: 15px;
+            word-break: break-all;
+        }
+        @media (max-width: 480px) {
+            body {
+                padding: 5px;
+            }
+            .game-over-container {
+                padding: 15px;
+                margin-top: 10px;
+            }
+            .game-over-title {
+                font-size: 32px;
+                margin-bottom: 10px;
+            }
+            .game-over-reason {
+                padding: 12px;
+                font-size: 14px;
+            }
+            .final-state-summary {
+                grid-template-columns: 1fr;
+                font-size: 12px;
+            }
+            .restart-button {
+                padding: 10px 20px;
+                font-size: 14px;
+            }
+        }`;
+
+/**
+ * 게임 종료 화면 스크립트 - 재시작 버튼을 selectRestart 도구 호출로 전달
+ */
+export const GAME_OVER_SCRIPT = `
+        (function() {
+            const btn = document.getElementById('restart-btn');
+            if (!btn) return;
+
+            btn.addEventListener('click', function(e) {
+                e.preventDefault();
+                const gameId = btn.dataset.gameid;
+
+                window.parent.postMessage({
+                    type: 'tool',
+                    payload: {
+                        toolName: 'selectRestart',
+                        params: { gameId }
+                    }
+                }, '*');
+
+                btn.disabled = true;
+                btn.textContent = btn.dataset.busylabel;
+                btn.style.opacity = '0.6';
+                btn.setAttribute('aria-busy', 'true');
+            });
+
+            // 접근성: 포커스 자동 설정
+            btn.focus();
+        })();`;
+
+/**
+ * 게임 종료 화면 기본 템플릿
+ */
+export const GAME_OVER_TEMPLATE = `
+<!DOCTYPE html>
+<html lang="{{lang}}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{title}}</title>
+    <style>
+{{{themeStyles}}}
+{{{styles}}}
+    </style>
+</head>
+<body class="theme-{{theme}}">
+    <div class="game-over-container outcome-{{outcome}}">
+        <div class="game-over-title">{{banner}}</div>
+
+        <div class="game-over-reason">
+            <h3>{{heading}}</h3>
+            <p>{{reason}}</p>
+        </div>
+
+        <div class="final-state-summary">
+            {{{summary}}}
+        </div>
+
+        <details>
+            <summary>{{fullStateLabel}}</summary>
+            <div class="final-state-content">{{fullState}}</div>
+        </details>
+
+        <div class="retry-message">
+            {{message}}
+        </div>
+
+        <div class="restart-button-section">
+            <button
+                id="restart-btn"
+                class="restart-button"
+                data-gameid="{{gameId}}"
+                data-busylabel="{{restartingLabel}}"
+                type="button"
+                aria-label="{{restartAriaLabel}}"
+            >
+                {{restartLabel}}
+            </button>
+        </div>
+
+        <div class="game-id">{{gameIdLabel}}: {{gameId}}</div>
+    </div>
+
+    <script>{{{script}}}
+    </script>
+</body>
+</html>`;
@@ -0,0 +1,402 @@
+/**
+ * 선택지 화면 스타일 - 색과 글꼴은 테마 변수로 지정
+ */
+export const GAME_STYLES = `
+        * {
+            box-sizing: border-box;
+        }
+        html, body {
+            width: 100%;
+            height: 100%;
+            margin: 0;
+            padding: 0;
+        }
+        body {
+            font-family: var(--font);
+            background: var(--page-bg);
+            color: var(--text);
+            overflow-x: hidden;
+            padding: 10px;
+        }
+        .game-container {
+            width: 100%;
+            max-width: 700px;
+            margin: 0 auto;
+            padding: 20px;
+            background: var(--panel-bg);
+            border: var(--panel-border);
+            border-radius: 15px;
+            box-shadow: var(--panel-shadow);
+        }
+        .story-section {
+            background: var(--story-bg);
+            border-left: 5px solid var(--accent);
+            padding: 20px;
+            margin-bottom: 30px;
+            border-radius: 5px;
+            font-size: 16px;
+            line-height: 1.6;
+            word-wrap: break-word;
+            overflow-wrap: break-word;
+        }
+        .actions-section h3 {
+            color: var(--accent);
+            margin-bottom: 20px;
+            font-size: 18px;
+        }
+        .delta-section {
+            background: var(--delta-bg);
+            border-left: 5px solid var(--delta-border);
+            padding: 20px;
+            margin-bottom: 20px;
+            border-radius: 5px;
+            animation: slideIn 0.5s ease-in;
+        }
+        .delta-section h3 {
+            color: var(--delta-text);
+            margin-bottom: 15px;
+            font-size: 16px;
+        }
+        .delta-item {
+            background: var(--card-bg);
+            padding: 10px 15px;
+            margin-bottom: 8px;
+            border-radius: 5px;
+            border-left: 3px solid var(--delta-border);
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+        .delta-item:last-child {
+            margin-bottom: 0;
+        }
+        @keyframes slideIn {
+            from {
+                opacity: 0;
+                transform: translateY(-10px);
+            }
+            to {
+                opacity: 1;
+                transform: translateY(0);
+            }
+        }
+        .action-button {
+            display: block;
+            width: 100%;
+            padding: 15px 20px;
+            margin-bottom: 10px;
+            background: var(--button-bg);
+            color: var(--button-text);
+            border: none;
+            border-radius: 8px;
+            font-family: inherit;
+            font-size: 16px;
+            cursor: pointer;
+            transition: all 0.3s ease;
+            text-align: left;
+        }
+        .action-button:hover {
+            transform: translateY(-2px);
+            box-shadow: 0 5px 15px var(--button-shadow);
+        }
+        .action-button:active {
+            transform: translateY(0);
+        }
+        .action-button.selected {
+            background: var(--selected-bg);
+        }
+        .custom-action {
+            display: flex;
+            gap: 8px;
+            margin-top: 5px;
+        }
+        .custom-action-input {
+            flex: 1;
+            min-width: 0;
+            padding: 12px 15px;
+            border: 2px solid var(--accent-2);
+            border-radius: 8px;
+            background: var(--input-bg);
+            color: var(--input-text);
+            font-family: inherit;
+            font-size: 15px;
+        }
+        .custom-action-button {
+            padding: 12px 18px;
+            background: var(--accent-2);
+            color: var(--button-text);
+            border: none;
+            border-radius: 8px;
+            font-family: inherit;
+            font-size: 15px;
+            cursor: pointer;
+            white-space: nowrap;
+        }
+        .custom-action-button:disabled,
+        .custom-action-input:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+        .party-section {
+            background: var(--party-bg);
+            border-left: 5px solid var(--accent-2);
+            padding: 10px 20px;
+            margin-bottom: 20px;
+            border-radius: 5px;
+        }
+        .party-section summary {
+            color: var(--accent-2);
+            font-weight: bold;
+            cursor: pointer;
+        }
+        .character-card {
+            background: var(--card-bg-soft);
+            border-radius: 8px;
+            padding: 8px 12px;
+            margin: 10px 0;
+        }
+        .stat-bar-label {
+            font-size: 12px;
+            color: var(--subtle);
+        }
+        .stat-bar {
+            height: 8px;
+            background: var(--track);
+            border-radius: 4px;
+            overflow: hidden;
+            margin-bottom: 6px;
+        }
+        .stat-bar-fill {
+            height: 100%;
+        }
+        .stat-bar-fill.hp {
+            background: linear-gradient(90deg, #e74c3c, #ff7675);
+        }
+        .stat-bar-fill.mp {
+            background: linear-gradient(90deg, #3498db, #74b9ff);
+        }
+        .sheet-block {
+            font-size: 13px;
+            margin-bottom: 6px;
+        }
+        .item-list {
+            margin: 2px 0 0 0;
+            padding-left: 20px;
+        }
+        .stats-row {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 6px;
+            margin-bottom: 6px;
+        }
+        .stats-name {
+            font-weight: bold;
+            margin-right: 6px;
+        }
+        .stat-item {
+            background: var(--card-bg);
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 13px;
+        }
+        .stat-modified strong {
+            color: var(--positive);
+        }
+        .stat-base {
+            color: var(--muted);
+            font-size: 11px;
+            margin-left: 4px;
+        }
+        .quest-section {
+            background: var(--quest-bg);
+            border-left: 5px solid var(--quest-border);
+            padding: 10px 20px;
+            margin-bottom: 20px;
+            border-radius: 5px;
+        }
+        .quest-section summary {
+            color: var(--quest-text);
+            font-weight: bold;
+            cursor: pointer;
+        }
+        .quest-item {
+            margin-top: 10px;
+        }
+        .quest-objectives {
+            margin: 4px 0 0 0;
+            padding-left: 20px;
+            font-size: 13px;
+        }
+        .objective-done {
+            color: var(--muted);
+            text-decoration: line-through;
+        }
+        .effect-badge {
+            background: var(--accent-2);
+            color: var(--button-text);
+            padding: 2px 8px;
+            border-radius: 10px;
+            font-size: 12px;
+        }
+        .location-section {
+            background: var(--location-bg);
+            border-left: 5px solid var(--location-border);
+            padding: 10px 20px;
+            margin-bottom: 20px;
+            border-radius: 5px;
+            font-size: 14px;
+        }
+        .location-exits {
+            margin-top: 6px;
+            color: var(--subtle);
+        }
+        .clock-bar {
+            color: var(--subtle);
+            font-size: 14px;
+            margin-bottom: 10px;
+        }
+        .check-badge {
+            display: inline-block;
+            margin-left: 8px;
+            padding: 2px 8px;
+            border-radius: 10px;
+            background: rgba(255, 255, 255, 0.25);
+            font-size: 12px;
+            white-space: nowrap;
+        }
+        .game-id {
+            color: var(--subtle);
+            font-size: 12px;
+            text-align: center;
+            margin-top: 20px;
+            word-break: break-all;
+        }
+        @media (max-width: 480px) {
+            body {
+                padding: 5px;
+            }
+            .game-container {
+                padding: 15px;
+            }
+            .story-section {
+                padding: 15px;
+                font-size: 14px;
+            }
+            .action-button {
+                padding: 12px 15px;
+                font-size: 14px;
+            }
+        }`;
+
+/**
+ * 선택지 화면 스크립트 - 선택을 selectAction 도구 호출로 전달
+ */
+export const GAME_SCRIPT = `
+        (function() {
+            const buttons = document.querySelectorAll('.action-button');
+            const form = document.getElementById('custom-action-form');
+            const input = document.getElementById('custom-action-input');
+
+            // 한 프롬프트에는 한 번만 선택
+            function lockChoices() {
+                buttons.forEach(b => b.disabled = true);
+                if (form) {
+                    form.querySelectorAll('input, button').forEach(el => el.disabled = true);
+                }
+            }
+
+            // MCP 도구 호출을 위한 postMessage
+            function sendSelection(params) {
+                window.parent.postMessage({
+                    type: 'tool',
+                    payload: {
+                        toolName: 'selectAction',
+                        params: params
+                    }
+                }, '*');
+            }
+
+            buttons.forEach(function(btn) {
+                btn.addEventListener('click', function(e) {
+                    e.preventDefault();
+                    lockChoices();
+
+                    // 선택된 버튼 하이라이트
+                    buttons.forEach(b => b.style.opacity = '0.5');
+                    btn.style.opacity = '1';
+                    btn.classList.add('selected');
+
+                    sendSelection({
+                        gameId: btn.dataset.gameid,
+                        promptId: btn.dataset.promptid,
+                        selectedOption: btn.dataset.option,
+                        selectedIndex: parseInt(btn.dataset.index, 10)
+                    });
+                });
+            });
+
+            if (form && input) {
+                form.addEventListener('submit', function(e) {
+                    e.preventDefault();
+                    const text = input.value.replace(/\\s+/g, ' ').trim();
+                    if (!text) {
+                        input.focus();
+                        return;
+                    }
+                    lockChoices();
+                    buttons.forEach(b => b.style.opacity = '0.5');
+
+                    sendSelection({
+                        gameId: form.dataset.gameid,
+                        promptId: form.dataset.promptid,
+                        selectedOption: input.maxLength > 0 ? text.slice(0, input.maxLength) : text,
+                        selectedIndex: -1,
+                        custom: true
+                    });
+                });
+            }
+        })();`;
+
+/**
+ * 선택지 화면 기본 템플릿
+ */
+export const GAME_TEMPLATE = `
+<!DOCTYPE html>
+<html lang="{{lang}}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{title}}</title>
+    <style>
+{{{themeStyles}}}
+{{{styles}}}
+    </style>
+</head>
+<body class="theme-{{theme}}">
+    <div class="game-container">
+        {{{clockBar}}}
+
+        {{{locationSection}}}
+
+        <div class="story-section">
+            {{storyProgress}}
+        </div>
+
+        {{{deltaSection}}}
+
+        {{{partySection}}}
+
+        {{{questSection}}}
+
+        <div class="actions-section">
+            <h3>{{chooseAction}}</h3>
+            {{{optionButtons}}}
+            {{{customActionForm}}}
+        </div>
+
+        <div class="game-id">{{gameIdLabel}}: {{gameId}}</div>
+    </div>
+
+    <script>{{{script}}}
+    </script>
+</body>
+</html>`;
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import type { UITemplateKind, UITemplateValues, UITheme } from '../types.js';
+import { BUILTIN_THEMES, DEFAULT_THEME, normalizeThemeVariables, themeStyles } from './themes.js';
+import { GAME_SCRIPT, GAME_STYLES, GAME_TEMPLATE } from './gameTemplate.js';
+import { GAME_OVER_SCRIPT, GAME_OVER_STYLES, GAME_OVER_TEMPLATE } from './gameOverTemplate.js';
+
+export { DEFAULT_THEME };
+
+/**
+ * 템플릿별 자리표시자 - text는 {{name}}(이스케이프), html은 {{{name}}}(서버가 만든 HTML)
+ */
+const TEMPLATE_SLOTS: Record<UITemplateKind, { text: string[]; html: string[] }> = {
+  game: {
+    text: ['lang', 'title', 'theme', 'chooseAction', 'gameIdLabel', 'gameId', 'storyProgress'],
+    html: [
+      'themeStyles',
+      'styles',
+      'script',
+      'clockBar',
+      'locationSection',
+      'deltaSection',
+      'partySection',
+      'questSection',
+      'optionButtons',
+      'customActionForm',
+    ],
+  },
+  'game-over': {
+    text: [
+      'lang',
+      'title',
+      'theme',
+      'gameIdLabel',
+      'gameId',
+      'outcome',
+      'banner',
+      'heading',
+      'reason',
+      'message',
+      'fullStateLabel',
+      'fullState',
+      'restartLabel',
+      'restartAriaLabel',
+      'restartingLabel',
+    ],
+    html: ['themeStyles', 'styles', 'script', 'summary'],
+  },
+};
+
+const BUILTIN_TEMPLATES: Record<
+  UITemplateKind,
+  { template: string; styles: string; script: string }
+> = {
+  game: { template: GAME_TEMPLATE, styles: GAME_STYLES, script: GAME_SCRIPT },
+  'game-over': { template: GAME_OVER_TEMPLATE, styles: GAME_OVER_STYLES, script: GAME_OVER_SCRIPT },
+};
+
+const TEMPLATE_FILES: Record<UITemplateKind, string> = {
+  game: 'game.html',
+  'game-over': 'game-over.html',
+};
+
+// {{{name}}}를 먼저 찾아야 {{name}}로 잘리지 않음
+const PLACEHOLDER_PATTERN = /\{\{\{\s*([\w-]+)\s*\}\}\}|\{\{\s*([\w-]+)\s*\}\}/g;
+
+interface RegisteredTheme {
+  theme: UITheme;
+  templates: Partial<Record<UITemplateKind, string>>; // 없는 종류는 내장 템플릿 사용
+}
+
+/**
+ * HTML 이스케이프 - XSS 방지
+ */
+export function escapeHtml(input: unknown): string {
+  const s = String(input ?? '');
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 템플릿의 자리표시자를 값으로 치환 ({{name}}은 항상 이스케이프)
+ */
+export function renderTemplate(template: string, values: UITemplateValues): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, raw?: string, text?: string) =>
+    raw !== undefined ? (values.html[raw] ?? '') : escapeHtml(values.text[text as string])
+  );
+}
+
+/**
+ * 사용자 템플릿 검증 - 이스케이프되지 않는 {{{name}}}은 서버가 만든 HTML 조각에만 허용
+ */
+export function validateTemplate(kind: UITemplateKind, template: string, source: string): void {
+  const slots = TEMPLATE_SLOTS[kind];
+  for (const [placeholder, raw, text] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (raw !== undefined && !slots.html.includes(raw)) {
+      throw new Error(
+        slots.text.includes(raw)
+          ? `${source}: ${placeholder} would insert unescaped text. Use {{${raw}}} instead`
+          : `${source}: unknown placeholder ${placeholder}`
+      );
+    }
+    if (text !== undefined && !slots.text.includes(text)) {
+      throw new Error(
+        slots.html.includes(text)
+          ? `${source}: ${placeholder} is an HTML fragment. Use {{{${text}}}} instead`
+          : `${source}: unknown placeholder ${placeholder}`
+      );
+    }
+  }
+}
+
+/**
+ * UI 테마와 템플릿 모음 - 내장 테마에 템플릿 디렉터리의 사용자 테마를 더함
+ */
+export class TemplateRegistry {
+  private readonly themes = new Map<string, RegisteredTheme>();
+
+  constructor() {
+    for (const theme of BUILTIN_THEMES) {
+      this.themes.set(theme.name, { theme, templates: {} });
+    }
+  }
+
+  /**
+   * 테마 디렉터리에서 사용자 테마 읽기 (<dir>/<theme>/theme.json, game.html, game-over.html)
+   * 같은 이름의 내장 테마는 덮어쓰며, 잘못된 테마 하나 때문에 서버 시작이 실패하지 않도록 건너뜀
+   */
+  loadDirectory(dir: string): string[] {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`Template directory not found: ${dir}`);
+    }
+    const loaded: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      try {
+        const registered = this.readThemeDirectory(entry.name, path.join(dir, entry.name));
+        if (registered) {
+          this.themes.set(registered.theme.name, registered);
+          loaded.push(registered.theme.name);
+        }
+      } catch (e) {
+        console.error(`Failed to load theme ${entry.name}:`, e);
+      }
+    }
+    return loaded;
+  }
+
+  hasTheme(name: string): boolean {
+    return this.themes.has(name);
+  }
+
+  /**
+   * 사용할 수 있는 테마 (내장 테마 먼저, 사용자 테마는 읽은 순서)
+   */
+  listThemes(): UITheme[] {
+    return [...this.themes.values()].map(entry => entry.theme);
+  }
+
+  /**
+   * 테마로 화면 렌더링 - 테마가 없어졌으면 기본 테마 사용
+   */
+  render(kind: UITemplateKind, themeName: string | undefined, values: UITemplateValues): string {
+    const entry =
+      (themeName ? this.themes.get(themeName) : undefined) ??
+      (this.themes.get(DEFAULT_THEME) as RegisteredTheme);
+    const builtin = BUILTIN_TEMPLATES[kind];
+    return renderTemplate(entry.templates[kind] ?? builtin.template, {
+      text: { ...values.text, theme: entry.theme.name },
+      html: {
+        ...values.html,
+        themeStyles: themeStyles(entry.theme),
+        styles: builtin.styles,
+        script: builtin.script,
+      },
+    });
+  }
+
+  /**
+   * 테마 디렉터리 하나 읽기 (theme.json도 템플릿도 없으면 undefined)
+   */
+  private readThemeDirectory(name: string, dir: string): RegisteredTheme | undefined {
+    if (!/^[a-z0-9][a-z0-9-]*$/i.test(name)) {
+      throw new Error(`Theme directory name must use letters, digits and dashes: ${name}`);
+    }
+    const configFile = path.join(dir, 'theme.json');
+    const config: { description?: string; extends?: string; variables?: unknown } = fs.existsSync(
+      configFile
+    )
+      ? JSON.parse(fs.readFileSync(configFile, 'utf8'))
+      : {};
+
+    const templates: Partial<Record<UITemplateKind, string>> = {};
+    for (const kind of Object.keys(TEMPLATE_FILES) as UITemplateKind[]) {
+      const file = path.join(dir, TEMPLATE_FILES[kind]);
+      if (fs.existsSync(file)) {
+        const template = fs.readFileSync(file, 'utf8');
+        validateTemplate(kind, template, file);
+        templates[kind] = template;
+      }
+    }
+    if (!fs.existsSync(configFile) && Object.keys(templates).length === 0) {
+      return undefined;
+    }
+
+    // 변수는 extends 테마(없으면 같은 이름의 내장 테마, 그것도 없으면 기본 테마)를 바탕으로 함
+    const baseName = config.extends ?? (this.themes.has(name) ? name : DEFAULT_THEME);
+    const base = this.themes.get(baseName);
+    if (!base) {
+      throw new Error(`${configFile}: unknown theme to extend "${baseName}"`);
+    }
+    return {
+      theme: {
+        name,
+        description: config.description ?? `Custom theme based on ${base.theme.name}`,
+        variables: {
+          ...base.theme.variables,
+          ...normalizeThemeVariables(config.variables, configFile),
+        },
+      },
+      templates: { ...base.templates, ...templates },
+    };
+  }
+}
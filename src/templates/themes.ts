@@ -0,0 +1,310 @@
+import type { UITheme } from '../types.js';
+
+export const DEFAULT_THEME = 'fantasy';
+
+/**
+ * 기본(fantasy) 테마 변수 - 다른 테마는 이 값을 바탕으로 필요한 것만 바꿈
+ * 템플릿이 쓰는 변수는 모두 여기에 있어야 한다.
+ */
+const FANTASY_VARIABLES: Record<string, string> = {
+  font: "'Arial', sans-serif",
+  'page-bg': 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+  text: '#333',
+  'panel-bg': 'white',
+  'panel-border': 'none',
+  'panel-shadow': '0 10px 30px rgba(0,0,0,0.2)',
+  'story-bg': '#f8f9fa',
+  accent: '#667eea',
+  'accent-2': '#764ba2',
+  'button-bg': 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+  'button-text': 'white',
+  'button-shadow': 'rgba(102, 126, 234, 0.4)',
+  'selected-bg': 'linear-gradient(135deg, #28a745 0%, #20c997 100%)',
+  'input-bg': 'white',
+  'input-text': '#333',
+  'card-bg': '#ffffff',
+  'card-bg-soft': 'rgba(255, 255, 255, 0.6)',
+  muted: '#888',
+  subtle: '#555',
+  track: '#ddd',
+  positive: '#28a745',
+  'delta-bg': '#fff3cd',
+  'delta-border': '#ffc107',
+  'delta-text': '#856404',
+  'party-bg': '#f1f3ff',
+  'quest-bg': '#fffaf0',
+  'quest-border': '#d4a017',
+  'quest-text': '#b8860b',
+  'location-bg': '#eef8f1',
+  'location-border': '#2e8b57',
+  'over-bg': 'linear-gradient(135deg, #2c3e50 0%, #34495e 100%)',
+  'over-panel': '#2c3e50',
+  'over-text': '#ecf0f1',
+  'over-muted': '#bdc3c7',
+  'over-border': '#7f8c8d',
+  'over-summary-bg': '#34495e',
+  'over-code-bg': '#1a252f',
+  'over-link': '#2ecc71',
+  'over-loss': '#e74c3c',
+  'over-win': '#f1c40f',
+  'over-win-reason': '#27ae60',
+};
+
+function defineTheme(
+  name: string,
+  description: string,
+  overrides: Record<string, string> = {}
+): UITheme {
+  return { name, description, variables: { ...FANTASY_VARIABLES, ...overrides } };
+}
+
+/**
+ * 내장 테마
+ */
+export const BUILTIN_THEMES: UITheme[] = [
+  defineTheme(DEFAULT_THEME, 'Purple gradient adventure look (default)'),
+  defineTheme('noir', 'Sepia paper and ink for detective stories', {
+    font: "Georgia, 'Times New Roman', serif",
+    'page-bg': 'linear-gradient(135deg, #1c1c1c 0%, #3a3a3a 100%)',
+    text: '#222',
+    'panel-bg': '#f4f1ea',
+    'story-bg': '#e8e4da',
+    accent: '#333',
+    'accent-2': '#555',
+    'button-bg': '#2b2b2b',
+    'button-text': '#f4f1ea',
+    'button-shadow': 'rgba(0, 0, 0, 0.4)',
+    'selected-bg': '#8b0000',
+    'input-bg': '#fbfaf6',
+    'input-text': '#222',
+    'card-bg': '#fbfaf6',
+    'card-bg-soft': 'rgba(255, 255, 255, 0.5)',
+    muted: '#777',
+    track: '#ccc',
+    positive: '#2f5d2f',
+    'delta-bg': '#ece7da',
+    'delta-border': '#8c7b5a',
+    'delta-text': '#4a3f2a',
+    'party-bg': '#e6e2d8',
+    'quest-bg': '#efeadf',
+    'quest-border': '#6b6b6b',
+    'quest-text': '#3a3a3a',
+    'location-bg': '#e4e4e4',
+    'location-border': '#444',
+    'over-bg': 'linear-gradient(135deg, #000 0%, #262626 100%)',
+    'over-panel': '#111',
+    'over-text': '#eee',
+    'over-muted': '#aaa',
+    'over-border': '#555',
+    'over-summary-bg': '#1c1c1c',
+    'over-code-bg': '#000',
+    'over-link': '#d4af37',
+    'over-loss': '#8b0000',
+    'over-win': '#d4af37',
+    'over-win-reason': '#4a4a4a',
+  }),
+  defineTheme('sci-fi', 'Dark console with neon cyan and violet', {
+    font: "'Consolas', 'Courier New', monospace",
+    'page-bg': 'linear-gradient(135deg, #020617 0%, #0f172a 100%)',
+    text: '#e2e8f0',
+    'panel-bg': '#0b1220',
+    'panel-border': '1px solid #22d3ee',
+    'panel-shadow': '0 0 30px rgba(34, 211, 238, 0.25)',
+    'story-bg': '#111a2e',
+    accent: '#22d3ee',
+    'accent-2': '#a855f7',
+    'button-bg': 'linear-gradient(135deg, #0891b2 0%, #7c3aed 100%)',
+    'button-text': '#f8fafc',
+    'button-shadow': 'rgba(34, 211, 238, 0.4)',
+    'selected-bg': 'linear-gradient(135deg, #10b981 0%, #22d3ee 100%)',
+    'input-bg': '#0f172a',
+    'input-text': '#e2e8f0',
+    'card-bg': '#16213a',
+    'card-bg-soft': 'rgba(22, 33, 58, 0.8)',
+    muted: '#64748b',
+    subtle: '#94a3b8',
+    track: '#1e293b',
+    positive: '#34d399',
+    'delta-bg': '#1f1a0b',
+    'delta-border': '#facc15',
+    'delta-text': '#fde68a',
+    'party-bg': '#141b33',
+    'quest-bg': '#1a1530',
+    'quest-border': '#a855f7',
+    'quest-text': '#d8b4fe',
+    'location-bg': '#0c2420',
+    'location-border': '#10b981',
+    'over-bg': 'linear-gradient(135deg, #020617 0%, #111827 100%)',
+    'over-panel': '#0b1220',
+    'over-text': '#e2e8f0',
+    'over-muted': '#94a3b8',
+    'over-border': '#334155',
+    'over-summary-bg': '#111a2e',
+    'over-code-bg': '#020617',
+    'over-link': '#22d3ee',
+    'over-loss': '#f43f5e',
+    'over-win': '#22d3ee',
+    'over-win-reason': '#0e7490',
+  }),
+  defineTheme('horror', 'Blood red on near-black', {
+    font: "Georgia, 'Times New Roman', serif",
+    'page-bg': 'linear-gradient(135deg, #0a0000 0%, #2b0505 100%)',
+    text: '#d6cfc7',
+    'panel-bg': '#140b0b',
+    'panel-border': '1px solid #4a0000',
+    'panel-shadow': '0 10px 40px rgba(0, 0, 0, 0.8)',
+    'story-bg': '#1e1010',
+    accent: '#b30000',
+    'accent-2': '#6b0f0f',
+    'button-bg': 'linear-gradient(135deg, #4a0000 0%, #8b0000 100%)',
+    'button-text': '#f2e8e8',
+    'button-shadow': 'rgba(179, 0, 0, 0.5)',
+    'selected-bg': 'linear-gradient(135deg, #2f4f2f 0%, #556b2f 100%)',
+    'input-bg': '#1a0f0f',
+    'input-text': '#d6cfc7',
+    'card-bg': '#241414',
+    'card-bg-soft': 'rgba(36, 20, 20, 0.8)',
+    muted: '#8a7f7f',
+    subtle: '#a89a9a',
+    track: '#3a2222',
+    positive: '#7fbf7f',
+    'delta-bg': '#2a1a08',
+    'delta-border': '#b8860b',
+    'delta-text': '#e0c080',
+    'party-bg': '#1c1212',
+    'quest-bg': '#1f1a12',
+    'quest-border': '#8b6914',
+    'quest-text': '#d4af37',
+    'location-bg': '#121a12',
+    'location-border': '#3d5c3d',
+    'over-bg': 'linear-gradient(135deg, #000 0%, #1a0000 100%)',
+    'over-panel': '#0d0505',
+    'over-text': '#e8dede',
+    'over-muted': '#a89a9a',
+    'over-border': '#4a0000',
+    'over-summary-bg': '#1a0b0b',
+    'over-code-bg': '#050000',
+    'over-link': '#c0392b',
+    'over-loss': '#8b0000',
+    'over-win': '#d4af37',
+    'over-win-reason': '#2f4f2f',
+  }),
+  defineTheme('minimal', 'Plain light layout without decoration', {
+    font: "system-ui, -apple-system, 'Segoe UI', sans-serif",
+    'page-bg': '#f5f5f5',
+    text: '#222',
+    'panel-bg': '#fff',
+    'panel-border': '1px solid #e0e0e0',
+    'panel-shadow': 'none',
+    'story-bg': '#fafafa',
+    accent: '#444',
+    'accent-2': '#666',
+    'button-bg': '#eee',
+    'button-text': '#222',
+    'button-shadow': 'rgba(0, 0, 0, 0.15)',
+    'selected-bg': '#d4edda',
+    'card-bg': '#fff',
+    'card-bg-soft': '#fff',
+    muted: '#999',
+    subtle: '#666',
+    track: '#e5e5e5',
+    positive: '#2e7d32',
+    'delta-bg': '#fafafa',
+    'delta-border': '#bbb',
+    'delta-text': '#444',
+    'party-bg': '#fafafa',
+    'quest-bg': '#fafafa',
+    'quest-border': '#bbb',
+    'quest-text': '#444',
+    'location-bg': '#fafafa',
+    'location-border': '#bbb',
+    'over-bg': '#f5f5f5',
+    'over-panel': '#fff',
+    'over-text': '#222',
+    'over-muted': '#666',
+    'over-border': '#e0e0e0',
+    'over-summary-bg': '#fafafa',
+    'over-code-bg': '#f0f0f0',
+    'over-link': '#444',
+    'over-loss': '#c0392b',
+    'over-win': '#2e7d32',
+    'over-win-reason': '#2e7d32',
+  }),
+  defineTheme('high-contrast', 'Black background with bright text for accessibility', {
+    font: 'Verdana, Arial, sans-serif',
+    'page-bg': '#000',
+    text: '#fff',
+    'panel-bg': '#000',
+    'panel-border': '2px solid #fff',
+    'panel-shadow': 'none',
+    'story-bg': '#000',
+    accent: '#ffff00',
+    'accent-2': '#00ffff',
+    'button-bg': '#ffff00',
+    'button-text': '#000',
+    'button-shadow': 'rgba(255, 255, 0, 0.6)',
+    'selected-bg': '#00ff00',
+    'input-bg': '#000',
+    'input-text': '#fff',
+    'card-bg': '#000',
+    'card-bg-soft': '#000',
+    muted: '#ccc',
+    subtle: '#fff',
+    track: '#444',
+    positive: '#00ff00',
+    'delta-bg': '#000',
+    'delta-border': '#ffff00',
+    'delta-text': '#ffff00',
+    'party-bg': '#000',
+    'quest-bg': '#000',
+    'quest-border': '#00ffff',
+    'quest-text': '#00ffff',
+    'location-bg': '#000',
+    'location-border': '#00ff00',
+    'over-bg': '#000',
+    'over-panel': '#000',
+    'over-text': '#fff',
+    'over-muted': '#fff',
+    'over-border': '#fff',
+    'over-summary-bg': '#000',
+    'over-code-bg': '#000',
+    'over-link': '#ffff00',
+    'over-loss': '#c00000',
+    'over-win': '#ffff00',
+    'over-win-reason': '#006400',
+  }),
+];
+
+/**
+ * 테마 변수를 :root CSS 블록으로 변환
+ */
+export function themeStyles(theme: UITheme): string {
+  const lines = Object.entries(theme.variables).map(([name, value]) => `  --${name}: ${value};`);
+  return `:root {\n${lines.join('\n')}\n}`;
+}
+
+/**
+ * 사용자 테마 변수 검증 - 스타일 블록을 벗어날 수 있는 문자는 거부
+ */
+export function normalizeThemeVariables(
+  variables: unknown,
+  source: string
+): Record<string, string> {
+  if (variables === undefined) {
+    return {};
+  }
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+    throw new Error(`${source}: variables must be an object of CSS values`);
+  }
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    if (!/^[a-z][a-z0-9-]*$/i.test(name)) {
+      throw new Error(`${source}: invalid variable name "${name}"`);
+    }
+    if (typeof value !== 'string' || /[<>{};]/.test(value)) {
+      throw new Error(`${source}: variable "${name}" must be a CSS value without < > { } ;`);
+    }
+    result[name] = value;
+  }
+  return result;
+}
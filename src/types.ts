@@ -1,25 +1,69 @@
+import type { MessageKey } from './i18n.js';
+
 /**
  * 상황과 선택된 액션의 히스토리 항목
  */
 export interface GameHistoryEntry {
+  turn: number; // 게임 시작 이후의 턴 번호 (0부터 시작)
   situation: string; // 주어진 상황/스토리 진행
   options: string[]; // 주어진 선택지들
   selectedOption: string; // 선택된 옵션
-  selectedIndex: number; // 선택된 인덱스
+  selectedIndex: number; // 선택된 인덱스 (직접 입력한 행동은 -1)
+  choiceType: ChoiceType; // 제시된 선택지인지 직접 입력한 행동인지
+  promptId?: string; // 선택한 프롬프트 ID
+  check?: SkillCheckResult; // 선택지에 판정이 있었다면 그 결과
   timestamp: Date; // 선택 시점
 }
 
+/**
+ * 선택 종류 - 제시된 선택지(preset) 또는 플레이어가 직접 입력한 행동(custom)
+ */
+export type ChoiceType = 'preset' | 'custom';
+
+/**
+ * 선택지에 연결된 능력치 판정
+ */
+export interface SkillCheck {
+  stat: string; // 판정할 능력치 경로 (예: characters[0].stats.str)
+  dc: number; // 난이도 (Difficulty Class)
+  dice?: string; // 굴릴 주사위 (기본값: 1d20)
+  mode?: DiceRollMode; // 유리/불리 판정
+  modifierMode?: 'ability' | 'raw'; // ability: (능력치-10)/2 보정, raw: 능력치를 그대로 더함
+}
+
+export interface SkillCheckResult {
+  stat: string;
+  statValue: number;
+  modifier: number;
+  dc: number;
+  roll: number; // 주사위 합계
+  total: number; // 주사위 + 보정치
+  outcome: 'success' | 'partial' | 'failure';
+  critical: boolean; // 단일 d20에서 20 또는 1
+}
+
+/**
+ * 구조화된 선택지 - 판정이 필요한 행동
+ */
+export interface ActionOption {
+  text: string;
+  check?: SkillCheck;
+  time?: number; // 선택 시 흐르는 시간대 수 (달력이 있는 게임)
+}
+
 /**
  * Delta 정보 타입
  */
 export interface DeltaInfo {
   field: string;
+  operation?: UpdateOperation; // 변경에 사용된 연산 (기본값: set)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   initialValue: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   finalValue: any;
   timestamp: Date;
-  description: string;
+  description: string; // 도구 응답용 설명 (영어)
+  displayDescription?: string; // UI에 표시할 설명 (게임의 로케일, 없으면 description)
 }
 
 /**
@@ -36,10 +80,32 @@ export interface GameState {
   selectedAction?: {
     option: string;
     index: number;
+    custom?: boolean; // 플레이어가 직접 입력한 행동
+    check?: SkillCheckResult;
     timestamp: Date;
   };
   _pendingDeltas?: DeltaInfo[]; // promptUserAction 사이의 누적 변경사항
   _lastPromptTime?: Date; // 마지막 promptUserAction 호출 시간
+  _promptId?: string; // 마지막 promptUserActions가 발급한 ID (selectAction이 같은 ID를 보내야 함)
+  _promptAnswered?: boolean; // 마지막 프롬프트에 이미 선택했는지 여부
+  _allowCustomAction?: boolean; // 마지막 프롬프트에 직접 입력한 행동을 허용하는지 여부
+  _turnCount?: number; // 지금까지 완료된 선택(턴) 수
+  _currentChecks?: (SkillCheck | null)[]; // 현재 선택지별 판정 (_currentOptions와 같은 순서)
+  _rngState?: number; // 시드 기반 난수 생성기의 현재 상태 (되돌리기 시 함께 복원)
+  _diceRolls?: DiceRollRecord[]; // 최근 주사위 굴림 기록 (최대 50개)
+  _encounter?: Encounter; // 진행 중인 전투 (없으면 전투 중이 아님)
+  inventoryLimits?: InventoryLimits; // 공용 인벤토리의 무게/슬롯 제한
+  _itemCatalog?: Record<string, ItemDefinition>; // 아이템 정의 (소문자 이름 -> 정의)
+  _quests?: Quest[]; // 퀘스트 기록 (진행 중, 완료, 실패)
+  _clock?: GameClock; // 달력과 현재 시각 (createGame/setCalendar로 설정)
+  _currentTimeCosts?: (number | null)[]; // 현재 선택지별 소요 시간 (_currentOptions와 같은 순서)
+  _locations?: LocationNode[]; // 지도에 정의된 장소
+  _connections?: LocationConnection[]; // 장소 사이의 길
+  _relationships?: Relationship[]; // 캐릭터 사이의 호감도 (방향 있음)
+  _relationshipTiers?: RelationshipTier[]; // 관계 단계 (min 오름차순)
+  _endConditions?: EndCondition[]; // 자동 게임 종료 조건 (선언 순서대로 검사)
+  _theme?: string; // UI 테마 이름 (없거나 찾을 수 없으면 기본 테마)
+  _locale?: Locale; // UI와 변경사항 설명의 언어 (없으면 기본 로케일)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any; // 유연한 구조를 위해 추가 프로퍼티 허용
 }
@@ -51,6 +117,12 @@ export interface Character {
   mp?: number;
   class?: string;
   favorability?: number;
+  maxHp?: number; // 회복 상한 (없으면 전투 시작 시의 HP)
+  ac?: number; // 방어도 (기본값: 10)
+  inventory?: InventoryItem[]; // 캐릭터 개인 인벤토리
+  inventoryLimits?: InventoryLimits;
+  equipment?: Record<string, string>; // 슬롯 -> 아이템 이름 (인벤토리 없이 장비만 기술하는 게임용, "장비"도 인식)
+  effects?: ActiveEffect[]; // 능력치에 적용 중인 효과
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any;
 }
@@ -65,12 +137,343 @@ export interface WorldState {
 
 export interface InventoryItem {
   name: string;
+  id?: string; // 같은 이름의 다른 아이템을 구분할 때 사용
   quantity?: number;
   type?: string;
+  weight?: number; // 개당 무게
+  equipped?: boolean;
+  slot?: string; // 장착 슬롯 (예: weapon, armor)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any;
 }
 
+/**
+ * 아이템 정의 - 장착 시 능력치 보정, 사용 시 효과
+ */
+export interface ItemDefinition {
+  name: string;
+  type?: string;
+  slot?: string;
+  weight?: number;
+  description?: string;
+  modifiers?: Record<string, number>; // 장착 중 능력치 보정 (예: {"attack": 5})
+  damage?: string; // 무기 피해 주사위 (전투의 기본 피해량)
+  effect?: ItemEffect; // 소모품 사용 효과
+}
+
+/**
+ * 소모품 효과
+ * - restore: 수치 회복 (예: {"hp": 30}), max<Stat> 필드가 있으면 그 값을 넘지 않음
+ * - modifiers: 캐릭터에 지속 효과로 추가되는 능력치 보정
+ */
+export interface ItemEffect {
+  restore?: Record<string, number | string>; // 숫자 또는 주사위 표기법
+  modifiers?: Record<string, number>;
+  duration?: number; // modifiers/perTurn이 유지되는 턴 수
+  perTurn?: Record<string, number>; // 턴마다 더해지는 수치 (예: {"hp": 5})
+}
+
+/**
+ * 캐릭터에 적용 중인 효과
+ */
+export interface ActiveEffect {
+  name: string;
+  modifiers?: Record<string, number>;
+  source?: string; // 효과를 준 아이템 등
+  duration?: number; // 남은 턴 수 (없으면 제거할 때까지 유지)
+  perTurn?: Record<string, number>; // 턴마다 더해지는 수치 (예: 중독 {"hp": -5})
+}
+
+/**
+ * 기본값과 보정치를 합친 능력치
+ */
+export interface EffectiveStat {
+  base: number;
+  bonus: number;
+  effective: number;
+  sources: string[]; // 예: ["Iron Sword +5"]
+}
+
+/**
+ * 아이템 효과로 바뀐 수치
+ */
+export interface StatChange {
+  field: string;
+  label: string; // 예: "Aria HP"
+  labelField?: string; // 필드 이름이 label이면 설명할 때 로케일에 맞는 이름으로 바꿈 (예: "time")
+  initialValue: unknown;
+  finalValue: unknown;
+  description?: string; // 지정하면 수치 비교 대신 사용
+  message?: LocalizedMessage; // description보다 우선하며 설명할 때의 로케일로 번역
+}
+
+/**
+ * 로케일에 따라 번역하는 변화 설명 (i18n 메시지 키와 매개변수)
+ */
+export interface LocalizedMessage {
+  key: MessageKey;
+  params: Record<string, unknown>;
+  effect?: ActiveEffect; // 설명 뒤에 효과 내용을 덧붙임
+}
+
+/**
+ * 인벤토리 제한 - 지정하지 않은 항목은 제한 없음
+ */
+export interface InventoryLimits {
+  maxWeight?: number; // 무게 합계 (weight x quantity)
+  maxSlots?: number; // 아이템 묶음 수
+}
+
+/**
+ * 인벤토리 도구가 만든 변경 - delta로 변환되어 플레이어에게 표시됨
+ * equip의 값은 장착 슬롯(해제 시 false), 그 외는 수량
+ */
+export interface InventoryChange {
+  field: string;
+  owner: string; // 공용 인벤토리("party") 또는 캐릭터 이름 - 설명할 때 로케일에 맞는 이름으로 바꿈
+  itemName: string;
+  initialValue: unknown;
+  finalValue: unknown;
+  kind: 'quantity' | 'use' | 'equip';
+  counterpart?: string; // transferItem의 상대 소유자
+}
+
+/**
+ * 게임 결과 - 승리 또는 패배
+ */
+export type GameOutcome = 'win' | 'loss';
+
+/**
+ * 자동 게임 종료 조건
+ * - condition: "경로 연산자 값" 형식의 조건 (예: "characters[0].hp <= 0")
+ * - outcome: 기본값 loss
+ */
+export interface EndCondition {
+  condition: string;
+  outcome?: GameOutcome;
+  reason?: string;
+}
+
+/**
+ * 충족된 종료 조건
+ */
+export interface EndConditionResult {
+  condition: string;
+  outcome: GameOutcome;
+  reason: string;
+}
+
+/**
+ * 게임 달력 설정
+ * - slots: 하루의 시간대 (기본값: Morning, Afternoon, Evening, Night)
+ * - deadline: 이 시각에 도달하면 게임 오버
+ */
+export interface CalendarConfig {
+  slots?: string[];
+  startDay?: number; // 기본값 1
+  startSlot?: string; // 기본값: 첫 시간대
+  startDate?: string; // 첫날의 날짜 (YYYY-MM-DD), 지정하면 날짜로 표시
+  deadline?: { day: number; slot?: string; reason?: string };
+  defaultActionCost?: number; // time을 지정하지 않은 선택지의 소요 시간 (기본값 0)
+}
+
+/**
+ * 게임 시계 - 시간대 인덱스로 현재 시각을 표현
+ */
+export interface GameClock {
+  day: number;
+  slot: number;
+  slots: string[];
+  startDay: number;
+  startDate?: string;
+  deadline?: { day: number; slot: number; reason?: string };
+  defaultActionCost: number;
+}
+
+/**
+ * 시간 경과 결과
+ */
+export interface ClockAdvance {
+  clock: GameClock;
+  changes: StatChange[];
+  slotsPassed: number;
+  daysPassed: number;
+  deadlineReached: boolean;
+}
+
+/**
+ * 시간 도구 응답
+ */
+export interface ClockResponse extends ClockAdvance {
+  game: Game;
+}
+
+/**
+ * 지도의 장소
+ */
+export interface LocationNode {
+  name: string;
+  description?: string;
+  tags?: string[];
+  visited?: boolean;
+}
+
+/**
+ * 장소 사이의 길 - 이동할 때 시간과 자원을 소모
+ */
+export interface LocationConnection {
+  from: string;
+  to: string;
+  oneWay?: boolean; // true면 from → to 방향으로만 이동 가능
+  time?: number; // 소요 시간대 수 (달력이 있는 게임)
+  cost?: Record<string, number>; // 필드 선택자 -> 소모량 (예: {"자원.골드": 10})
+  items?: Record<string, number>; // 공용 인벤토리에서 소모할 아이템 -> 수량
+  description?: string; // 예: "a narrow mountain path"
+}
+
+/**
+ * 현재 장소에서 갈 수 있는 곳
+ */
+export interface LocationExit {
+  destination: string;
+  connection: LocationConnection;
+}
+
+/**
+ * 이동 결과
+ */
+export interface TravelResponse {
+  game: Game;
+  from: string;
+  to: LocationNode;
+  connection: LocationConnection;
+  changes: StatChange[];
+  inventoryChanges: InventoryChange[];
+  time?: ClockAdvance; // 길의 소요 시간 (달력이 있는 게임)
+}
+
+/**
+ * 장소 정의 응답
+ */
+export interface LocationResponse {
+  game: Game;
+  location: LocationNode;
+  created: boolean;
+}
+
+/**
+ * 장소 연결 응답
+ */
+export interface ConnectionResponse {
+  game: Game;
+  connection: LocationConnection;
+}
+
+/**
+ * 관계 단계 - 호감도가 min 이상이면 해당 단계 (예: {"name": "Friend", "min": 20})
+ */
+export interface RelationshipTier {
+  name: string;
+  min: number;
+  event?: string; // 이 단계에 처음 올라설 때 일어나는 일 (예: "Sakura confesses")
+}
+
+/**
+ * from이 to에게 느끼는 호감도
+ */
+export interface Relationship {
+  from: string;
+  to: string;
+  affinity: number;
+  tier: string;
+}
+
+/**
+ * 호감도가 단계 경계를 넘었을 때의 이벤트
+ */
+export interface RelationshipEvent {
+  from: string;
+  to: string;
+  previousTier: string;
+  tier: string;
+  direction: 'up' | 'down';
+  event?: string; // 올라선 단계의 이벤트 설명
+}
+
+/**
+ * 관계 도구 응답
+ */
+export interface RelationshipResponse {
+  game: Game;
+  relationships: Relationship[]; // 바뀐 관계
+  changes: StatChange[];
+  events: RelationshipEvent[];
+}
+
+/**
+ * 퀘스트 진행 상태
+ */
+export type QuestStatus = 'active' | 'completed' | 'failed';
+
+/**
+ * 퀘스트 목표 - target이 있으면 카운터(예: 열쇠 0/3), 없으면 체크리스트 항목
+ */
+export interface QuestObjective {
+  id: string;
+  description: string;
+  target?: number;
+  progress?: number; // 카운터의 현재 값
+  done: boolean;
+}
+
+/**
+ * 여러 단계로 이루어진 목표
+ */
+export interface Quest {
+  id: string;
+  title: string;
+  description?: string;
+  status: QuestStatus;
+  objectives: QuestObjective[];
+  reward?: string;
+  startedTurn: number;
+  endedTurn?: number;
+  failureReason?: string;
+}
+
+/**
+ * addQuest에 전달하는 목표 (문자열이면 체크리스트 항목)
+ */
+export interface QuestObjectiveInput {
+  id?: string;
+  description: string;
+  target?: number;
+}
+
+/**
+ * 퀘스트 도구 응답
+ */
+export interface QuestResponse {
+  game: Game;
+  quest: Quest;
+  changes: StatChange[];
+}
+
+/**
+ * 상태 효과 도구 응답
+ */
+export interface StatusEffectResponse {
+  game: Game;
+  changes: StatChange[];
+}
+
+export interface InventoryResponse {
+  game: Game;
+  changes: InventoryChange[];
+  item?: InventoryItem; // useItem/removeItem으로 꺼낸 아이템
+  effects?: StatChange[]; // useItem으로 적용된 아이템 효과
+}
+
 export interface StoryState {
   chapter?: number;
   progress?: string;
@@ -86,6 +489,203 @@ export interface Game {
   state: GameState;
   createdAt: Date;
   updatedAt: Date;
+  saves?: SaveSlot[]; // 사용자가 이름 붙여 저장한 체크포인트
+  turnSnapshots?: TurnSnapshot[]; // 각 턴의 선택 직전 상태 (undo/rewind용, 최대 10개)
+  stateSchema?: Record<string, unknown>; // updateGame 시 상태를 검증할 JSON Schema
+  rngSeed?: number; // 주사위 난수 시드 (같은 시드와 같은 호출 순서면 결과가 재현됨)
+  parentGameId?: string; // 분기된 게임의 원본 게임 ID
+  forkedAtTurn?: number; // 원본 게임에서 분기한 턴 번호
+  status?: GameStatus; // 생략 시 active
+  endReason?: string; // 게임이 끝난 사유
+  endedAt?: Date; // 게임이 끝난 시각
+}
+
+/**
+ * 게임 진행 상태
+ * - active: 진행 중
+ * - ended-win / ended-loss: 승리 또는 패배로 종료
+ * - abandoned: 끝나기 전에 재시작을 선택
+ */
+export type GameStatus = 'active' | 'ended-win' | 'ended-loss' | 'abandoned';
+
+/**
+ * 타임라인 트리 노드 - 분기(fork) 관계를 표현
+ */
+export interface TimelineNode {
+  game: Game;
+  children: TimelineNode[];
+}
+
+/**
+ * 턴 스냅샷 - 해당 턴의 선택이 이루어지기 직전의 게임 상태
+ */
+export interface TurnSnapshot {
+  turn: number;
+  state: GameState;
+  createdAt: Date;
+}
+
+/**
+ * 저장 슬롯 - 특정 시점의 전체 게임 상태 스냅샷
+ */
+export interface SaveSlot {
+  label: string;
+  state: GameState;
+  createdAt: Date;
+}
+
+/**
+ * 주사위 굴림 방식 - 유리/불리 판정은 두 번 굴려 높은/낮은 값을 채택
+ */
+export type DiceRollMode = 'normal' | 'advantage' | 'disadvantage';
+
+export interface DiceTermResult {
+  label: string; // 예: "2d6", "+3"
+  rolls: number[]; // 개별 주사위 눈 (폭발 주사위의 추가 굴림 포함)
+  subtotal: number;
+}
+
+export interface DiceRollResult {
+  notation: string;
+  mode: DiceRollMode;
+  total: number;
+  terms: DiceTermResult[];
+  discardedTotal?: number; // 유리/불리 판정에서 버려진 굴림의 합계
+}
+
+/**
+ * 게임 상태에 기록되는 주사위 굴림
+ */
+export interface DiceRollRecord extends DiceRollResult {
+  reason?: string;
+  turn: number;
+  timestamp: Date;
+}
+
+/**
+ * 적의 공격 수단
+ */
+export interface EnemyAttack {
+  name: string;
+  toHit: number; // 명중 보정치 (1d20에 더함)
+  damage: string; // 피해 주사위 (예: "1d6+2")
+}
+
+/**
+ * startEncounter에 전달하는 적 능력치
+ */
+export interface EnemyStatBlock {
+  name: string;
+  hp: number;
+  ac: number;
+  attacks: EnemyAttack[];
+  initiativeBonus?: number;
+}
+
+export interface EnemyCombatant extends EnemyStatBlock {
+  maxHp: number;
+}
+
+export type CombatSide = 'party' | 'enemy';
+
+/**
+ * 행동 순서의 한 칸 - index는 side에 따라 characters 또는 enemies의 인덱스
+ */
+export interface CombatTurn {
+  side: CombatSide;
+  index: number;
+  name: string;
+  initiative: number;
+  defending?: boolean; // 방어 중이면 다음 자기 차례까지 AC +2
+  maxHp?: number; // 파티원의 회복 상한
+}
+
+/**
+ * 전투 상태
+ * - active: 진행 중
+ * - victory: 모든 적 쓰러짐
+ * - fled: 파티가 도주에 성공
+ * - defeat: 파티 전멸 (게임 오버)
+ */
+export type EncounterStatus = 'active' | 'victory' | 'fled' | 'defeat';
+
+export interface Encounter {
+  enemies: EnemyCombatant[];
+  order: CombatTurn[]; // 우선권 순서
+  turnIndex: number; // order에서 현재 차례
+  round: number;
+  status: EncounterStatus;
+  log: string[]; // 전투 기록 (최근 50개)
+  startedAt: Date;
+}
+
+export type CombatActionType = 'attack' | 'defend' | 'useItem' | 'flee';
+
+/**
+ * 파티원 차례에 수행할 행동
+ */
+export interface CombatActionRequest {
+  action: CombatActionType;
+  actor?: string; // 생략하면 현재 차례의 파티원
+  target?: string; // attack: 적 이름, useItem: 파티원 이름
+  damage?: string; // attack 피해 주사위 (기본값: 1d6)
+  item?: string; // useItem: 사용할 인벤토리 아이템 이름
+  healing?: string | number; // useItem: 회복량 (주사위 표기법 또는 숫자)
+}
+
+/**
+ * 전투 도구 응답 - log는 이번 호출에서 일어난 일
+ */
+export interface CombatResponse {
+  game: Game;
+  encounter: Encounter;
+  log: string[];
+}
+
+/**
+ * 게임 저장소 백엔드 종류
+ */
+export type StorageBackend = 'memory' | 'json' | 'sqlite';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  dataDir: string; // json: 게임별 파일 디렉터리, sqlite: DB 파일이 위치할 디렉터리
+}
+
+/**
+ * UI 언어
+ */
+export type Locale = 'en' | 'ko';
+
+/**
+ * UI 템플릿 종류 - 선택지 화면(game)과 게임 종료 화면(game-over)
+ */
+export type UITemplateKind = 'game' | 'game-over';
+
+/**
+ * UI 테마 - 템플릿이 var(--이름)으로 참조하는 CSS 변수 묶음
+ */
+export interface UITheme {
+  name: string;
+  description: string;
+  variables: Record<string, string>; // 변수 이름(-- 제외) -> CSS 값
+}
+
+/**
+ * 템플릿에 넣을 값 - text는 {{name}}으로 이스케이프되어, html은 {{{name}}}으로 그대로 들어감
+ */
+export interface UITemplateValues {
+  text: Record<string, unknown>;
+  html: Record<string, string>; // 서버가 이미 이스케이프해 만든 HTML 조각만
+}
+
+/**
+ * 게임 저장소 인터페이스 - GameManager가 모든 변경을 write-through
+ */
+export interface GameStore {
+  loadAll(): Game[];
+  save(game: Game): void;
+  delete(gameId: string): void;
 }
 
 /**
@@ -93,17 +693,232 @@ export interface Game {
  */
 export interface CreateGameParams {
   initialStateInJson: GameState;
+  stateSchema?: string | Record<string, unknown>; // 내장 스키마 이름 또는 JSON Schema
+  seed?: number; // 주사위 난수 시드 (생략 시 무작위)
+  itemCatalog?: ItemDefinition[];
+  relationshipTiers?: RelationshipTier[];
+  calendar?: CalendarConfig;
+  endConditions?: EndCondition[];
+  theme?: string; // UI 테마 (내장 또는 템플릿 디렉터리의 테마)
+  locale?: Locale; // UI 언어 (기본값: ko)
+}
+
+/**
+ * createGame 옵션
+ */
+export interface CreateGameOptions {
+  stateSchema?: string | Record<string, unknown>;
+  seed?: number;
+  itemCatalog?: ItemDefinition[];
+  relationshipTiers?: RelationshipTier[];
+  calendar?: CalendarConfig;
+  endConditions?: EndCondition[];
+  theme?: string;
+  locale?: Locale;
 }
 
 export interface UpdateGameParams {
   gameId: string;
   fieldSelector: string;
+  operation?: UpdateOperation;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   value: any;
   isGameOver?: boolean; // Set to true if this update results in game over
   gameOverReason?: string; // Explanation of why the game ended
 }
 
+/**
+ * 필드 변경 연산
+ * - set: 값 덮어쓰기 (기본값)
+ * - increment/decrement/multiply: 숫자 연산
+ * - clamp: {min, max} 범위로 제한
+ * - push: 배열 끝에 항목 추가
+ * - remove: 배열에서 인덱스(숫자) 또는 일치하는 항목 제거
+ * - merge: 객체에 키 병합
+ * - delete: 필드 삭제
+ */
+export type UpdateOperation =
+  | 'set'
+  | 'increment'
+  | 'decrement'
+  | 'multiply'
+  | 'clamp'
+  | 'push'
+  | 'remove'
+  | 'merge'
+  | 'delete';
+
+/**
+ * 단일 필드 변경 - applyUpdates의 각 연산
+ */
+export interface FieldUpdate {
+  fieldSelector: string;
+  operation?: UpdateOperation;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  value?: any; // delete 연산에서는 생략 가능
+}
+
+export interface ApplyUpdatesParams {
+  gameId: string;
+  updates: FieldUpdate[];
+  isGameOver?: boolean;
+  gameOverReason?: string;
+}
+
+export interface RollDiceParams {
+  gameId: string;
+  notation: string;
+  mode?: DiceRollMode;
+  reason?: string;
+}
+
+export interface StartEncounterParams {
+  gameId: string;
+  enemies: EnemyStatBlock[];
+  party?: string[]; // 참가할 캐릭터 이름 (생략 시 HP가 있는 모든 캐릭터)
+}
+
+export interface CombatActionParams extends CombatActionRequest {
+  gameId: string;
+}
+
+export interface EndEncounterParams {
+  gameId: string;
+}
+
+export interface AddItemParams {
+  gameId: string;
+  item: InventoryItem;
+  quantity?: number; // 생략 시 item.quantity 또는 1
+  owner?: string; // 캐릭터 이름 (생략 시 공용 인벤토리)
+}
+
+export interface RemoveItemParams {
+  gameId: string;
+  item: string; // 아이템 이름 또는 id
+  quantity?: number;
+  owner?: string;
+}
+
+export interface UseItemParams extends RemoveItemParams {
+  target?: string; // 효과를 받을 캐릭터 (생략 시 owner)
+}
+
+export interface AddStatusEffectParams {
+  gameId: string;
+  character: string;
+  name: string;
+  duration?: number;
+  perTurn?: Record<string, number>;
+  modifiers?: Record<string, number>;
+  source?: string;
+}
+
+export interface RemoveStatusEffectParams {
+  gameId: string;
+  character: string;
+  name: string;
+}
+
+export interface SetCalendarParams extends CalendarConfig {
+  gameId: string;
+}
+
+export interface AdvanceTimeParams {
+  gameId: string;
+  slots?: number; // 지날 시간대 수
+  days?: number; // 지날 일수
+  toSlot?: string; // 다음으로 돌아오는 이 시간대까지 (예: "Morning")
+}
+
+export interface DefineLocationParams {
+  gameId: string;
+  name: string;
+  description?: string;
+  tags?: string[];
+  here?: boolean; // true면 파티를 이 장소에 둠
+}
+
+export interface ConnectLocationsParams {
+  gameId: string;
+  from: string;
+  to: string;
+  oneWay?: boolean;
+  time?: number;
+  cost?: Record<string, number>;
+  items?: Record<string, number>;
+  description?: string;
+}
+
+export interface TravelToParams {
+  gameId: string;
+  destination: string;
+}
+
+export interface AdjustRelationshipParams {
+  gameId: string;
+  from: string; // 호감을 느끼는 캐릭터
+  to: string; // 대상 캐릭터
+  amount?: number; // 증감 (value와 함께 쓸 수 없음)
+  value?: number; // 값 지정
+  mutual?: boolean; // true면 to → from 방향에도 같은 변화를 적용
+}
+
+export interface DefineRelationshipTiersParams {
+  gameId: string;
+  tiers: RelationshipTier[];
+}
+
+export interface AddQuestParams {
+  gameId: string;
+  title: string;
+  id?: string;
+  description?: string;
+  objectives?: (string | QuestObjectiveInput)[];
+  reward?: string;
+}
+
+export interface UpdateObjectiveParams {
+  gameId: string;
+  quest: string; // 퀘스트 id 또는 제목
+  objective: string; // 목표 id 또는 설명
+  progress?: number; // 카운터 값 지정
+  increment?: number; // 카운터 증감
+  done?: boolean; // 체크리스트 완료 여부
+}
+
+export interface CompleteQuestParams {
+  gameId: string;
+  quest: string;
+}
+
+export interface FailQuestParams {
+  gameId: string;
+  quest: string;
+  reason?: string;
+}
+
+export interface DefineItemsParams {
+  gameId: string;
+  items: ItemDefinition[];
+}
+
+export interface EquipItemParams {
+  gameId: string;
+  item: string;
+  owner?: string;
+  slot?: string; // 생략 시 item.slot 또는 item.type
+  unequip?: boolean;
+}
+
+export interface TransferItemParams {
+  gameId: string;
+  item: string;
+  from: string; // 캐릭터 이름 또는 "party"
+  to: string;
+  quantity?: number;
+}
+
 export interface GetGameParams {
   gameId: string;
 }
@@ -115,19 +930,59 @@ export interface ProgressStoryParams {
 
 export interface PromptUserActionsParams {
   gameId: string;
-  options: string[]; // 2-4 meaningful options that mix positive and negative outcomes
+  options: (string | ActionOption)[]; // 2-4 meaningful options that mix positive and negative outcomes
+  allowCustom?: boolean; // 직접 입력한 행동 허용 여부 (기본값 true)
 }
 
 export interface SelectActionParams {
   gameId: string;
   selectedOption: string;
   selectedIndex: number;
+  promptId: string; // promptUserActions가 발급한 프롬프트 ID
+  custom?: boolean; // selectedOption이 플레이어가 직접 입력한 행동이면 true
 }
 
 export interface SelectRestartParams {
   gameId: string;
 }
 
+export interface SaveGameParams {
+  gameId: string;
+  label: string;
+}
+
+export interface ListSavesParams {
+  gameId: string;
+}
+
+export interface LoadSaveParams {
+  gameId: string;
+  label: string;
+}
+
+export interface DeleteSaveParams {
+  gameId: string;
+  label: string;
+}
+
+export interface UndoLastTurnParams {
+  gameId: string;
+}
+
+export interface RewindToTurnParams {
+  gameId: string;
+  turnIndex: number;
+}
+
+export interface ForkGameParams {
+  gameId: string;
+  turnIndex?: number; // 생략하면 현재 상태에서 분기
+}
+
+export interface ListTimelinesParams {
+  gameId: string;
+}
+
 /**
  * 게임 응답 타입 - nextActions를 포함
  */
@@ -136,6 +991,11 @@ export interface GameResponse {
   nextActions: string[];
 }
 
+export interface SelectActionResponse extends GameResponse {
+  statusChanges: StatChange[]; // 턴 경과로 생긴 상태 효과 변화
+  time?: ClockAdvance; // 선택에 걸린 시간 (달력이 있는 게임)
+}
+
 /**
  * 응답 타입들
  */
@@ -151,4 +1011,8 @@ export interface ErrorResponse {
   error: string;
   tool: string;
   timestamp: string;
+  path?: string; // 상태 스키마 위반 시 문제가 된 필드 경로
+  expected?: string; // 상태 스키마 위반 시 기대한 타입
+  gameStatus?: GameStatus; // 끝난 게임에 호출했을 때의 게임 상태
+  endReason?: string; // 끝난 게임의 종료 사유
 }
@@ -0,0 +1,137 @@
+import type { UpdateOperation } from './types.js';
+
+export const UPDATE_OPERATIONS: UpdateOperation[] = [
+  'set',
+  'increment',
+  'decrement',
+  'multiply',
+  'clamp',
+  'push',
+  'remove',
+  'merge',
+  'delete',
+];
+
+/**
+ * clamp 연산의 범위
+ */
+export interface ClampRange {
+  min?: number;
+  max?: number;
+}
+
+function requireNumber(value: unknown, field: string, what: string): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`Cannot apply operation to ${field}: ${what} must be a number`);
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * remove 연산의 매칭 조건 - 객체는 지정한 속성이 모두 같으면, 그 외에는 값이 같으면 일치
+ */
+function matchesItem(item: unknown, matcher: unknown): boolean {
+  if (isPlainObject(matcher)) {
+    return (
+      isPlainObject(item) &&
+      Object.entries(matcher).every(
+        ([key, value]) => JSON.stringify(item[key]) === JSON.stringify(value)
+      )
+    );
+  }
+  return JSON.stringify(item) === JSON.stringify(matcher);
+}
+
+/**
+ * remove 연산이 지울 항목의 인덱스 - 숫자는 인덱스, 그 외에는 첫 번째로 일치하는 항목 (없으면 -1)
+ */
+export function findRemovalIndex(items: unknown[], operand: unknown): number {
+  if (typeof operand === 'number') {
+    return Number.isInteger(operand) && operand >= 0 && operand < items.length ? operand : -1;
+  }
+  return items.findIndex(item => matchesItem(item, operand));
+}
+
+/**
+ * 현재 값에 연산을 적용한 새 값을 계산
+ * delete 연산은 undefined를 반환하며 실제 삭제는 호출 측에서 수행한다.
+ */
+export function applyOperation(
+  field: string,
+  currentValue: unknown,
+  operation: UpdateOperation,
+  operand: unknown
+): unknown {
+  switch (operation) {
+    case 'set':
+      return operand;
+
+    case 'increment':
+    case 'decrement': {
+      // 아직 없는 값은 0에서 시작
+      const current = requireNumber(currentValue ?? 0, field, 'current value');
+      const amount = requireNumber(operand, field, `${operation} amount`);
+      return operation === 'increment' ? current + amount : current - amount;
+    }
+
+    case 'multiply':
+      return (
+        requireNumber(currentValue, field, 'current value') *
+        requireNumber(operand, field, 'multiplier')
+      );
+
+    case 'clamp': {
+      const current = requireNumber(currentValue, field, 'current value');
+      if (!isPlainObject(operand)) {
+        throw new Error(`clamp on ${field} requires a value like {"min": 0, "max": 100}`);
+      }
+      const { min, max } = operand as ClampRange;
+      let result = current;
+      if (min !== undefined) result = Math.max(result, requireNumber(min, field, 'clamp min'));
+      if (max !== undefined) result = Math.min(result, requireNumber(max, field, 'clamp max'));
+      return result;
+    }
+
+    case 'push': {
+      const current = currentValue ?? [];
+      if (!Array.isArray(current)) {
+        throw new Error(`Cannot push to ${field}: current value is not an array`);
+      }
+      return [...current, operand];
+    }
+
+    case 'remove': {
+      if (!Array.isArray(currentValue)) {
+        throw new Error(`Cannot remove from ${field}: current value is not an array`);
+      }
+      const index = findRemovalIndex(currentValue, operand);
+      if (index < 0) {
+        throw new Error(`Cannot remove from ${field}: no item matches ${JSON.stringify(operand)}`);
+      }
+      return currentValue.filter((_, i) => i !== index);
+    }
+
+    case 'merge': {
+      const current = currentValue ?? {};
+      if (!isPlainObject(current) || !isPlainObject(operand)) {
+        throw new Error(`Cannot merge into ${field}: both current value and value must be objects`);
+      }
+      return { ...current, ...operand };
+    }
+
+    case 'delete':
+      if (currentValue === undefined) {
+        throw new Error(`Cannot delete ${field}: field does not exist`);
+      }
+      return undefined;
+
+    default:
+      throw new Error(
+        `Unknown operation "${operation as string}". Expected one of: ${UPDATE_OPERATIONS.join(', ')}`
+      );
+  }
+}